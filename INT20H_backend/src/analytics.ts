@@ -0,0 +1,178 @@
+// Order analytics: KPI totals, a time series by day/week/month, top counties by tax, and map data
+import { queryAll, queryOne } from "./db";
+import { fromCents } from "./money";
+import { rateForOrder } from "./rates";
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+export const ANALYTICS_INTERVALS: AnalyticsInterval[] = ["day", "week", "month"];
+
+/** Longest series returned; a wider range needs a coarser interval */
+const MAX_POINTS = 1000;
+
+export interface AnalyticsPoint {
+  /** First day of the bucket (YYYY-MM-DD); weeks start on Monday */
+  period: string;
+  orders: number;
+  /** Sales before tax */
+  revenue: number;
+  tax: number;
+}
+
+export interface CountyAnalytics {
+  county_fips: string | null;
+  /** County name from the rate table; the order's region for a FIPS it lacks */
+  name: string;
+  orders: number;
+  revenue: number;
+  tax: number;
+}
+
+/** Orders snapped to one grid cell, placed at their average position */
+export interface MapCluster {
+  latitude: number;
+  longitude: number;
+  orders: number;
+  tax: number;
+}
+
+export interface OrderMap {
+  /** Grid cell size in degrees */
+  cell: number;
+  /** Every county with orders, for shading */
+  counties: CountyAnalytics[];
+  clusters: MapCluster[];
+}
+
+export interface OrderAnalytics {
+  interval: AnalyticsInterval;
+  summary: {
+    orders: number;
+    revenue: number;
+    tax: number;
+    /** Revenue plus tax */
+    total: number;
+    /** Revenue per order */
+    average_order_value: number;
+    /** Tax over revenue, so exempt lines pull it below the nominal rates */
+    average_effective_rate: number;
+  };
+  series: AnalyticsPoint[];
+  top_counties: CountyAnalytics[];
+}
+
+/** SQL for the first day of a timestamp's bucket; date() reads naive and ISO 8601 timestamps */
+const BUCKETS: Record<AnalyticsInterval, string> = {
+  day: "date(timestamp)",
+  // Next Sunday (or the day itself on Sundays), then back six days to Monday
+  week: "date(timestamp, 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m-01', timestamp)",
+};
+
+/** Orders, revenue and tax per county, most tax first; `limit` -1 returns all */
+function countyTotals(where: string, params: any[], limit: number): CountyAnalytics[] {
+  const counties = queryAll(
+    `SELECT county_fips, MAX(tax_region) as name, COUNT(*) as orders,
+       SUM(subtotal_cents) as revenue_cents, SUM(tax_cents) as tax_cents
+     FROM orders ${where}
+     GROUP BY county_fips ORDER BY tax_cents DESC, name LIMIT ?`,
+    [...params, limit]
+  );
+  return counties.map((c) => ({
+    county_fips: c.county_fips,
+    // Orders inside a city carry the city's region, so name the county from its own rate row
+    name: (c.county_fips && rateForOrder(c.county_fips, null)?.name) || c.name,
+    orders: c.orders,
+    revenue: fromCents(c.revenue_cents),
+    tax: fromCents(c.tax_cents),
+  }));
+}
+
+/** The bucket after `period`, computed in UTC so no day is skipped or repeated */
+function nextPeriod(period: string, interval: AnalyticsInterval): string {
+  const d = new Date(`${period}T00:00:00Z`);
+  if (interval === "month") d.setUTCMonth(d.getUTCMonth() + 1);
+  else d.setUTCDate(d.getUTCDate() + (interval === "week" ? 7 : 1));
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Aggregates the orders matching `where` (the list filters of GET /orders).
+ * The series covers every bucket from the first order to the last, with empty
+ * buckets as zeros so charts keep an even time axis. Amounts are summed in
+ * cents. Throws with a user-facing message when the series would be too long.
+ */
+export function orderAnalytics(where: string, params: any[], interval: AnalyticsInterval, top = 10): OrderAnalytics {
+  const totals = queryOne(
+    `SELECT COUNT(*) as orders, COALESCE(SUM(subtotal_cents), 0) as revenue_cents,
+       COALESCE(SUM(tax_cents), 0) as tax_cents
+     FROM orders ${where}`,
+    params
+  );
+  const rows = queryAll(
+    `SELECT ${BUCKETS[interval]} as period, COUNT(*) as orders,
+       SUM(subtotal_cents) as revenue_cents, SUM(tax_cents) as tax_cents
+     FROM orders ${where}
+     GROUP BY period HAVING period IS NOT NULL ORDER BY period`,
+    params
+  );
+
+  const byPeriod = new Map(rows.map((r) => [r.period as string, r]));
+  const series: AnalyticsPoint[] = [];
+  if (rows.length) {
+    const last = rows[rows.length - 1].period;
+    for (let p = rows[0].period; p <= last; p = nextPeriod(p, interval)) {
+      if (series.length === MAX_POINTS) {
+        throw new Error(`More than ${MAX_POINTS} ${interval}s in range; narrow the dates or use a wider interval`);
+      }
+      const r = byPeriod.get(p);
+      series.push({
+        period: p,
+        orders: r?.orders ?? 0,
+        revenue: fromCents(r?.revenue_cents ?? 0),
+        tax: fromCents(r?.tax_cents ?? 0),
+      });
+    }
+  }
+
+  const orders = totals.orders;
+  return {
+    interval,
+    summary: {
+      orders,
+      revenue: fromCents(totals.revenue_cents),
+      tax: fromCents(totals.tax_cents),
+      total: fromCents(totals.revenue_cents + totals.tax_cents),
+      average_order_value: orders ? fromCents(Math.round(totals.revenue_cents / orders)) : 0,
+      average_effective_rate: totals.revenue_cents ? Math.round((totals.tax_cents / totals.revenue_cents) * 1e6) / 1e6 : 0,
+    },
+    series,
+    top_counties: countyTotals(where, params, top),
+  };
+}
+
+/**
+ * Map data for the orders matching `where`: totals for every county, and the
+ * orders clustered on a `cell`-degree grid so thousands of drops draw as a
+ * few hundred circles. The caller picks a smaller cell as the map zooms in.
+ */
+export function orderMap(where: string, params: any[], cell: number): OrderMap {
+  const clusters = queryAll(
+    `SELECT CAST(ROUND(latitude / ?) AS INTEGER) as gy, CAST(ROUND(longitude / ?) AS INTEGER) as gx,
+       AVG(latitude) as latitude, AVG(longitude) as longitude,
+       COUNT(*) as orders, SUM(tax_cents) as tax_cents
+     FROM orders ${where}
+     GROUP BY gy, gx`,
+    [cell, cell, ...params]
+  );
+  return {
+    cell,
+    counties: countyTotals(where, params, -1),
+    clusters: clusters.map((c) => ({
+      latitude: Math.round(c.latitude * 1e4) / 1e4,
+      longitude: Math.round(c.longitude * 1e4) / 1e4,
+      orders: c.orders,
+      tax: fromCents(c.tax_cents),
+    })),
+  };
+}
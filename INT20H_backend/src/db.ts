@@ -28,19 +28,207 @@ export async function initDb(): Promise<void> {
       state              TEXT,
       tax_region         TEXT,
       county_fips        TEXT,
+      place_fips         TEXT,   -- Census place GEOID when a city rate applied (e.g. "3684000" Yonkers)
       state_rate         REAL    DEFAULT 0,
       county_rate        REAL    DEFAULT 0,
       city_rate          REAL    DEFAULT 0,
       special_rate       REAL    DEFAULT 0,
       composite_tax_rate REAL    DEFAULT 0,
+      taxable_amount     REAL    DEFAULT 0,  -- part of subtotal bearing any tax
       tax_amount         REAL    DEFAULT 0,
+      state_tax_amount   REAL    DEFAULT 0,  -- tax_amount split by rate component
+      county_tax_amount  REAL    DEFAULT 0,
+      city_tax_amount    REAL    DEFAULT 0,
+      special_tax_amount REAL    DEFAULT 0,
       total_amount       REAL    DEFAULT 0,
+      -- Exact amounts in integer cents; the REAL amount columns above mirror
+      -- these for display and must never be summed for filing
+      subtotal_cents     INTEGER,
+      taxable_cents      INTEGER DEFAULT 0,
+      tax_cents          INTEGER DEFAULT 0,
+      state_tax_cents    INTEGER DEFAULT 0,
+      county_tax_cents   INTEGER DEFAULT 0,
+      city_tax_cents     INTEGER DEFAULT 0,
+      special_tax_cents  INTEGER DEFAULT 0,
+      total_cents        INTEGER DEFAULT 0,
+      line_items         TEXT,   -- JSON array of per-line breakdowns (sku, category, amount, tax, ...)
       jurisdictions      TEXT,   -- JSON array, e.g. ["New York State","New York City","MCTD"]
+      rate_version       TEXT,   -- Pub 718 rate table applied (NULL when the fallback rate was used)
       import_session_id  TEXT,   -- tracks which import session this order came from (for rollback)
+      region_key         TEXT,   -- tax_region lowercased with punctuation removed, for indexed region search
+      deleted_at         TEXT,   -- set when the order is moved to the trash; NULL while active
+      delete_reason      TEXT,
+      refunded_cents     INTEGER DEFAULT 0,  -- running totals of the order's refunds (see refunds)
+      refunded_tax_cents INTEGER DEFAULT 0,
       created_at         TEXT    DEFAULT (datetime('now'))
     );
   `);
 
+  // Every region_key ever stored on an order. Region search matches this small
+  // table first, then finds orders through idx_orders_region_key.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS order_regions (
+      region_key TEXT PRIMARY KEY,
+      tax_region TEXT NOT NULL
+    );
+  `);
+
+  // Resolved county per rounded coordinate, so re-imports and repeated drops
+  // at the same building skip geocoding. Keys are lat/lon × 10^4 (~11 m).
+  db.run(`
+    CREATE TABLE IF NOT EXISTS geocode_cache (
+      lat_key     INTEGER NOT NULL,
+      lon_key     INTEGER NOT NULL,
+      county_fips TEXT,              -- NULL = point is in no NY county
+      source      TEXT    NOT NULL,  -- "local" (bundled boundaries) or "census"
+      vintage     TEXT    NOT NULL,  -- boundary / geocoder vintage the result came from
+      fetched_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (lat_key, lon_key)
+    );
+  `);
+
+  // Effective-dated sales tax rates, seeded from the Pub 718 tables in tax.ts
+  // on first start and edited through /api/rates afterwards.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS tax_rates (
+      id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+      fips               TEXT    NOT NULL,  -- 5-digit county FIPS, or 7-digit place GEOID for city rates
+      kind               TEXT    NOT NULL,  -- "county" | "city"
+      name               TEXT    NOT NULL,
+      state_rate         REAL    NOT NULL,
+      county_rate        REAL    NOT NULL,
+      city_rate          REAL    NOT NULL DEFAULT 0,
+      special_rate       REAL    NOT NULL DEFAULT 0,
+      composite_tax_rate REAL    NOT NULL,
+      jurisdictions      TEXT    NOT NULL,  -- JSON array, e.g. ["New York State","Nassau County","MCTD"]
+      clothing_exempt    INTEGER NOT NULL DEFAULT 0,
+      reporting_code     TEXT,              -- ST-100 jurisdiction reporting code, e.g. "0181" or "NE 8081"
+      rate_version       TEXT    NOT NULL,  -- stored on orders taxed with this row
+      effective_from     TEXT    NOT NULL,  -- YYYY-MM-DD, inclusive
+      effective_to       TEXT,              -- YYYY-MM-DD, exclusive; NULL while in force
+      created_at         TEXT    DEFAULT (datetime('now')),
+      updated_at         TEXT    DEFAULT (datetime('now'))
+    );
+  `);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_tax_rates_fips ON tax_rates (fips, effective_from)`);
+
+  // Background CSV imports. A job's id doubles as the import_session_id of the
+  // orders it inserts, so a cancelled job can be rolled back.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS import_jobs (
+      id          TEXT    PRIMARY KEY,
+      status      TEXT    NOT NULL,  -- queued | running | cancelling | done | cancelled | failed
+      dry_run     INTEGER NOT NULL DEFAULT 0,  -- 1 = validate and price rows, write no orders
+      filename    TEXT,
+      total_rows  INTEGER NOT NULL,
+      processed   INTEGER NOT NULL DEFAULT 0,
+      succeeded   INTEGER NOT NULL DEFAULT 0,
+      failed      INTEGER NOT NULL DEFAULT 0,
+      rolled_back INTEGER,           -- orders trashed when the job was cancelled
+      error       TEXT,              -- why the job itself failed (row errors live on import_job_rows)
+      created_at  TEXT    DEFAULT (datetime('now')),
+      started_at  TEXT,
+      finished_at TEXT
+    );
+  `);
+  db.run(`
+    CREATE TABLE IF NOT EXISTS import_job_rows (
+      job_id    TEXT    NOT NULL,
+      row_index INTEGER NOT NULL,    -- 0-based position in the file, header excluded
+      data      TEXT    NOT NULL,    -- JSON of the parsed CSV row
+      status    TEXT    NOT NULL DEFAULT 'pending',  -- pending | imported | valid (dry run) | failed
+      order_id  INTEGER,           -- the order written, or the id it would get in a dry run
+      action    TEXT,              -- insert | update (overwrites an existing id)
+      county_fips        TEXT,
+      tax_region         TEXT,
+      zip_code           TEXT,
+      composite_tax_rate REAL,
+      subtotal_cents     INTEGER,
+      tax_cents          INTEGER,
+      total_cents        INTEGER,
+      error_code TEXT,             -- machine-readable reason, see RowErrorCode in imports.ts
+      error     TEXT,
+      PRIMARY KEY (job_id, row_index)
+    );
+  `);
+
+  // Tax recalculation runs over stored orders. Each row keeps the order's old
+  // and new tax so the diff can be reviewed before anything is written.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS recalc_jobs (
+      id           TEXT    PRIMARY KEY,
+      status       TEXT    NOT NULL,  -- queued | running | ready | applied | failed
+      filters      TEXT    NOT NULL,  -- JSON: { from, to, county_fips, fallback_only }
+      total_orders INTEGER NOT NULL,
+      processed    INTEGER NOT NULL DEFAULT 0,
+      changed      INTEGER NOT NULL DEFAULT 0,
+      failed       INTEGER NOT NULL DEFAULT 0,
+      applied      INTEGER,           -- orders updated on apply
+      stale        INTEGER,           -- changed orders skipped on apply because they were edited after the diff
+      error        TEXT,
+      created_at   TEXT    DEFAULT (datetime('now')),
+      started_at   TEXT,
+      finished_at  TEXT,
+      applied_at   TEXT
+    );
+  `);
+  db.run(`
+    CREATE TABLE IF NOT EXISTS recalc_job_rows (
+      job_id          TEXT    NOT NULL,
+      order_id        INTEGER NOT NULL,
+      status          TEXT    NOT NULL DEFAULT 'pending',  -- pending | unchanged | changed | applied | stale | failed
+      county_fips     TEXT,              -- as stored when the job was created
+      tax_region      TEXT,
+      new_county_fips TEXT,
+      new_tax_region  TEXT,
+      old_rate        REAL,
+      new_rate        REAL,
+      old_tax_cents   INTEGER,
+      new_tax_cents   INTEGER,
+      snapshot        TEXT,              -- JSON of the order fields the diff was based on
+      data            TEXT,              -- JSON of the new tax columns, for changed orders
+      error           TEXT,
+      PRIMARY KEY (job_id, order_id)
+    );
+  `);
+
+  // Refunds and credit memos against an order. Each row reverses part of the
+  // order's sales and tax; the amounts are positive and reports subtract them
+  // in the period of refunded_at, leaving the order's own figures untouched.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS refunds (
+      id                INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id          INTEGER NOT NULL,
+      kind              TEXT    NOT NULL,  -- full | partial
+      reason            TEXT,              -- e.g. return, failed delivery
+      amount_cents      INTEGER NOT NULL,  -- sales refunded, before tax
+      taxable_cents     INTEGER NOT NULL,
+      tax_cents         INTEGER NOT NULL,  -- tax reversed, split by rate component below
+      state_tax_cents   INTEGER NOT NULL,
+      county_tax_cents  INTEGER NOT NULL,
+      city_tax_cents    INTEGER NOT NULL,
+      special_tax_cents INTEGER NOT NULL,
+      total_cents       INTEGER NOT NULL,  -- amount + tax paid back
+      refunded_at       TEXT    NOT NULL,  -- decides the filing period the reversal falls in
+      created_at        TEXT    DEFAULT (datetime('now'))
+    );
+  `);
+
+  // Saved column mappings and parsing options for partner import files
+  db.run(`
+    CREATE TABLE IF NOT EXISTS import_profiles (
+      id                INTEGER PRIMARY KEY AUTOINCREMENT,
+      name              TEXT    NOT NULL UNIQUE,
+      format            TEXT,                         -- csv | jsonl | xlsx; NULL = from the file extension
+      delimiter         TEXT    NOT NULL DEFAULT ',',
+      decimal_separator TEXT    NOT NULL DEFAULT '.',
+      timestamp_format  TEXT,                         -- e.g. DD.MM.YYYY HH:mm, unix, unix_ms
+      columns           TEXT    NOT NULL DEFAULT '{}', -- JSON { field: source column }
+      created_at        TEXT    DEFAULT (datetime('now')),
+      updated_at        TEXT    DEFAULT (datetime('now'))
+    );
+  `);
+
   // Non-destructive migration: add new columns to existing databases
   runMigrations();
 
@@ -57,17 +245,108 @@ function runMigrations(): void {
     `ALTER TABLE orders ADD COLUMN county_fips   TEXT`,
     `ALTER TABLE orders ADD COLUMN jurisdictions TEXT`,
     `ALTER TABLE orders ADD COLUMN import_session_id TEXT`,
+    `ALTER TABLE orders ADD COLUMN rate_version  TEXT`,
+    `ALTER TABLE orders ADD COLUMN place_fips    TEXT`,
+    `ALTER TABLE orders ADD COLUMN line_items    TEXT`,
+    `ALTER TABLE orders ADD COLUMN taxable_amount     REAL`,
+    `ALTER TABLE orders ADD COLUMN state_tax_amount   REAL`,
+    `ALTER TABLE orders ADD COLUMN county_tax_amount  REAL`,
+    `ALTER TABLE orders ADD COLUMN city_tax_amount    REAL`,
+    `ALTER TABLE orders ADD COLUMN special_tax_amount REAL`,
+    `ALTER TABLE orders ADD COLUMN subtotal_cents     INTEGER`,
+    `ALTER TABLE orders ADD COLUMN taxable_cents      INTEGER`,
+    `ALTER TABLE orders ADD COLUMN tax_cents          INTEGER`,
+    `ALTER TABLE orders ADD COLUMN state_tax_cents    INTEGER`,
+    `ALTER TABLE orders ADD COLUMN county_tax_cents   INTEGER`,
+    `ALTER TABLE orders ADD COLUMN city_tax_cents     INTEGER`,
+    `ALTER TABLE orders ADD COLUMN special_tax_cents  INTEGER`,
+    `ALTER TABLE orders ADD COLUMN total_cents        INTEGER`,
+    `ALTER TABLE orders ADD COLUMN region_key         TEXT`,
+    `ALTER TABLE orders ADD COLUMN deleted_at         TEXT`,
+    `ALTER TABLE orders ADD COLUMN delete_reason      TEXT`,
+    `ALTER TABLE orders ADD COLUMN refunded_cents     INTEGER DEFAULT 0`,
+    `ALTER TABLE orders ADD COLUMN refunded_tax_cents INTEGER DEFAULT 0`,
+    `ALTER TABLE tax_rates ADD COLUMN reporting_code TEXT`,
+    `ALTER TABLE import_jobs ADD COLUMN dry_run INTEGER NOT NULL DEFAULT 0`,
+    `ALTER TABLE import_job_rows ADD COLUMN action             TEXT`,
+    `ALTER TABLE import_job_rows ADD COLUMN county_fips        TEXT`,
+    `ALTER TABLE import_job_rows ADD COLUMN tax_region         TEXT`,
+    `ALTER TABLE import_job_rows ADD COLUMN zip_code           TEXT`,
+    `ALTER TABLE import_job_rows ADD COLUMN composite_tax_rate REAL`,
+    `ALTER TABLE import_job_rows ADD COLUMN subtotal_cents     INTEGER`,
+    `ALTER TABLE import_job_rows ADD COLUMN tax_cents          INTEGER`,
+    `ALTER TABLE import_job_rows ADD COLUMN total_cents        INTEGER`,
+    `ALTER TABLE import_job_rows ADD COLUMN error_code         TEXT`,
   ];
   for (const sql of migrations) {
     try { db.run(sql); } catch { /* column already exists — safe to ignore */ }
   }
+
+  // MCTD surcharge used to be stored in city_rate; it now lives in special_rate
+  // so city_rate can hold real city surtaxes. Re-running this is a no-op.
+  db.run(`
+    UPDATE orders SET special_rate = city_rate, city_rate = 0
+    WHERE jurisdictions LIKE '%"MCTD"%' AND city_rate = 0.00375 AND special_rate = 0
+  `);
+
+  // Orders saved before line items were a single fully-taxable amount: split
+  // their tax by rate component, with the state share absorbing rounding.
+  db.run(`
+    UPDATE orders SET
+      taxable_amount     = CASE WHEN tax_amount > 0 THEN subtotal ELSE 0 END,
+      county_tax_amount  = ROUND(subtotal * county_rate, 2),
+      city_tax_amount    = ROUND(subtotal * city_rate, 2),
+      special_tax_amount = ROUND(subtotal * special_rate, 2)
+    WHERE taxable_amount IS NULL
+  `);
+  db.run(`
+    UPDATE orders SET
+      state_tax_amount = ROUND(tax_amount - county_tax_amount - city_tax_amount - special_tax_amount, 2)
+    WHERE state_tax_amount IS NULL
+  `);
+
+  // Orders saved before amounts were kept in cents: convert the REAL columns.
+  // Every stored amount was already rounded to 2 decimals, so ROUND(x * 100)
+  // recovers the exact cent value.
+  db.run(`
+    UPDATE orders SET
+      subtotal_cents    = CAST(ROUND(subtotal * 100) AS INTEGER),
+      taxable_cents     = CAST(ROUND(COALESCE(taxable_amount, 0) * 100) AS INTEGER),
+      tax_cents         = CAST(ROUND(tax_amount * 100) AS INTEGER),
+      state_tax_cents   = CAST(ROUND(COALESCE(state_tax_amount, 0) * 100) AS INTEGER),
+      county_tax_cents  = CAST(ROUND(COALESCE(county_tax_amount, 0) * 100) AS INTEGER),
+      city_tax_cents    = CAST(ROUND(COALESCE(city_tax_amount, 0) * 100) AS INTEGER),
+      special_tax_cents = CAST(ROUND(COALESCE(special_tax_amount, 0) * 100) AS INTEGER)
+    WHERE subtotal_cents IS NULL
+  `);
+  db.run(`
+    UPDATE orders SET total_cents = subtotal_cents + tax_cents
+    WHERE total_cents IS NULL
+  `);
+
+  // Indexes for the list filters and sorts, created once every column exists.
+  // id is the rowid, so each index also serves "ORDER BY col, id" and keyset pages.
+  db.run(`CREATE INDEX IF NOT EXISTS idx_orders_timestamp  ON orders (timestamp)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_orders_county     ON orders (county_fips)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_orders_total      ON orders (total_cents)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_orders_region_key ON orders (region_key)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_refunds_order       ON refunds (order_id)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_refunds_refunded_at ON refunds (refunded_at)`);
 }
 
 // Save DB state to disk after every write
 function persist() {
+  if (persistTimer) { clearTimeout(persistTimer); persistTimer = null; }
   fs.writeFileSync(DB_PATH, Buffer.from(db.export()));
 }
 
+// Debounced save for high-volume writes that can tolerate a short delay
+let persistTimer: NodeJS.Timeout | null = null;
+function schedulePersist() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(persist, 1_000);
+}
+
 // Get current max ID (used to generate next ID for manual orders)
 export function getMaxId(): number {
   const res = db.exec("SELECT MAX(id) as max_id FROM orders");
@@ -77,8 +356,21 @@ export function getMaxId(): number {
 // Run a write query and return the last inserted row ID
 export function runQuery(sql: string, params: any[] = []): number {
   db.run(sql, params);
+  // Read the row ID before persisting — export() reopens the database and resets it
+  const res = db.exec("SELECT last_insert_rowid() as id");
   persist();
+  return res[0]?.values[0][0] as number ?? 0;
+}
+
+// Run a write query but defer the disk save by up to a second. Use for cache-like
+// data where losing the last second of writes on a crash is harmless, or for
+// high-volume writes that can simply be redone (import jobs re-run any row not
+// yet marked done). The whole database is saved at once, so related deferred
+// writes are lost or kept together.
+export function runQueryDeferred(sql: string, params: any[] = []): number {
+  db.run(sql, params);
   const res = db.exec("SELECT last_insert_rowid() as id");
+  schedulePersist();
   return res[0]?.values[0][0] as number ?? 0;
 }
 
@@ -0,0 +1,335 @@
+/**
+ * geo.ts — Offline point-in-polygon lookups against bundled boundary data.
+ *
+ * Boundary files live in src/data as GeoJSON FeatureCollections with
+ * [lon, lat] coordinates:
+ *   - ny-counties.json — all 62 NY counties, from the Census Bureau's 2010
+ *     TIGER/Line county file (tl_2010_us_county10), simplified to about 10 m
+ *     with coordinates rounded to 5 decimals. These are the legal extents,
+ *     water included, so a pier or an island belongs to its county and the
+ *     Hudson splits along the state line. Feature id is the 5-digit county
+ *     FIPS code.
+ *   - ny-places.json — approximate outlines of the cities that levy
+ *     their own sales tax inside a county (Yonkers, Utica, ...). Feature id is
+ *     the 7-digit Census place GEOID; properties carry the city name and the
+ *     FIPS of the county it sits in.
+ *   - ny-zips.json — internal points of the 2020 Census ZIP Code Tabulation
+ *     Areas (ZCTAs) in NY, each tagged with the county the point falls in. Not
+ *     a FeatureCollection: rows of [zip, lat, lon, county_fips] to keep the
+ *     file small. ZCTAs leave out PO-box-only ZIPs, which is what we want for
+ *     delivery addresses.
+ *
+ * Place polygons are hand-traced stand-ins (5–10 vertices per city), not
+ * Census geometry. Near a city line they put points on the wrong side: New
+ * Hartford reads as Utica and Pelham Manor as New Rochelle. They are to be
+ * replaced by the Census TIGER/Line place boundaries for the same GEOIDs;
+ * until then city rates near a city line need checking by hand.
+ */
+
+import countiesData from "./data/ny-counties.json";
+import placesData from "./data/ny-places.json";
+import zipsData from "./data/ny-zips.json";
+
+/** Vintage of the bundled county boundaries; stored with cached lookups. */
+export const BOUNDARY_VINTAGE = "tl_2010_us_county10";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Position = number[];   // [lon, lat]
+
+interface Geometry {
+  type: string;             // "Polygon" | "MultiPolygon"
+  coordinates: any;
+}
+
+export interface BoundaryFeature {
+  id: string;
+  properties: Record<string, any>;
+  geometry: Geometry;
+}
+
+interface BBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+export interface CountyMatch {
+  /** 5-digit county FIPS, e.g. "36061" */
+  county_fips: string;
+  name: string;
+  /** true when the point was outside every polygon and snapped to the nearest county */
+  snapped: boolean;
+}
+
+export interface ZipMatch {
+  zip: string;
+  /** Distance from the point to the ZCTA's internal point */
+  distance_km: number;
+}
+
+export interface PlaceMatch {
+  /** 7-digit Census place GEOID, e.g. "3684000" for Yonkers */
+  place_fips: string;
+  name: string;
+  county_fips: string;
+}
+
+// ---------------------------------------------------------------------------
+// Geometry primitives
+// ---------------------------------------------------------------------------
+
+/** Ray-casting test: is (lon, lat) inside the closed ring? */
+function pointInRing(lon: number, lat: number, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** A polygon is its outer ring minus any holes. */
+function pointInPolygon(lon: number, lat: number, rings: Position[][]): boolean {
+  if (!rings.length || !pointInRing(lon, lat, rings[0])) return false;
+  return !rings.slice(1).some((hole) => pointInRing(lon, lat, hole));
+}
+
+export function pointInGeometry(lon: number, lat: number, geometry: Geometry): boolean {
+  if (geometry.type === "Polygon") return pointInPolygon(lon, lat, geometry.coordinates);
+  if (geometry.type === "MultiPolygon") {
+    return (geometry.coordinates as Position[][][]).some((poly) => pointInPolygon(lon, lat, poly));
+  }
+  return false;
+}
+
+function bboxOf(geometry: Geometry): BBox {
+  const box = { minLon: Infinity, minLat: Infinity, maxLon: -Infinity, maxLat: -Infinity };
+  const polygons: Position[][][] = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  for (const poly of polygons) {
+    for (const [lon, lat] of poly[0]) {
+      box.minLon = Math.min(box.minLon, lon);
+      box.maxLon = Math.max(box.maxLon, lon);
+      box.minLat = Math.min(box.minLat, lat);
+      box.maxLat = Math.max(box.maxLat, lat);
+    }
+  }
+  return box;
+}
+
+function inBBox(lon: number, lat: number, box: BBox): boolean {
+  return lon >= box.minLon && lon <= box.maxLon && lat >= box.minLat && lat <= box.maxLat;
+}
+
+/**
+ * Approximate distance in km from (lon, lat) to segment a–b. Uses an
+ * equirectangular projection around the point — fine at the few-km scale
+ * we snap over.
+ */
+function distanceToSegmentKm(lon: number, lat: number, a: Position, b: Position): number {
+  const kx = 111.32 * Math.cos((lat * Math.PI) / 180);
+  const ky = 110.57;
+  const ax = (a[0] - lon) * kx, ay = (a[1] - lat) * ky;
+  const bx = (b[0] - lon) * kx, by = (b[1] - lat) * ky;
+  const dx = bx - ax, dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+function distanceToGeometryKm(lon: number, lat: number, geometry: Geometry): number {
+  const polygons: Position[][][] = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  let best = Infinity;
+  for (const poly of polygons) {
+    for (const ring of poly) {
+      for (let i = 1; i < ring.length; i++) {
+        best = Math.min(best, distanceToSegmentKm(lon, lat, ring[i - 1], ring[i]));
+      }
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// County lookup — uniform grid spatial index
+//
+// Each county is registered in every grid cell its bounding box touches, so a
+// lookup only tests the handful of counties whose box covers the point's cell
+// instead of all 62 polygons.
+// ---------------------------------------------------------------------------
+
+const CELL_SIZE = 0.25;   // degrees; ~25 km — NY counties span a few cells each
+
+/**
+ * Points this close to a county (but inside none) are snapped to it. The
+ * outlines take in their water, so this only covers what simplification
+ * shaved off a land border.
+ */
+const MAX_SNAP_KM = 0.1;
+
+interface IndexedFeature {
+  feature: BoundaryFeature;
+  bbox: BBox;
+}
+
+const cellKey = (cx: number, cy: number) => `${cx}:${cy}`;
+const cellOf = (v: number) => Math.floor(v / CELL_SIZE);
+
+function buildGridIndex(features: BoundaryFeature[]): Map<string, IndexedFeature[]> {
+  const grid = new Map<string, IndexedFeature[]>();
+  for (const feature of features) {
+    const bbox = bboxOf(feature.geometry);
+    for (let cx = cellOf(bbox.minLon); cx <= cellOf(bbox.maxLon); cx++) {
+      for (let cy = cellOf(bbox.minLat); cy <= cellOf(bbox.maxLat); cy++) {
+        const key = cellKey(cx, cy);
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key)!.push({ feature, bbox });
+      }
+    }
+  }
+  return grid;
+}
+
+const COUNTY_INDEX = buildGridIndex(countiesData.features as BoundaryFeature[]);
+
+/** Unique counties registered in the point's cell and its eight neighbours. */
+function nearbyCounties(lat: number, lon: number): IndexedFeature[] {
+  const seen = new Set<string>();
+  const out: IndexedFeature[] = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (const entry of COUNTY_INDEX.get(cellKey(cellOf(lon) + dx, cellOf(lat) + dy)) ?? []) {
+        if (!seen.has(entry.feature.id)) {
+          seen.add(entry.feature.id);
+          out.push(entry);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Resolves (lat, lon) → NY county using the bundled boundaries. No network.
+ *
+ * Returns null when the point is neither inside nor within MAX_SNAP_KM of any
+ * NY county (e.g. New Jersey, Connecticut, the open Atlantic).
+ */
+export function findCounty(lat: number, lon: number): CountyMatch | null {
+  const candidates = COUNTY_INDEX.get(cellKey(cellOf(lon), cellOf(lat))) ?? [];
+  for (const { feature, bbox } of candidates) {
+    if (inBBox(lon, lat, bbox) && pointInGeometry(lon, lat, feature.geometry)) {
+      return { county_fips: feature.id, name: feature.properties.name, snapped: false };
+    }
+  }
+
+  let nearest: CountyMatch | null = null;
+  let nearestKm = MAX_SNAP_KM;
+  for (const { feature } of nearbyCounties(lat, lon)) {
+    const km = distanceToGeometryKm(lon, lat, feature.geometry);
+    if (km <= nearestKm) {
+      nearestKm = km;
+      nearest = { county_fips: feature.id, name: feature.properties.name, snapped: true };
+    }
+  }
+  return nearest;
+}
+
+// ---------------------------------------------------------------------------
+// City (place) lookup
+// ---------------------------------------------------------------------------
+
+// Only a few dozen cities levy their own rate, so a linear scan with a bbox
+// pre-check is plenty fast.
+const PLACES = (placesData.features as BoundaryFeature[]).map((f) => ({
+  feature: f,
+  bbox: bboxOf(f.geometry),
+}));
+
+/**
+ * Returns the taxing city containing (lat, lon), or null when the point is
+ * outside every bundled city boundary.
+ */
+export function findPlace(lat: number, lon: number): PlaceMatch | null {
+  for (const { feature, bbox } of PLACES) {
+    if (inBBox(lon, lat, bbox) && pointInGeometry(lon, lat, feature.geometry)) {
+      return {
+        place_fips: feature.id,
+        name: feature.properties.name,
+        county_fips: feature.properties.county_fips,
+      };
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// ZIP lookup — nearest ZCTA internal point
+//
+// ZCTA polygons for NY run to tens of megabytes, so we approximate them with
+// a nearest-point (Voronoi) assignment. Candidates are limited to ZIPs
+// whose point lies in the point's county, which keeps a drop near a county
+// line from picking up the neighbouring county's ZIP — and keeps points in
+// New Jersey or Connecticut from being given a nearby NY ZIP.
+// ---------------------------------------------------------------------------
+
+/**
+ * Points farther than this from every candidate ZCTA point get no ZIP. Covers
+ * ~99% of the area of each county; the rest is mostly Adirondack wilderness.
+ */
+const MAX_ZIP_KM = 15;
+
+interface ZipPoint {
+  zip: string;
+  lat: number;
+  lon: number;
+}
+
+const ZIPS_BY_COUNTY = new Map<string | null, ZipPoint[]>();
+for (const [zip, lat, lon, countyFips] of zipsData.zips as [string, number, number, string | null][]) {
+  if (!ZIPS_BY_COUNTY.has(countyFips)) ZIPS_BY_COUNTY.set(countyFips, []);
+  ZIPS_BY_COUNTY.get(countyFips)!.push({ zip, lat, lon });
+}
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const kx = 111.32 * Math.cos((lat1 * Math.PI) / 180);
+  return Math.hypot((lon2 - lon1) * kx, (lat2 - lat1) * 110.57);
+}
+
+/**
+ * Returns the ZIP whose ZCTA point is nearest to (lat, lon) among the ZIPs of
+ * the county the point was resolved to. Returns null without a county: a
+ * point outside NY has no NY ZIP, however close one is.
+ *
+ * This approximates ZCTA membership: points near a ZIP boundary may get the
+ * neighbouring ZIP, and small single-building ZIPs (e.g. 10112) can claim
+ * drops on the surrounding blocks.
+ */
+export function findZip(lat: number, lon: number, countyFips?: string | null): ZipMatch | null {
+  if (!countyFips) return null;
+  const candidates = ZIPS_BY_COUNTY.get(countyFips) ?? [];
+  let best: ZipMatch | null = null;
+  for (const z of candidates) {
+    const km = distanceKm(lat, lon, z.lat, z.lon);
+    if (km <= MAX_ZIP_KM && (!best || km < best.distance_km)) best = { zip: z.zip, distance_km: km };
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Boundaries for display
+// ---------------------------------------------------------------------------
+
+/**
+ * The bundled county outlines as a GeoJSON FeatureCollection (feature id is
+ * the county FIPS), so the frontend can draw its map without a tile server.
+ */
+export function countyBoundaries(): { type: "FeatureCollection"; features: BoundaryFeature[] } {
+  return { type: "FeatureCollection", features: countiesData.features as BoundaryFeature[] };
+}
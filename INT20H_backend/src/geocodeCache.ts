@@ -0,0 +1,101 @@
+// Geocode cache: remembers which county a rounded coordinate resolved to, plus admin routes to inspect and purge it
+import { Router, Request, Response } from "express";
+import { runQuery, runQueryDeferred, queryAll, queryOne } from "./db";
+import { authMiddleware } from "./auth";
+
+/** Entries older than this are ignored and re-resolved on next use. */
+const TTL_DAYS = Math.max(1, parseInt(process.env.GEOCODE_CACHE_TTL_DAYS || "") || 90);
+
+// 4 decimal places ≈ 11 m — drops at the same building share one entry
+const KEY_SCALE = 10_000;
+
+export interface CachedCounty {
+  county_fips: string | null;
+  source: string;
+  vintage: string;
+  fetched_at: string;
+}
+
+function keyOf(lat: number, lon: number): [number, number] {
+  return [Math.round(lat * KEY_SCALE), Math.round(lon * KEY_SCALE)];
+}
+
+const EXPIRED_SQL = `fetched_at < datetime('now', '-${TTL_DAYS} days')`;
+
+/**
+ * Returns the cached resolution for (lat, lon), or null on a miss or when the
+ * entry is past its TTL. Callers decide whether the entry's vintage is still current.
+ */
+export function getCachedCounty(lat: number, lon: number): CachedCounty | null {
+  return queryOne(
+    `SELECT county_fips, source, vintage, fetched_at FROM geocode_cache
+     WHERE lat_key = ? AND lon_key = ? AND NOT (${EXPIRED_SQL})`,
+    keyOf(lat, lon)
+  );
+}
+
+export function putCachedCounty(lat: number, lon: number, countyFips: string | null, source: string, vintage: string): void {
+  runQueryDeferred(
+    `INSERT OR REPLACE INTO geocode_cache (lat_key, lon_key, county_fips, source, vintage, fetched_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now'))`,
+    [...keyOf(lat, lon), countyFips, source, vintage]
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Admin routes — mounted at /api/geocode-cache
+// ---------------------------------------------------------------------------
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /geocode-cache — summary by source/vintage plus a page of entries (newest first)
+router.get("/", (req: Request, res: Response) => {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+  const offset = (page - 1) * limit;
+
+  const total = queryOne(`SELECT COUNT(*) as cnt FROM geocode_cache`)?.cnt ?? 0;
+  const expired = queryOne(`SELECT COUNT(*) as cnt FROM geocode_cache WHERE ${EXPIRED_SQL}`)?.cnt ?? 0;
+  const sources = queryAll(
+    `SELECT source, vintage, COUNT(*) as count FROM geocode_cache GROUP BY source, vintage ORDER BY count DESC`
+  );
+  const entries = queryAll(
+    `SELECT lat_key, lon_key, county_fips, source, vintage, fetched_at FROM geocode_cache
+     ORDER BY fetched_at DESC LIMIT ? OFFSET ?`,
+    [limit, offset]
+  ).map(({ lat_key, lon_key, ...rest }) => ({
+    latitude: lat_key / KEY_SCALE,
+    longitude: lon_key / KEY_SCALE,
+    ...rest,
+  }));
+
+  res.json({ ttl_days: TTL_DAYS, total, expired, sources, page, limit, pages: Math.ceil(total / limit), entries });
+});
+
+// DELETE /geocode-cache — purge entries. Optional filters:
+//   expired=true       → only entries past the TTL
+//   county_fips=36119  → only entries for one county (e.g. after a boundary fix)
+//   source=census      → only entries from one source
+router.delete("/", (req: Request, res: Response) => {
+  const filters: string[] = [];
+  const params: any[] = [];
+
+  if (req.query.expired === "true") filters.push(EXPIRED_SQL);
+  if (req.query.county_fips) {
+    filters.push("county_fips = ?");
+    params.push(String(req.query.county_fips));
+  }
+  if (req.query.source) {
+    filters.push("source = ?");
+    params.push(String(req.query.source));
+  }
+
+  const where = filters.length ? `WHERE ${filters.join(" AND ")}` : "";
+  const deleted = queryOne(`SELECT COUNT(*) as cnt FROM geocode_cache ${where}`, params)?.cnt ?? 0;
+  runQuery(`DELETE FROM geocode_cache ${where}`, params);
+  res.json({ ok: true, deleted });
+});
+
+export default router;
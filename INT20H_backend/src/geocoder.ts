@@ -0,0 +1,218 @@
+/**
+ * geocoder.ts — Pluggable coordinate → county FIPS resolution.
+ *
+ * Providers (selected with GEOCODER_PROVIDER):
+ *   - offline — point-in-polygon against the bundled boundaries (default; no network)
+ *   - census  — US Census Bureau Geocoder at its public URL
+ *   - http    — any server speaking the Census response format at GEOCODER_URL,
+ *               e.g. the stand-in from mockGeocoder.ts for staging and tests
+ *
+ * A second provider can be configured as a cross-check (GEOCODER_CROSS_CHECK).
+ * Disagreements are logged; the cross-check only wins where the primary
+ * provider failed, found no county, or had to snap a point to a nearby county.
+ *
+ * Environment:
+ *   GEOCODER_PROVIDER     offline | census | http            (default: offline)
+ *   GEOCODER_CROSS_CHECK  none | offline | census | http     (default: none)
+ *   GEOCODER_URL          coordinates endpoint for the http provider
+ *   GEOCODER_BENCHMARK    Census benchmark                   (default: Public_AR_Current)
+ *   GEOCODER_VINTAGE      Census vintage                     (default: Current_Current)
+ *   GEOCODER_TIMEOUT_MS   per-request timeout for HTTP providers (default: 8000)
+ */
+
+import { findCounty, BOUNDARY_VINTAGE } from "./geo";
+import { getCachedCounty, putCachedCounty } from "./geocodeCache";
+
+// Native fetch is available in Node.js 18+. If you're on Node 16, run:
+// npm install node-fetch @types/node-fetch  and change this to:
+// import fetch from "node-fetch";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GeocodeResult {
+  /** 5-digit county FIPS, or null when the point is in no NY county */
+  county_fips: string | null;
+  /** true when the provider had to guess (e.g. snapped to a nearby county) */
+  approximate: boolean;
+}
+
+/** Where resolveCounty's answer came from, for callers that report it */
+export interface CountyResolution {
+  county_fips: string | null;
+  /** Provider that placed the point ("local", "census", "http"); null if every provider failed */
+  source: string | null;
+  /** true when the answer came from the geocode cache */
+  cached: boolean;
+}
+
+export interface GeocoderProvider {
+  /** Short name, stored as the `source` of cached results */
+  readonly name: string;
+  /** Data vintage, stored with cached results so stale entries can be detected */
+  readonly vintage: string;
+  /** Resolves a point; returns null if the provider itself failed (network, timeout, bad response) */
+  lookup(lat: number, lon: number): Promise<GeocodeResult | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Offline provider
+// ---------------------------------------------------------------------------
+
+export const offlineGeocoder: GeocoderProvider = {
+  name: "local",
+  vintage: BOUNDARY_VINTAGE,
+  async lookup(lat, lon) {
+    const match = findCounty(lat, lon);
+    return { county_fips: match?.county_fips ?? null, approximate: match?.snapped ?? false };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Census-format HTTP providers
+// ---------------------------------------------------------------------------
+
+const CENSUS_URL = "https://geocoding.geo.census.gov/geocoder/geographies/coordinates";
+const BENCHMARK = process.env.GEOCODER_BENCHMARK || "Public_AR_Current";
+const VINTAGE = process.env.GEOCODER_VINTAGE || "Current_Current";
+const TIMEOUT_MS = parseInt(process.env.GEOCODER_TIMEOUT_MS || "") || 8_000;
+
+/**
+ * Builds a provider for any endpoint that speaks the Census Geocoder
+ * `geographies/coordinates` API.
+ *
+ * No API key required. Returns FIPS codes that we use to look up tax rates.
+ * Returns null on network failure or a non-2xx response — callers should fall
+ * back gracefully. An empty `Counties` layer means "no county here".
+ */
+export function censusCompatibleGeocoder(name: string, endpoint: string): GeocoderProvider {
+  return {
+    name,
+    vintage: VINTAGE,
+    async lookup(lat, lon) {
+      const url = new URL(endpoint);
+      url.searchParams.set("x", String(lon));          // Census API uses x=lon, y=lat
+      url.searchParams.set("y", String(lat));
+      url.searchParams.set("benchmark", BENCHMARK);
+      url.searchParams.set("vintage", VINTAGE);
+      url.searchParams.set("layers", "Counties");
+      url.searchParams.set("format", "json");
+
+      try {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+        const res = await fetch(url.toString(), { signal: controller.signal as AbortSignal });
+        clearTimeout(timeout);
+
+        if (!res.ok) return null;
+
+        const json = (await res.json()) as any;
+        const counties: any[] = json?.result?.geographies?.Counties ?? [];
+        if (!counties.length) return { county_fips: null, approximate: false };
+
+        const county = counties[0];
+        // GEOID is the 5-digit FIPS: state (2) + county (3)
+        const countyFips: string = county.GEOID ?? (county.STATE + county.COUNTY);
+        // Out-of-state counties count as "no NY county"
+        return { county_fips: countyFips.startsWith("36") ? countyFips : null, approximate: false };
+      } catch {
+        // Network error, timeout, or parse failure — return null for fallback
+        return null;
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+function providerByName(name: string): GeocoderProvider | null {
+  switch (name) {
+    case "offline":
+    case "local":
+      return offlineGeocoder;
+    case "census":
+      return censusCompatibleGeocoder("census", CENSUS_URL);
+    case "http":
+      if (!process.env.GEOCODER_URL) {
+        throw new Error("GEOCODER_PROVIDER=http requires GEOCODER_URL");
+      }
+      return censusCompatibleGeocoder("http", process.env.GEOCODER_URL);
+    case "none":
+    case "":
+      return null;
+    default:
+      throw new Error(`Unknown geocoder provider "${name}" (expected offline, census or http)`);
+  }
+}
+
+const primary = providerByName(process.env.GEOCODER_PROVIDER || "offline") ?? offlineGeocoder;
+const crossCheck = providerByName(process.env.GEOCODER_CROSS_CHECK || "none");
+
+/**
+ * The configured providers, by name — used to check cached entries are still
+ * current. The offline fallback is not listed unless it is configured, so an
+ * entry it left behind never stands in for the primary.
+ */
+const activeProviders = new Map<string, GeocoderProvider>(
+  [primary, crossCheck]
+    .filter((p): p is GeocoderProvider => p !== null)
+    .map((p) => [p.name, p])
+);
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves (lat, lon) → county FIPS, or null if no NY county claims the point.
+ *
+ *   1. Return a cached result when one exists, is within its TTL and came from
+ *      the primary or cross-check provider with the same data vintage.
+ *   2. Otherwise ask the primary provider. A network provider that fails falls
+ *      back to the bundled boundaries so imports never stall on the network.
+ *   3. If a cross-check provider is configured, compare; it wins only where the
+ *      primary found nothing or had to guess.
+ *   4. Cache whatever was decided, including "no county" — unless it came from
+ *      the fallback, so the primary is asked again next time.
+ */
+export async function resolveCounty(lat: number, lon: number): Promise<CountyResolution> {
+  const cached = getCachedCounty(lat, lon);
+  if (cached && activeProviders.get(cached.source)?.vintage === cached.vintage) {
+    return { county_fips: cached.county_fips, source: cached.source, cached: true };
+  }
+
+  let source = primary;
+  let result = await primary.lookup(lat, lon);
+  let degraded = false;
+  if (!result && primary !== offlineGeocoder) {
+    console.warn(`[geocoder] ${primary.name} unavailable for (${lat}, ${lon}) — using bundled boundaries`);
+    source = offlineGeocoder;
+    result = await offlineGeocoder.lookup(lat, lon);
+    degraded = true;
+  }
+
+  if (crossCheck && crossCheck !== source) {
+    const check = await crossCheck.lookup(lat, lon);
+    if (check && check.county_fips !== result?.county_fips) {
+      console.warn(
+        `[geocoder] Cross-check mismatch for (${lat}, ${lon}): ${source.name} ${result?.county_fips ?? "none"}, ` +
+        `${crossCheck.name} ${check.county_fips ?? "none"}`
+      );
+      if (!result || result.county_fips === null || result.approximate) {
+        source = crossCheck;
+        result = check;
+        degraded = false;
+      }
+    }
+  }
+
+  if (!result) return { county_fips: null, source: null, cached: false };
+  if (!degraded) {
+    putCachedCounty(lat, lon, result.county_fips, source.name, source.vintage);
+  }
+  return { county_fips: result.county_fips, source: source.name, cached: false };
+}
@@ -0,0 +1,225 @@
+// Import file readers: CSV, JSON Lines and Excel files mapped onto the order fields the import pipeline expects
+import { parse } from "csv-parse/sync";
+import ExcelJS from "exceljs";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ImportFormat = "csv" | "jsonl" | "xlsx";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["csv", "jsonl", "xlsx"];
+
+/** Order fields an import row can carry; rows are normalized to these keys */
+export const IMPORT_FIELDS = ["id", "latitude", "longitude", "timestamp", "subtotal", "line_items"] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/** How to read a file — the parsing half of an import profile */
+export interface ImportOptions {
+  /** Fixed format; null detects it from the file extension */
+  format: ImportFormat | null;
+  /** CSV field delimiter */
+  delimiter: string;
+  /** "," also treats "." and spaces as thousands separators ("1.234,50") */
+  decimal_separator: "." | ",";
+  /**
+   * Source timestamp layout using YYYY, MM, DD, HH, mm, ss (M, D, H unpadded),
+   * e.g. "DD.MM.YYYY HH:mm"; or "unix" / "unix_ms" for epoch numbers.
+   * null passes timestamps through unchanged.
+   */
+  timestamp_format: string | null;
+  /** Source column for each field; unmapped fields use the field name */
+  columns: Partial<Record<ImportField, string>>;
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  format: null,
+  delimiter: ",",
+  decimal_separator: ".",
+  timestamp_format: null,
+  columns: {},
+};
+
+const NUMERIC_FIELDS: ImportField[] = ["latitude", "longitude", "subtotal"];
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/** Picks a format from the file name: .jsonl/.ndjson, .xlsx, anything else is CSV. */
+export function detectFormat(filename: string | null | undefined): ImportFormat {
+  const ext = (filename ?? "").toLowerCase().split(".").pop();
+  if (ext === "jsonl" || ext === "ndjson") return "jsonl";
+  if (ext === "xlsx") return "xlsx";
+  return "csv";
+}
+
+/**
+ * Reads an uploaded file into rows keyed by order field, with numbers using
+ * "." decimals and timestamps as "YYYY-MM-DD HH:mm:ss" when a format is set.
+ * Values that cannot be converted are passed through for row validation to
+ * reject. Throws with a user-facing message when the file itself is unreadable
+ * or lacks the coordinate or amount columns.
+ */
+export async function readImportFile(
+  buffer: Buffer,
+  filename: string | null,
+  options: ImportOptions = DEFAULT_IMPORT_OPTIONS
+): Promise<Record<string, string>[]> {
+  const format = options.format ?? detectFormat(filename);
+  const records = format === "jsonl" ? readJsonLines(buffer)
+    : format === "xlsx" ? await readWorkbook(buffer)
+    : readCsv(buffer, options.delimiter);
+
+  checkColumns(records, options);
+  return records.map((record) => mapRecord(record, options));
+}
+
+function readCsv(buffer: Buffer, delimiter: string): Record<string, unknown>[] {
+  try {
+    return parse(buffer.toString("utf-8"), { columns: true, skip_empty_lines: true, trim: true, bom: true, delimiter });
+  } catch (e: any) {
+    throw new Error("Invalid CSV: " + e.message);
+  }
+}
+
+function readJsonLines(buffer: Buffer): Record<string, unknown>[] {
+  const records: Record<string, unknown>[] = [];
+  buffer.toString("utf-8").split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (e: any) {
+      throw new Error(`Invalid JSON on line ${i + 1}: ${e.message}`);
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`Line ${i + 1} must be a JSON object`);
+    }
+    records.push(value as Record<string, unknown>);
+  });
+  return records;
+}
+
+/** First worksheet; the first row holds the headers. */
+async function readWorkbook(buffer: Buffer): Promise<Record<string, unknown>[]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as any);
+  } catch (e: any) {
+    throw new Error("Invalid Excel file: " + e.message);
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, col) => { headers[col] = String(cellValue(cell.value) ?? "").trim(); });
+
+  const records: Record<string, unknown>[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const record: Record<string, unknown> = {};
+    row.eachCell((cell, col) => {
+      if (headers[col]) record[headers[col]] = cellValue(cell.value);
+    });
+    if (Object.keys(record).length) records.push(record);
+  });
+  return records;
+}
+
+/** Plain value of an Excel cell: formulas give their result, rich text and links their text. */
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value == null || typeof value !== "object" || value instanceof Date) return value;
+  if ("result" in value) return cellValue(value.result as ExcelJS.CellValue);
+  if ("richText" in value) return value.richText.map((r) => r.text).join("");
+  if ("text" in value) return value.text;
+  return null;   // error cells
+}
+
+function checkColumns(records: Record<string, unknown>[], options: ImportOptions): void {
+  if (!records.length) return;
+  const present = new Set(records.flatMap((r) => Object.keys(r)));
+  const source = (field: ImportField) => options.columns[field] ?? field;
+
+  for (const field of ["latitude", "longitude"] as ImportField[]) {
+    if (!present.has(source(field))) throw new Error(`Missing column "${source(field)}" (${field})`);
+  }
+  if (!present.has(source("subtotal")) && !present.has(source("line_items"))) {
+    throw new Error(`Missing column "${source("subtotal")}" (subtotal) or "${source("line_items")}" (line_items)`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Value normalization
+// ---------------------------------------------------------------------------
+
+function mapRecord(record: Record<string, unknown>, options: ImportOptions): Record<string, string> {
+  const row: Record<string, string> = {};
+  for (const field of IMPORT_FIELDS) {
+    const value = record[options.columns[field] ?? field];
+    if (value == null || value === "") continue;
+    row[field] = normalizeValue(field, value, options);
+  }
+  return row;
+}
+
+function normalizeValue(field: ImportField, value: unknown, options: ImportOptions): string {
+  if (field === "timestamp") {
+    if (value instanceof Date) return formatTimestamp(value);
+    if (options.timestamp_format) return parseTimestamp(String(value).trim(), options.timestamp_format) ?? String(value);
+    return String(value);
+  }
+  if (field === "line_items" && typeof value === "object") return JSON.stringify(value);
+  if (typeof value === "string") {
+    const text = value.trim();
+    return NUMERIC_FIELDS.includes(field) && options.decimal_separator === ","
+      ? text.replace(/[.\s]/g, "").replace(",", ".")
+      : text;
+  }
+  return String(value);
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+function formatTimestamp(d: Date): string {
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+}
+
+const TOKEN_RE = /YYYY|MM|DD|HH|mm|ss|M|D|H/g;
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: "(\\d{4})", MM: "(\\d{2})", DD: "(\\d{2})", HH: "(\\d{2})", mm: "(\\d{2})", ss: "(\\d{2})",
+  M: "(\\d{1,2})", D: "(\\d{1,2})", H: "(\\d{1,2})",
+};
+
+/** Whether a timestamp format is usable — for validating profiles. */
+export function isValidTimestampFormat(format: string): boolean {
+  if (format === "unix" || format === "unix_ms") return true;
+  const tokens = format.match(TOKEN_RE) ?? [];
+  return ["YYYY", "M", "D"].every((t) => tokens.some((token) => token[0] === t[0]));
+}
+
+/** Converts a timestamp in the given format to "YYYY-MM-DD HH:mm:ss"; null when it does not match. */
+export function parseTimestamp(value: string, format: string): string | null {
+  if (format === "unix" || format === "unix_ms") {
+    if (!/^\d+(\.\d+)?$/.test(value)) return null;
+    const ms = Number(value) * (format === "unix" ? 1000 : 1);
+    return formatTimestamp(new Date(ms));
+  }
+
+  const tokens: string[] = [];
+  const pattern = format.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(TOKEN_RE, (token) => {
+    tokens.push(token);
+    return TOKEN_PATTERNS[token];
+  });
+  const match = new RegExp(`^${pattern}$`).exec(value);
+  if (!match) return null;
+
+  const parts: Record<string, number> = { Y: 0, M: 1, D: 1, H: 0, m: 0, s: 0 };
+  tokens.forEach((token, i) => { parts[token[0]] = parseInt(match[i + 1], 10); });
+  if (parts.M < 1 || parts.M > 12 || parts.D < 1 || parts.D > 31 || parts.H > 23 || parts.m > 59 || parts.s > 59) {
+    return null;
+  }
+  return `${pad(parts.Y, 4)}-${pad(parts.M)}-${pad(parts.D)} ${pad(parts.H)}:${pad(parts.m)}:${pad(parts.s)}`;
+}
@@ -0,0 +1,140 @@
+// Import profiles: saved column mappings and parsing options for partner files, plus admin routes to manage them
+import { Router, Request, Response } from "express";
+import { runQuery, queryAll, queryOne } from "./db";
+import { authMiddleware } from "./auth";
+import {
+  ImportOptions,
+  ImportField,
+  IMPORT_FIELDS,
+  IMPORT_FORMATS,
+  DEFAULT_IMPORT_OPTIONS,
+  isValidTimestampFormat,
+} from "./importFormats";
+
+export interface ImportProfile extends ImportOptions {
+  id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+type ProfileFields = Omit<ImportProfile, "id" | "created_at" | "updated_at">;
+
+function fromDb(row: any): ImportProfile {
+  return { ...row, columns: JSON.parse(row.columns) };
+}
+
+/** Looks a profile up by id or by name. */
+export function findProfile(ref: string): ImportProfile | null {
+  const row = /^\d+$/.test(ref)
+    ? queryOne(`SELECT * FROM import_profiles WHERE id = ?`, [parseInt(ref)])
+    : queryOne(`SELECT * FROM import_profiles WHERE name = ?`, [ref]);
+  return row ? fromDb(row) : null;
+}
+
+function pickProfileFields(body: any): Partial<ProfileFields> {
+  const fields: Partial<ProfileFields> = {};
+  if (body.name !== undefined) fields.name = typeof body.name === "string" ? body.name.trim() : body.name;
+  if (body.format !== undefined) fields.format = body.format;
+  if (body.delimiter !== undefined) fields.delimiter = body.delimiter === "\\t" ? "\t" : body.delimiter;
+  if (body.decimal_separator !== undefined) fields.decimal_separator = body.decimal_separator;
+  if (body.timestamp_format !== undefined) fields.timestamp_format = body.timestamp_format || null;
+  if (body.columns !== undefined) fields.columns = body.columns;
+  return fields;
+}
+
+function validateProfile(p: ProfileFields): string | null {
+  if (!p.name || typeof p.name !== "string") return "name is required";
+  if (p.format !== null && !IMPORT_FORMATS.includes(p.format)) {
+    return `format must be one of ${IMPORT_FORMATS.join(", ")}, or null to detect it from the file name`;
+  }
+  if (typeof p.delimiter !== "string" || p.delimiter.length !== 1) return "delimiter must be a single character";
+  if (p.decimal_separator !== "." && p.decimal_separator !== ",") return `decimal_separator must be "." or ","`;
+  if (p.decimal_separator === p.delimiter) return "decimal_separator and delimiter must differ";
+  if (p.timestamp_format !== null) {
+    if (typeof p.timestamp_format !== "string" || !isValidTimestampFormat(p.timestamp_format)) {
+      return `timestamp_format must contain YYYY, MM and DD (e.g. "DD.MM.YYYY HH:mm"), or be "unix" / "unix_ms"`;
+    }
+  }
+  if (!p.columns || typeof p.columns !== "object" || Array.isArray(p.columns)) {
+    return "columns must be an object mapping fields to source column names";
+  }
+  for (const [field, source] of Object.entries(p.columns)) {
+    if (!IMPORT_FIELDS.includes(field as ImportField)) return `Unknown field "${field}"; expected ${IMPORT_FIELDS.join(", ")}`;
+    if (typeof source !== "string" || !source.trim()) return `columns.${field} must be a column name`;
+  }
+  return null;
+}
+
+function nameTaken(name: string, exceptId?: number): boolean {
+  return !!queryOne(`SELECT id FROM import_profiles WHERE name = ? AND id != ?`, [name, exceptId ?? -1]);
+}
+
+function saveParams(p: ProfileFields): any[] {
+  return [p.name, p.format, p.delimiter, p.decimal_separator, p.timestamp_format, JSON.stringify(p.columns)];
+}
+
+// ---------------------------------------------------------------------------
+// Routes — mounted at /api/import-profiles
+// ---------------------------------------------------------------------------
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /import-profiles — all profiles by name
+router.get("/", (_req: Request, res: Response) => {
+  res.json({ profiles: queryAll(`SELECT * FROM import_profiles ORDER BY name`).map(fromDb) });
+});
+
+// GET /import-profiles/:id
+router.get("/:id", (req: Request, res: Response) => {
+  const profile = findProfile(req.params.id);
+  if (!profile) { res.status(404).json({ error: "Import profile not found" }); return; }
+  res.json(profile);
+});
+
+// POST /import-profiles — { name, columns, delimiter?, decimal_separator?, timestamp_format?, format? }
+router.post("/", (req: Request, res: Response) => {
+  const candidate = { ...DEFAULT_IMPORT_OPTIONS, name: "", ...pickProfileFields(req.body) } as ProfileFields;
+  const error = validateProfile(candidate);
+  if (error) { res.status(400).json({ error }); return; }
+  if (nameTaken(candidate.name)) { res.status(409).json({ error: "A profile with this name already exists" }); return; }
+
+  const id = runQuery(
+    `INSERT INTO import_profiles (name, format, delimiter, decimal_separator, timestamp_format, columns)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    saveParams(candidate)
+  );
+  res.status(201).json(findProfile(String(id)));
+});
+
+// PATCH /import-profiles/:id — change any field; `columns` replaces the whole mapping
+router.patch("/:id", (req: Request, res: Response) => {
+  const existing = findProfile(req.params.id);
+  if (!existing) { res.status(404).json({ error: "Import profile not found" }); return; }
+
+  const { id, created_at: _c, updated_at: _u, ...current } = existing;
+  const candidate = { ...current, ...pickProfileFields(req.body) };
+  const error = validateProfile(candidate);
+  if (error) { res.status(400).json({ error }); return; }
+  if (nameTaken(candidate.name, id)) { res.status(409).json({ error: "A profile with this name already exists" }); return; }
+
+  runQuery(
+    `UPDATE import_profiles SET name = ?, format = ?, delimiter = ?, decimal_separator = ?, timestamp_format = ?,
+       columns = ?, updated_at = datetime('now')
+     WHERE id = ?`,
+    [...saveParams(candidate), id]
+  );
+  res.json(findProfile(String(id)));
+});
+
+// DELETE /import-profiles/:id — jobs already started with the profile are unaffected
+router.delete("/:id", (req: Request, res: Response) => {
+  const existing = findProfile(req.params.id);
+  if (!existing) { res.status(404).json({ error: "Import profile not found" }); return; }
+  runQuery(`DELETE FROM import_profiles WHERE id = ?`, [existing.id]);
+  res.json({ ok: true });
+});
+
+export default router;
@@ -0,0 +1,724 @@
+// Import jobs: CSV imports persisted in SQLite and processed by an in-process worker, plus routes to start, watch, preview and cancel them
+import { Router, Request, Response } from "express";
+import { EventEmitter } from "events";
+import multer from "multer";
+import { stringify } from "csv-stringify/sync";
+import { runQuery, runQueryDeferred, queryAll, queryOne } from "./db";
+import { calculateTax, isInNewYork, parseOrderAmounts, OrderAmounts, TaxBreakdown } from "./tax";
+import { taxColumns, insertOrder, updateOrder, safeParseJson } from "./orderStore";
+import { authMiddleware } from "./auth";
+import { fromCents } from "./money";
+import {
+  readImportFile,
+  ImportOptions,
+  ImportFormat,
+  IMPORT_FORMATS,
+  IMPORT_FIELDS,
+  DEFAULT_IMPORT_OPTIONS,
+} from "./importFormats";
+import { findProfile } from "./importProfiles";
+
+// Accept files up to 10MB in memory
+export const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+// Rows are geocoded in parallel batches — network geocoder calls are
+// I/O-bound, and 5 at a time is a safe balance against provider rate limits.
+const BATCH_SIZE = 5;
+
+/** Row errors included with a job summary; all of them are in /rows and failures.csv */
+const ERROR_PREVIEW = 20;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ImportJobStatus = "queued" | "running" | "cancelling" | "done" | "cancelled" | "failed";
+
+const ACTIVE_STATUSES: ImportJobStatus[] = ["queued", "running", "cancelling"];
+
+export interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  /** Validates and prices every row without writing orders */
+  dry_run: boolean;
+  filename: string | null;
+  total_rows: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  rolled_back: number | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/** Machine-readable reason a row was rejected */
+export type RowErrorCode =
+  | "INVALID_ID"            // id missing or not a positive integer
+  | "INVALID_NUMBER"        // latitude, longitude or subtotal is not a number
+  | "INVALID_TIMESTAMP"
+  | "INVALID_LINE_ITEMS"    // malformed items, or subtotal disagrees with them
+  | "NON_POSITIVE_SUBTOTAL"
+  | "OUTSIDE_NY"            // outside the state, or placed in no New York county
+  | "GEOCODER_FAILURE"      // no geocoder could place the point, so only the state fallback rate applied
+  | "DUPLICATE_ID"          // id repeats an earlier row of the same file
+  | "ORDER_REFUNDED"        // id is an existing order that has refunds
+  | "ORDER_DELETED"         // id is an order in the trash
+  | "INTERNAL_ERROR";
+
+export class ImportRowError extends Error {
+  constructor(readonly code: RowErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export interface RowError {
+  /** 1-based data row (the header is not counted) */
+  row: number;
+  original_id: string | null;
+  code: RowErrorCode;
+  error: string;
+}
+
+/** What a job did — or, for a dry run, would do */
+export interface JobSummary {
+  rows: number;
+  valid: number;
+  failed: number;
+  inserts: number;
+  /** Rows whose id already exists and would be overwritten */
+  overwrites: number;
+  totals: { subtotal: number; tax_amount: number; total_amount: number };
+  counties: {
+    county_fips: string | null;
+    name: string;
+    orders: number;
+    subtotal: number;
+    tax_amount: number;
+    total_amount: number;
+  }[];
+}
+
+/** Emitted to observers of a job */
+export type JobEvent =
+  | { type: "progress"; processed: number; id: number | null; job: ImportJob }
+  | { type: "done" | "cancelled" | "failed"; job: ImportJob };
+
+// ---------------------------------------------------------------------------
+// Job store
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads the uploaded file of a request (CSV, JSON Lines or .xlsx) into import
+ * rows. ?profile= (id or name) applies a saved import profile and ?format=
+ * overrides the format. Throws with a user-facing message.
+ */
+export async function readUpload(req: Request): Promise<Record<string, string>[]> {
+  let options: ImportOptions = DEFAULT_IMPORT_OPTIONS;
+  if (req.query.profile) {
+    const profile = findProfile(String(req.query.profile));
+    if (!profile) throw new Error("Import profile not found");
+    options = profile;
+  }
+  if (req.query.format) {
+    const format = String(req.query.format) as ImportFormat;
+    if (!IMPORT_FORMATS.includes(format)) throw new Error(`format must be one of ${IMPORT_FORMATS.join(", ")}`);
+    options = { ...options, format };
+  }
+  return readImportFile(req.file!.buffer, req.file!.originalname || null, options);
+}
+
+function jobFromRow(row: any): ImportJob {
+  return { ...row, dry_run: !!row.dry_run };
+}
+
+export function getJob(id: string): ImportJob | null {
+  const row = queryOne(`SELECT * FROM import_jobs WHERE id = ?`, [id]);
+  return row ? jobFromRow(row) : null;
+}
+
+/** First failed rows of a job, in file order. */
+export function jobErrors(id: string, limit = ERROR_PREVIEW): RowError[] {
+  return queryAll(
+    `SELECT row_index, data, error_code, error FROM import_job_rows
+     WHERE job_id = ? AND status = 'failed' ORDER BY row_index LIMIT ?`,
+    [id, limit]
+  ).map((r) => ({
+    row: r.row_index + 1,
+    original_id: safeParseJson<any>(r.data, {}).id ?? null,
+    code: r.error_code,
+    error: r.error,
+  }));
+}
+
+/** Counts and tax totals over a job's processed rows, per county and overall. */
+export function jobSummary(id: string): JobSummary {
+  const counts = queryOne(
+    `SELECT COUNT(*) as rows,
+       COALESCE(SUM(status IN ('imported', 'valid')), 0) as valid,
+       COALESCE(SUM(status = 'failed'), 0) as failed,
+       COALESCE(SUM(action = 'insert'), 0) as inserts,
+       COALESCE(SUM(action = 'update'), 0) as overwrites,
+       COALESCE(SUM(subtotal_cents), 0) as subtotal_cents,
+       COALESCE(SUM(tax_cents), 0) as tax_cents,
+       COALESCE(SUM(total_cents), 0) as total_cents
+     FROM import_job_rows WHERE job_id = ?`,
+    [id]
+  );
+  // County names come from the rate table
+  const counties = queryAll(
+    `SELECT r.county_fips, COALESCE(MAX(t.name), MAX(r.tax_region)) as name, COUNT(DISTINCT r.row_index) as orders,
+       SUM(r.subtotal_cents) as subtotal_cents, SUM(r.tax_cents) as tax_cents, SUM(r.total_cents) as total_cents
+     FROM import_job_rows r
+     LEFT JOIN (SELECT fips, MAX(name) as name FROM tax_rates GROUP BY fips) t ON t.fips = r.county_fips
+     WHERE r.job_id = ? AND r.status IN ('imported', 'valid')
+     GROUP BY r.county_fips ORDER BY tax_cents DESC`,
+    [id]
+  );
+
+  return {
+    rows: counts.rows,
+    valid: counts.valid,
+    failed: counts.failed,
+    inserts: counts.inserts,
+    overwrites: counts.overwrites,
+    totals: {
+      subtotal: fromCents(counts.subtotal_cents),
+      tax_amount: fromCents(counts.tax_cents),
+      total_amount: fromCents(counts.total_cents),
+    },
+    counties: counties.map((c) => ({
+      county_fips: c.county_fips,
+      name: c.name,
+      orders: c.orders,
+      subtotal: fromCents(c.subtotal_cents),
+      tax_amount: fromCents(c.tax_cents),
+      total_amount: fromCents(c.total_cents),
+    })),
+  };
+}
+
+/**
+ * Persists a job and its rows, then wakes the worker. The job row is written
+ * last with an immediate save, so a job on disk always has all its rows.
+ */
+export function createImportJob(
+  rows: Record<string, string>[],
+  filename: string | null,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): ImportJob {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  rows.forEach((row, i) => {
+    runQueryDeferred(`INSERT INTO import_job_rows (job_id, row_index, data) VALUES (?, ?, ?)`, [id, i, JSON.stringify(row)]);
+  });
+  runQuery(
+    `INSERT INTO import_jobs (id, status, dry_run, filename, total_rows) VALUES (?, 'queued', ?, ?, ?)`,
+    [id, dryRun ? 1 : 0, filename, rows.length]
+  );
+  kickWorker();
+  return getJob(id)!;
+}
+
+/** The parsed CSV rows of a job, in file order — lets a previewed file be imported without re-uploading. */
+export function jobRows(id: string): Record<string, string>[] {
+  return queryAll(`SELECT data FROM import_job_rows WHERE job_id = ? ORDER BY row_index`, [id])
+    .map((r) => safeParseJson<Record<string, string>>(r.data, {}));
+}
+
+/**
+ * Asks an active job to stop. The worker rolls back the orders the job
+ * inserted (updates to existing orders are kept) and marks it cancelled.
+ * Returns null when the job does not exist or has already finished.
+ */
+export function cancelJob(id: string): ImportJob | null {
+  const job = getJob(id);
+  if (!job || !ACTIVE_STATUSES.includes(job.status)) return null;
+  runQuery(`UPDATE import_jobs SET status = 'cancelling' WHERE id = ?`, [id]);
+  kickWorker();
+  return getJob(id);
+}
+
+/** Picks up jobs left queued, running or cancelling by a previous process. Call once at startup. */
+export function resumeImportJobs(): number {
+  const count = queryOne(
+    `SELECT COUNT(*) as cnt FROM import_jobs WHERE status IN (${ACTIVE_STATUSES.map(() => "?").join(", ")})`,
+    ACTIVE_STATUSES
+  )?.cnt ?? 0;
+  if (count) kickWorker();
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Observers
+// ---------------------------------------------------------------------------
+
+const events = new EventEmitter();
+events.setMaxListeners(0);   // one listener per open SSE stream
+
+/** Subscribes to a job's events; returns the unsubscribe function. */
+export function onJobEvent(id: string, listener: (event: JobEvent) => void): () => void {
+  events.on(id, listener);
+  return () => { events.off(id, listener); };
+}
+
+/** Resolves with the job once it reaches done, cancelled or failed. */
+export function waitForJob(id: string): Promise<ImportJob> {
+  return new Promise((resolve) => {
+    const job = getJob(id);
+    if (job && !ACTIVE_STATUSES.includes(job.status)) { resolve(job); return; }
+    const off = onJobEvent(id, (event) => {
+      if (event.type !== "progress") { off(); resolve(event.job); }
+    });
+  });
+}
+
+/**
+ * Streams a job over Server-Sent Events until it finishes. Events:
+ *   data: {"type":"job","job":{...}}                          — current state, sent first
+ *   data: {"type":"progress","processed":N,"id":orderId|null} — after each row
+ *   data: {"type":"done","dry_run":bool,"success":N,"failed":N,"errors":[...],"failures_url":"..."|null,"summary":{...}}
+ *   data: {"type":"cancelled","rolledBack":N}
+ *   data: {"type":"failed","error":"..."}
+ * Closing the stream only stops observing; the job keeps running.
+ */
+export function streamJob(id: string, res: Response, preamble: object[] = []): void {
+  const job = getJob(id);
+  if (!job) { res.status(404).json({ error: "Import job not found" }); return; }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  const send = (data: object) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  const finish = (finished: ImportJob) => {
+    if (finished.status === "done") {
+      send({
+        type: "done",
+        dry_run: finished.dry_run,
+        success: finished.succeeded,
+        failed: finished.failed,
+        errors: jobErrors(id),
+        failures_url: finished.failed ? failuresUrl(id) : null,
+        summary: jobSummary(id),
+      });
+    } else if (finished.status === "cancelled") {
+      send({ type: "cancelled", rolledBack: finished.rolled_back ?? 0 });
+    } else {
+      send({ type: "failed", error: finished.error });
+    }
+    res.end();
+  };
+
+  preamble.forEach(send);
+  send({ type: "job", job });
+  if (!ACTIVE_STATUSES.includes(job.status)) { finish(job); return; }
+
+  const off = onJobEvent(id, (event) => {
+    if (event.type === "progress") {
+      send({ type: "progress", processed: event.processed, id: event.id });
+    } else {
+      off();
+      finish(event.job);
+    }
+  });
+  // res, not req: a multipart request "closes" as soon as its body is read
+  res.on("close", off);
+}
+
+// ---------------------------------------------------------------------------
+// Row pipeline
+// ---------------------------------------------------------------------------
+
+interface PreparedRow {
+  csvId: number;
+  lat: number;
+  lon: number;
+  ts: string;
+  tax: TaxBreakdown;
+}
+
+/** Validates an import row and calculates its tax. Throws ImportRowError. */
+async function prepareRow(row: Record<string, string>): Promise<PreparedRow> {
+  const id = (row.id ?? "").trim();
+  if (!id) throw new ImportRowError("INVALID_ID", "id is required");
+  if (!/^\d+$/.test(id)) throw new ImportRowError("INVALID_ID", `Invalid id "${id}"`);
+  const lat = parseFloat(row.latitude), lon = parseFloat(row.longitude);
+  if (isNaN(lat) || isNaN(lon)) throw new ImportRowError("INVALID_NUMBER", "Invalid numbers");
+
+  let amounts: OrderAmounts;
+  try {
+    amounts = parseOrderAmounts(row.subtotal, row.line_items ? safeParseJson<unknown>(row.line_items, row.line_items) : null);
+  } catch (e: any) {
+    throw new ImportRowError(amountErrorCode(e.message), e.message);
+  }
+  if (!isInNewYork(lat, lon)) throw new ImportRowError("OUTSIDE_NY", "Coordinates outside New York State");
+  if (row.timestamp && isNaN(Date.parse(row.timestamp))) {
+    throw new ImportRowError("INVALID_TIMESTAMP", `Invalid timestamp "${row.timestamp}"`);
+  }
+
+  // Geocoder providers never throw (an unreachable one falls back to the
+  // bundled boundaries), so a location that could not be placed shows up as
+  // the state fallback rate rather than an exception. A provider that answered
+  // without a county placed the point outside the state's counties.
+  const ts = row.timestamp || new Date().toISOString();
+  const tax = await calculateTax(amounts.sub, null, lat, lon, ts, amounts.items);
+  if (tax.resolution.source === null) {
+    throw new ImportRowError(
+      "GEOCODER_FAILURE", "Could not resolve a county for the location; only the state fallback rate would apply"
+    );
+  }
+  if (tax.county_fips === null) throw new ImportRowError("OUTSIDE_NY", "Coordinates outside every New York county");
+  return { csvId: parseInt(id, 10), lat, lon, ts, tax };
+}
+
+// parseOrderAmounts reports plain messages (shared with POST /orders and
+// quotes); the two amount checks have fixed wording, the rest are line items.
+function amountErrorCode(message: string): RowErrorCode {
+  if (message === "Invalid numbers") return "INVALID_NUMBER";
+  if (message === "subtotal must be positive") return "NON_POSITIVE_SUBTOTAL";
+  return "INVALID_LINE_ITEMS";
+}
+
+/** Whether saving a row overwrites an existing order. */
+function rowAction(csvId: number): "insert" | "update" {
+  return queryOne("SELECT id FROM orders WHERE id = ?", [csvId]) ? "update" : "insert";
+}
+
+/**
+ * Records a prepared row's result and, unless the job is a dry run, saves the
+ * order. Returns the order id, or null when the row's id repeats an earlier
+ * row of the file or belongs to a refunded or trashed order.
+ */
+function recordRow(job: ImportJob, rowIndex: number, prepared: PreparedRow): number | null {
+  const { csvId, tax } = prepared;
+  const earlier = queryOne(
+    `SELECT row_index FROM import_job_rows
+     WHERE job_id = ? AND order_id = ? AND status IN ('imported', 'valid') LIMIT 1`,
+    [job.id, csvId]
+  );
+  if (earlier) {
+    recordFailure(job.id, rowIndex, new ImportRowError(
+      "DUPLICATE_ID", `id ${csvId} already appears on row ${earlier.row_index + 1}`
+    ));
+    return null;
+  }
+
+  const existing = queryOne("SELECT refunded_cents, deleted_at FROM orders WHERE id = ?", [csvId]);
+  if (existing?.refunded_cents > 0) {
+    recordFailure(job.id, rowIndex, new ImportRowError(
+      "ORDER_REFUNDED", `Order ${csvId} has refunds and can no longer be updated by an import`
+    ));
+    return null;
+  }
+  if (existing?.deleted_at) {
+    recordFailure(job.id, rowIndex, new ImportRowError(
+      "ORDER_DELETED", `Order ${csvId} is in the trash; restore it before re-importing`
+    ));
+    return null;
+  }
+
+  const action = rowAction(csvId);
+  const orderId = job.dry_run ? csvId : saveRow(job.id, prepared, action);
+  runQueryDeferred(
+    `UPDATE import_job_rows SET status = ?, order_id = ?, action = ?, county_fips = ?, tax_region = ?,
+       zip_code = ?, composite_tax_rate = ?, subtotal_cents = ?, tax_cents = ?, total_cents = ?
+     WHERE job_id = ? AND row_index = ?`,
+    [
+      job.dry_run ? "valid" : "imported", orderId, action, tax.county_fips, tax.tax_region,
+      tax.zip_code, tax.composite_tax_rate, tax.subtotal_cents, tax.tax_cents, tax.total_cents,
+      job.id, rowIndex,
+    ]
+  );
+  return orderId;
+}
+
+function recordFailure(jobId: string, rowIndex: number, reason: unknown): void {
+  const code: RowErrorCode = reason instanceof ImportRowError ? reason.code : "INTERNAL_ERROR";
+  runQueryDeferred(
+    `UPDATE import_job_rows SET status = 'failed', error_code = ?, error = ? WHERE job_id = ? AND row_index = ?`,
+    [code, (reason as any)?.message ?? String(reason), jobId, rowIndex]
+  );
+}
+
+/**
+ * Saves a prepared row, preserving the CSV id. Re-importing an id updates the
+ * order in place and keeps its original import_session_id, so cancelling the
+ * re-import never deletes it.
+ */
+function saveRow(jobId: string, { csvId, lat, lon, ts, tax }: PreparedRow, action: "insert" | "update"): number {
+  const values = { latitude: lat, longitude: lon, timestamp: ts, ...taxColumns(tax) };
+  if (action === "update") {
+    updateOrder(csvId, values, { deferred: true });
+    return csvId;
+  }
+  return insertOrder({ id: csvId, ...values, import_session_id: jobId }, { deferred: true });
+}
+
+// ---------------------------------------------------------------------------
+// Worker — one job at a time, oldest first
+//
+// All writes are deferred (saved within a second). A crash loses the last
+// second of progress, and the resumed job simply redoes those rows: a row is
+// only skipped once it is marked imported/valid/failed, and its order was
+// written in the same save. Dry runs record the same per-row results but
+// never touch the orders table.
+// ---------------------------------------------------------------------------
+
+let working = false;
+
+function kickWorker(): void {
+  if (!working) void runWorker();
+}
+
+function nextJob(): ImportJob | null {
+  const row = queryOne(
+    `SELECT * FROM import_jobs WHERE status IN (${ACTIVE_STATUSES.map(() => "?").join(", ")})
+     ORDER BY created_at, id LIMIT 1`,
+    ACTIVE_STATUSES
+  );
+  return row ? jobFromRow(row) : null;
+}
+
+async function runWorker(): Promise<void> {
+  working = true;
+  try {
+    for (let job = nextJob(); job; job = nextJob()) await processJob(job);
+  } finally {
+    working = false;
+  }
+}
+
+async function processJob(job: ImportJob): Promise<void> {
+  const { id } = job;
+  if (job.status === "queued") {
+    runQueryDeferred(`UPDATE import_jobs SET status = 'running', started_at = datetime('now') WHERE id = ?`, [id]);
+  }
+
+  try {
+    while (true) {
+      if (getJob(id)?.status === "cancelling") { rollBack(id); return; }
+
+      const pending = queryAll(
+        `SELECT row_index, data FROM import_job_rows WHERE job_id = ? AND status = 'pending'
+         ORDER BY row_index LIMIT ?`,
+        [id, BATCH_SIZE]
+      );
+      if (!pending.length) break;
+
+      const results = await Promise.allSettled(pending.map((r) => prepareRow(JSON.parse(r.data))));
+      // Cached lookups resolve without I/O; yield so requests, SSE writes and saves keep flowing
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Write results sequentially (sql.js is single-threaded)
+      results.forEach((result, j) => {
+        const rowIndex = pending[j].row_index;
+        let orderId: number | null = null;
+        if (result.status === "fulfilled") orderId = recordRow(job, rowIndex, result.value);
+        else recordFailure(id, rowIndex, result.reason);
+        const ok = orderId !== null;
+
+        runQueryDeferred(
+          `UPDATE import_jobs SET processed = processed + 1, succeeded = succeeded + ?, failed = failed + ? WHERE id = ?`,
+          [ok ? 1 : 0, ok ? 0 : 1, id]
+        );
+        const current = getJob(id)!;
+        events.emit(id, { type: "progress", processed: current.processed, id: orderId, job: current });
+      });
+    }
+
+    runQuery(`UPDATE import_jobs SET status = 'done', finished_at = datetime('now') WHERE id = ?`, [id]);
+    events.emit(id, { type: "done", job: getJob(id)! });
+  } catch (e: any) {
+    console.error(`[imports] Job ${id} failed:`, e);
+    runQuery(
+      `UPDATE import_jobs SET status = 'failed', error = ?, finished_at = datetime('now') WHERE id = ?`,
+      [e?.message ?? String(e), id]
+    );
+    events.emit(id, { type: "failed", job: getJob(id)! });
+  }
+}
+
+/**
+ * Moves the orders a job inserted to the trash and marks it cancelled. Orders
+ * refunded in the meantime stay active, along with their refunds.
+ */
+function rollBack(id: string): void {
+  const condition = "import_session_id = ? AND deleted_at IS NULL AND COALESCE(refunded_cents, 0) = 0";
+  const count = queryOne(`SELECT COUNT(*) as cnt FROM orders WHERE ${condition}`, [id])?.cnt ?? 0;
+  runQueryDeferred(
+    `UPDATE orders SET deleted_at = datetime('now'), delete_reason = 'import cancelled' WHERE ${condition}`,
+    [id]
+  );
+  runQuery(
+    `UPDATE import_jobs SET status = 'cancelled', rolled_back = ?, finished_at = datetime('now') WHERE id = ?`,
+    [count, id]
+  );
+  events.emit(id, { type: "cancelled", job: getJob(id)! });
+}
+
+/** Path of the failed-rows download, for responses that report failures. */
+export function failuresUrl(id: string): string {
+  return `/api/imports/${encodeURIComponent(id)}/failures.csv`;
+}
+
+function baseName(job: ImportJob): string {
+  return (job.filename ?? "import").replace(/\.[^.]+$/, "").replace(/[^\w.-]/g, "_");
+}
+
+function sendCsv(res: Response, filename: string, csv: string): void {
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(csv);
+}
+
+// ---------------------------------------------------------------------------
+// Routes — mounted at /api/imports
+// ---------------------------------------------------------------------------
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// POST /imports — upload a file (multipart field "file"; CSV, JSON Lines or .xlsx,
+// optional ?profile= and ?format=, see readUpload); returns 202 with the queued job.
+// With ?dry_run=true rows are validated and priced but no orders are written.
+router.post("/", upload.single("file"), async (req: Request, res: Response) => {
+  if (!req.file) { res.status(400).json({ error: "No file provided" }); return; }
+  let rows: Record<string, string>[];
+  try {
+    rows = await readUpload(req);
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
+  }
+  const dryRun = req.query.dry_run === "true";
+  res.status(202).json(createImportJob(rows, req.file.originalname || null, { dryRun }));
+});
+
+// GET /imports — most recent jobs first
+router.get("/", (req: Request, res: Response) => {
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+  const jobs = queryAll(`SELECT * FROM import_jobs ORDER BY created_at DESC, id DESC LIMIT ?`, [limit]);
+  res.json({ jobs: jobs.map(jobFromRow) });
+});
+
+// GET /imports/:id — status, counters, the first row errors and a summary of
+// the rows processed so far; poll this or use /events
+router.get("/:id", (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Import job not found" }); return; }
+  res.json({
+    ...job,
+    errors: jobErrors(job.id),
+    failures_url: job.failed ? failuresUrl(job.id) : null,
+    summary: jobSummary(job.id),
+  });
+});
+
+// GET /imports/:id/preview.csv — one line per row: what was (or, in a dry run, would be) written
+router.get("/:id/preview.csv", (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Import job not found" }); return; }
+
+  const rows = queryAll(
+    `SELECT row_index, data, status, action, county_fips, tax_region, zip_code, composite_tax_rate,
+       subtotal_cents, tax_cents, total_cents, error_code, error
+     FROM import_job_rows WHERE job_id = ? ORDER BY row_index`,
+    [job.id]
+  );
+  const csv = stringify(
+    rows.map((r) => [
+      r.row_index + 1,
+      safeParseJson<any>(r.data, {}).id ?? "",
+      r.status,
+      r.action ?? "",
+      r.county_fips ?? "",
+      r.tax_region ?? "",
+      r.zip_code ?? "",
+      r.composite_tax_rate ?? "",
+      r.subtotal_cents != null ? fromCents(r.subtotal_cents).toFixed(2) : "",
+      r.tax_cents != null ? fromCents(r.tax_cents).toFixed(2) : "",
+      r.total_cents != null ? fromCents(r.total_cents).toFixed(2) : "",
+      r.error_code ?? "",
+      r.error ?? "",
+    ]),
+    {
+      header: true,
+      columns: [
+        "row", "id", "status", "action", "county_fips", "tax_region", "zip_code",
+        "composite_tax_rate", "subtotal", "tax_amount", "total_amount", "error_code", "error",
+      ],
+    }
+  );
+
+  sendCsv(res, `${baseName(job)}-${job.dry_run ? "preview" : "result"}.csv`, csv);
+});
+
+// GET /imports/:id/failures.csv — every failed row with its original fields
+// first, ready to fix and upload again (row, error_code and error columns are
+// ignored on import). Fields are in standard form, so no profile is needed.
+router.get("/:id/failures.csv", (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Import job not found" }); return; }
+
+  const rows = queryAll(
+    `SELECT row_index, data, error_code, error FROM import_job_rows
+     WHERE job_id = ? AND status = 'failed' ORDER BY row_index`,
+    [job.id]
+  );
+  const csv = stringify(
+    rows.map((r) => {
+      const data = safeParseJson<Record<string, string>>(r.data, {});
+      return [...IMPORT_FIELDS.map((f) => data[f] ?? ""), r.row_index + 1, r.error_code ?? "", r.error ?? ""];
+    }),
+    { header: true, columns: [...IMPORT_FIELDS, "row", "error_code", "error"] }
+  );
+  sendCsv(res, `${baseName(job)}-failures.csv`, csv);
+});
+
+// POST /imports/:id/commit — import the rows of a finished dry run for real,
+// without uploading the file again; returns 202 with the new job
+router.post("/:id/commit", (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Import job not found" }); return; }
+  if (!job.dry_run || job.status !== "done") {
+    res.status(409).json({ error: "Only a finished dry run can be committed" }); return;
+  }
+  res.status(202).json(createImportJob(jobRows(job.id), job.filename));
+});
+
+// GET /imports/:id/rows — row-level results, paginated; optional status=pending|imported|failed
+router.get("/:id/rows", (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Import job not found" }); return; }
+
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 100));
+  const status = req.query.status ? String(req.query.status) : null;
+  const where = status ? `WHERE job_id = ? AND status = ?` : `WHERE job_id = ?`;
+  const params = status ? [job.id, status] : [job.id];
+
+  const total = queryOne(`SELECT COUNT(*) as cnt FROM import_job_rows ${where}`, params)?.cnt ?? 0;
+  const rows = queryAll(
+    `SELECT row_index, data, status, order_id, error FROM import_job_rows ${where}
+     ORDER BY row_index LIMIT ? OFFSET ?`,
+    [...params, limit, (page - 1) * limit]
+  ).map(({ data, ...rest }) => ({ ...rest, data: safeParseJson(data, {}) }));
+
+  res.json({ total, page, limit, pages: Math.ceil(total / limit), rows });
+});
+
+// GET /imports/:id/events — Server-Sent Events stream of the job (see streamJob)
+router.get("/:id/events", (req: Request, res: Response) => {
+  streamJob(req.params.id, res);
+});
+
+// POST /imports/:id/cancel — stop the job and roll back the orders it inserted
+router.post("/:id/cancel", (req: Request, res: Response) => {
+  const job = cancelJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Import job not found or already finished" }); return; }
+  res.json(job);
+});
+
+export default router;
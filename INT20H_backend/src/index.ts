@@ -3,7 +3,16 @@ import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import { initDb } from "./db";
-import ordersRouter from "./orders";
+import ordersRouter, { backfillZipCodes, backfillRegionKeys, purgeDeletedOrders } from "./orders";
+import geocodeCacheRouter from "./geocodeCache";
+import ratesRouter, { seedRates, backfillReportingCodes } from "./rates";
+import quoteRouter from "./quote";
+import importsRouter, { resumeImportJobs } from "./imports";
+import importProfilesRouter from "./importProfiles";
+import recalculationsRouter, { resumeRecalcJobs } from "./recalculations";
+import reportsRouter from "./reports";
+import refundsRouter from "./refunds";
+import { NY_RATE_TABLES } from "./tax";
 import { generateToken, createSession, destroySession } from "./auth";
 
 dotenv.config();
@@ -36,13 +45,35 @@ app.post("/api/logout", (req, res) => {
   res.json({ ok: true });
 });
 
+app.use("/api/orders/:id/refunds", refundsRouter);
 app.use("/api/orders", ordersRouter);
+app.use("/api/geocode-cache", geocodeCacheRouter);
+app.use("/api/rates", ratesRouter);
+app.use("/api/tax", quoteRouter);
+app.use("/api/imports", importsRouter);
+app.use("/api/import-profiles", importProfilesRouter);
+app.use("/api/recalculations", recalculationsRouter);
+app.use("/api/reports", reportsRouter);
 
 // Health check endpoint
 app.get("/api/health", (_, res) => res.json({ ok: true }));
 
 // Initialize DB then start server
 initDb().then(() => {
+  const seeded = seedRates(NY_RATE_TABLES);
+  if (seeded) console.log(`Seeded ${seeded} tax rates from Pub 718`);
+  const codes = backfillReportingCodes(NY_RATE_TABLES);
+  if (codes) console.log(`Filled ST-100 reporting codes on ${codes} tax rates`);
+  const zips = backfillZipCodes();
+  if (zips) console.log(`Filled ZIP codes on ${zips} existing orders`);
+  const regions = backfillRegionKeys();
+  if (regions) console.log(`Filled region keys on ${regions} existing orders`);
+  const purged = purgeDeletedOrders();
+  if (purged) console.log(`Purged ${purged} orders past the trash retention period`);
+  const resumed = resumeImportJobs();
+  if (resumed) console.log(`Resuming ${resumed} unfinished import jobs`);
+  const recalcs = resumeRecalcJobs();
+  if (recalcs) console.log(`Resuming ${recalcs} unfinished recalculation jobs`);
   app.listen(PORT, () => {
     console.log(`Backend running on http://localhost:${PORT}`);
   });
@@ -0,0 +1,62 @@
+// Local stand-in for the US Census Geocoder: answers geographies/coordinates
+// requests in the Census response format, resolving counties from the bundled
+// boundaries. Point GEOCODER_PROVIDER=http / GEOCODER_URL at it in staging and tests.
+//
+//   npm run mock-geocoder
+//   GEOCODER_PROVIDER=http GEOCODER_URL=http://localhost:3002/geocoder/geographies/coordinates npm run dev
+//
+// Environment:
+//   MOCK_GEOCODER_PORT        listen port (default: 3002)
+//   MOCK_GEOCODER_LATENCY_MS  artificial delay per request (default: 0)
+//   MOCK_GEOCODER_FAIL_RATE   fraction of requests answered with HTTP 503 (default: 0)
+import express from "express";
+import dotenv from "dotenv";
+import { findCounty } from "./geo";
+
+dotenv.config();
+
+const app = express();
+const PORT = process.env.MOCK_GEOCODER_PORT || 3002;
+const LATENCY_MS = parseInt(process.env.MOCK_GEOCODER_LATENCY_MS || "") || 0;
+const FAIL_RATE = parseFloat(process.env.MOCK_GEOCODER_FAIL_RATE || "") || 0;
+
+app.get("/geocoder/geographies/coordinates", async (req, res) => {
+  if (LATENCY_MS) await new Promise((r) => setTimeout(r, LATENCY_MS));
+  if (Math.random() < FAIL_RATE) {
+    res.status(503).json({ errors: ["Service temporarily unavailable (simulated)"] });
+    return;
+  }
+
+  const x = parseFloat(req.query.x as string);   // longitude
+  const y = parseFloat(req.query.y as string);   // latitude
+  if (isNaN(x) || isNaN(y)) {
+    res.status(400).json({ errors: ["x and y must be numbers"], status: "400" });
+    return;
+  }
+
+  const match = findCounty(y, x);
+  const counties = match
+    ? [{
+        GEOID: match.county_fips,
+        STATE: match.county_fips.slice(0, 2),
+        COUNTY: match.county_fips.slice(2),
+        BASENAME: match.name,
+        NAME: `${match.name} County`,
+      }]
+    : [];
+
+  res.json({
+    result: {
+      input: {
+        location: { x, y },
+        benchmark: { benchmarkName: req.query.benchmark ?? "Public_AR_Current" },
+        vintage: { vintageName: req.query.vintage ?? "Current_Current" },
+      },
+      geographies: { Counties: counties },
+    },
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock Census Geocoder running on http://localhost:${PORT}`);
+});
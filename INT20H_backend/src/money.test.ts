@@ -0,0 +1,100 @@
+// Pub 718 rounding and cent arithmetic — run with `npm test`
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { divRoundHalfUp, toCents, parseCents, applyRate, allocate, sumCents, toRateUnits } from "./money";
+
+test("divRoundHalfUp rounds a half up and less than a half down", () => {
+  assert.equal(divRoundHalfUp(5, 10), 1);
+  assert.equal(divRoundHalfUp(149, 100), 1);
+  assert.equal(divRoundHalfUp(150, 100), 2);
+  assert.equal(divRoundHalfUp(249, 100), 2);
+  assert.equal(divRoundHalfUp(250, 100), 3);
+});
+
+test("divRoundHalfUp rounds negative amounts away from zero, mirroring positives", () => {
+  assert.equal(divRoundHalfUp(-150, 100), -2);
+  assert.equal(divRoundHalfUp(-149, 100), -1);
+  assert.equal(divRoundHalfUp(150, -100), -2);
+  assert.equal(divRoundHalfUp(-150, -100), 2);
+});
+
+test("divRoundHalfUp rejects a zero denominator", () => {
+  assert.throws(() => divRoundHalfUp(1, 0), RangeError);
+});
+
+test("applyRate rounds tax to the nearest cent, a half cent up", () => {
+  // $10.00 at 8.875% = 88.75¢ → 89¢
+  assert.equal(applyRate(1000, toRateUnits(0.08875)), 89);
+  // $2.00 at 8.875% = 17.75¢ → 18¢
+  assert.equal(applyRate(200, toRateUnits(0.08875)), 18);
+  // $1.00 at 8.875% = 8.875¢ → 9¢; $0.04 at 8.875% = 0.355¢ → 0¢
+  assert.equal(applyRate(100, toRateUnits(0.08875)), 9);
+  assert.equal(applyRate(4, toRateUnits(0.08875)), 0);
+  // $0.40 at 8.75% = 3.5¢ → 4¢ (exactly half rounds up); $0.39 → 3.4125¢ → 3¢
+  assert.equal(applyRate(40, toRateUnits(0.0875)), 4);
+  assert.equal(applyRate(39, toRateUnits(0.0875)), 3);
+});
+
+test("applyRate reverses exactly the tax charged on a negative amount", () => {
+  for (const amount of [1, 4, 40, 100, 1999, 123456]) {
+    assert.equal(applyRate(-amount, toRateUnits(0.08875)) + applyRate(amount, toRateUnits(0.08875)), 0);
+  }
+});
+
+test("toCents converts dollars without float error", () => {
+  assert.equal(toCents("19.99"), 1999);
+  assert.equal(toCents(19.99), 1999);
+  assert.equal(toCents(0.1 + 0.2), 30);
+  assert.equal(toCents("5"), 500);
+  assert.equal(toCents(".5"), 50);
+  assert.equal(toCents(" 12.30 "), 1230);
+  assert.equal(toCents(1e-7), 0);
+});
+
+test("toCents rounds digits past the cent half up", () => {
+  assert.equal(toCents("1.005"), 101);
+  assert.equal(toCents("1.0049"), 100);
+  assert.equal(toCents("-1.005"), -101);
+});
+
+test("toCents keeps the sign of negative amounts", () => {
+  assert.equal(toCents("-19.99"), -1999);
+  assert.equal(toCents(-0.01), -1);
+  assert.equal(toCents("-0"), 0);
+});
+
+test("parseCents gives NaN for malformed input", () => {
+  for (const value of ["", "abc", "1.2.3", "12,50", "$5", "1e3", "-", ".", "NaN", "Infinity", null, undefined, {}, NaN, Infinity]) {
+    assert.ok(Number.isNaN(parseCents(value)), `expected NaN for ${String(value)}`);
+  }
+  assert.equal(parseCents("42.10"), 4210);
+  assert.equal(parseCents(42.1), 4210);
+});
+
+test("allocate gives the rounding remainder to the largest weight", () => {
+  // 100¢ over 1:1:1 rounds to 33 each; the extra cent goes to the first of the tied weights
+  assert.deepEqual(allocate(100, [1, 1, 1]), [34, 33, 33]);
+  // 10¢ over 4000:4500:375 (state/local/MCTD) rounds to 5+5+0 = 10, no remainder
+  assert.deepEqual(allocate(10, [4000, 4500, 375]), [5, 5, 0]);
+  // 89¢ over 4000:4500:375 rounds to 40+45+4 = 89
+  assert.deepEqual(allocate(89, [4000, 4500, 375]), [40, 45, 4]);
+  // 10¢ over 1:1:2 rounds to 3+3+5 = 11; the largest weight gives the extra cent back
+  assert.deepEqual(allocate(10, [1, 1, 2]), [3, 3, 4]);
+});
+
+test("allocate parts always sum exactly to the total", () => {
+  const weightSets = [[1, 1, 1], [4000, 4500, 375], [1999, 1, 1], [7, 0, 3], [0, 0, 0], [5]];
+  for (const weights of weightSets) {
+    for (const total of [0, 1, 2, 3, 17, 89, 100, 9999, -1, -89]) {
+      const parts = allocate(total, weights);
+      assert.equal(parts.length, weights.length);
+      assert.equal(sumCents(parts), total, `allocate(${total}, [${weights}])`);
+    }
+  }
+  assert.deepEqual(allocate(5, []), []);
+});
+
+test("allocate splits negative totals symmetrically", () => {
+  assert.deepEqual(allocate(-100, [1, 1, 1]), [-34, -33, -33]);
+  assert.deepEqual(allocate(-89, [4000, 4500, 375]), [-40, -45, -4]);
+});
@@ -0,0 +1,99 @@
+/**
+ * money.ts — Exact money arithmetic for the tax pipeline.
+ *
+ * Amounts are integer cents and tax rates are integer parts per 100,000
+ * (8.875% → 8875), which represents every Publication 718 rate exactly. All
+ * arithmetic happens on integers; floats only appear at the edges, when
+ * parsing input and when rendering dollars for the API.
+ *
+ * Rounding follows Pub 718 / Tax Law §1132: tax is computed to the nearest
+ * whole cent, and a fraction of one-half cent or more is rounded up. Negative
+ * amounts (refunds) round symmetrically, so a refund reverses exactly the tax
+ * that was charged.
+ */
+
+/** Integer number of cents */
+export type Cents = number;
+
+/** Tax rate in parts per RATE_SCALE, e.g. 8875 for 8.875% */
+export type RateUnits = number;
+
+export const RATE_SCALE = 100_000;
+
+/**
+ * Integer division rounding half away from zero. Uses BigInt so products of
+ * large amounts and rates never lose precision.
+ */
+export function divRoundHalfUp(numerator: number | bigint, denominator: number | bigint): number {
+  const n = BigInt(numerator);
+  const d = BigInt(denominator);
+  if (d === 0n) throw new RangeError("Division by zero");
+  const negative = (n < 0n) !== (d < 0n);
+  const absN = n < 0n ? -n : n;
+  const absD = d < 0n ? -d : d;
+  const q = (absN * 2n + absD) / (absD * 2n);
+  return Number(negative ? -q : q);
+}
+
+/**
+ * Converts a dollar amount to cents without going through float multiplication:
+ * "19.99" and 19.99 both become 1999. Digits past the cent are rounded half up.
+ * Throws a RangeError for anything that is not a finite decimal number.
+ */
+export function toCents(dollars: number | string): Cents {
+  let text = typeof dollars === "number" ? dollars.toString() : dollars.trim();
+  if (typeof dollars === "number") {
+    if (!Number.isFinite(dollars)) throw new RangeError(`Not a money amount: ${dollars}`);
+    if (/e/i.test(text)) text = dollars.toFixed(6);
+  }
+  const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) throw new RangeError(`Not a money amount: ${dollars}`);
+
+  const [, sign, whole, fraction = ""] = match;
+  const digits = BigInt((whole || "0") + fraction.padEnd(2, "0").slice(0, 2));
+  const roundUp = fraction.length > 2 && fraction[2] >= "5" ? 1n : 0n;
+  const cents = Number(digits + roundUp);
+  return sign === "-" && cents !== 0 ? -cents : cents;
+}
+
+/** Like toCents for untrusted input (query strings, CSV cells): NaN instead of throwing. */
+export function parseCents(value: unknown): Cents {
+  try { return toCents(String(value)); } catch { return NaN; }
+}
+
+/** Cents → dollars for API responses and REAL mirror columns. */
+export function fromCents(cents: Cents): number {
+  return cents / 100;
+}
+
+/** Converts a decimal rate (0.08875) to RateUnits (8875). */
+export function toRateUnits(rate: number): RateUnits {
+  return Math.round(rate * RATE_SCALE);
+}
+
+export function fromRateUnits(units: RateUnits): number {
+  return units / RATE_SCALE;
+}
+
+/** Tax on an amount at a rate, rounded to the cent per Pub 718. */
+export function applyRate(amount: Cents, rate: RateUnits): Cents {
+  return divRoundHalfUp(BigInt(amount) * BigInt(rate), RATE_SCALE);
+}
+
+export function sumCents(values: Cents[]): Cents {
+  return values.reduce((sum, v) => sum + v, 0);
+}
+
+/**
+ * Splits `total` across `weights` in proportion, each share rounded half up;
+ * the largest weight (the first, on a tie) absorbs the rounding remainder so
+ * the parts always add up to `total`.
+ */
+export function allocate(total: Cents, weights: Cents[]): Cents[] {
+  if (!weights.length) return [];
+  const weightSum = sumCents(weights);
+  const shares = weights.map((w) => (weightSum === 0 ? 0 : divRoundHalfUp(BigInt(total) * BigInt(w), weightSum)));
+  const largest = weights.reduce((best, w, i) => (w > weights[best] ? i : best), 0);
+  shares[largest] += total - sumCents(shares);
+  return shares;
+}
@@ -0,0 +1,140 @@
+// Order export: streams filtered orders as CSV, JSON or Excel without holding the whole result in memory
+import { Response } from "express";
+import { once } from "events";
+import { stringify } from "csv-stringify/sync";
+import ExcelJS from "exceljs";
+import { queryAll } from "./db";
+import { safeParseJson } from "./orderStore";
+import { fromCents } from "./money";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "xlsx"];
+
+/** Orders read per query; each batch is written out before the next is read */
+const BATCH_SIZE = 500;
+
+type ColumnKind = "text" | "number" | "cents" | "list" | "json";
+
+/** Export columns in file order; amounts come from the exact cents columns */
+const COLUMNS: { name: string; source: string; kind: ColumnKind }[] = [
+  { name: "id", source: "id", kind: "number" },
+  { name: "timestamp", source: "timestamp", kind: "text" },
+  { name: "latitude", source: "latitude", kind: "number" },
+  { name: "longitude", source: "longitude", kind: "number" },
+  { name: "zip_code", source: "zip_code", kind: "text" },
+  { name: "state", source: "state", kind: "text" },
+  { name: "tax_region", source: "tax_region", kind: "text" },
+  { name: "county_fips", source: "county_fips", kind: "text" },
+  { name: "place_fips", source: "place_fips", kind: "text" },
+  { name: "subtotal", source: "subtotal_cents", kind: "cents" },
+  { name: "taxable_amount", source: "taxable_cents", kind: "cents" },
+  { name: "state_rate", source: "state_rate", kind: "number" },
+  { name: "county_rate", source: "county_rate", kind: "number" },
+  { name: "city_rate", source: "city_rate", kind: "number" },
+  { name: "special_rate", source: "special_rate", kind: "number" },
+  { name: "composite_tax_rate", source: "composite_tax_rate", kind: "number" },
+  { name: "state_tax_amount", source: "state_tax_cents", kind: "cents" },
+  { name: "county_tax_amount", source: "county_tax_cents", kind: "cents" },
+  { name: "city_tax_amount", source: "city_tax_cents", kind: "cents" },
+  { name: "special_tax_amount", source: "special_tax_cents", kind: "cents" },
+  { name: "tax_amount", source: "tax_cents", kind: "cents" },
+  { name: "total_amount", source: "total_cents", kind: "cents" },
+  { name: "jurisdictions", source: "jurisdictions", kind: "list" },
+  { name: "line_items", source: "line_items", kind: "json" },
+  { name: "rate_version", source: "rate_version", kind: "text" },
+  { name: "created_at", source: "created_at", kind: "text" },
+];
+
+/**
+ * Reads the orders matching a WHERE clause newest first, a batch at a time.
+ * Paging by id keeps each query cheap and stable while rows are added.
+ */
+async function* orderBatches(where: string, params: any[]): AsyncGenerator<any[]> {
+  let before = Number.MAX_SAFE_INTEGER;
+  for (;;) {
+    const clause = where ? `${where} AND id < ?` : "WHERE id < ?";
+    const rows = queryAll(`SELECT * FROM orders ${clause} ORDER BY id DESC LIMIT ?`, [...params, before, BATCH_SIZE]);
+    if (!rows.length) return;
+    yield rows;
+    if (rows.length < BATCH_SIZE) return;
+    before = rows[rows.length - 1].id;
+  }
+}
+
+/** A column's value in typed form: numbers stay numbers, lists become arrays. */
+function exportValue(row: any, kind: ColumnKind, source: string): unknown {
+  const value = row[source];
+  if (kind === "cents") return value == null ? null : fromCents(value);
+  if (kind === "list" || kind === "json") return safeParseJson<unknown[]>(value, []);
+  return value ?? null;
+}
+
+/** A column's value as a spreadsheet cell: lists joined, line items as JSON text. */
+function cellText(value: unknown, kind: ColumnKind): string | number | null {
+  if (kind === "list") return (value as string[]).join("; ");
+  if (kind === "json") return (value as unknown[]).length ? JSON.stringify(value) : "";
+  return value as string | number | null;
+}
+
+function exportRecord(row: any): Record<string, unknown> {
+  return Object.fromEntries(COLUMNS.map((c) => [c.name, exportValue(row, c.kind, c.source)]));
+}
+
+/** Writes a chunk, waiting for the socket to drain (or close) when its buffer is full. */
+async function write(res: Response, chunk: string): Promise<void> {
+  if (!res.write(chunk)) await Promise.race([once(res, "drain"), once(res, "close")]);
+}
+
+/**
+ * Streams every order matching `where` to the response as a file download.
+ * Stops early if the client disconnects.
+ */
+export async function streamOrderExport(res: Response, format: ExportFormat, where: string, params: any[]): Promise<void> {
+  const filename = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  let closed = false;
+  res.on("close", () => { closed = true; });
+
+  if (format === "xlsx") {
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useSharedStrings: false });
+    const sheet = workbook.addWorksheet("Orders");
+    sheet.columns = COLUMNS.map((c) => ({ header: c.name, key: c.name }));
+    for await (const rows of orderBatches(where, params)) {
+      if (closed) return;
+      for (const row of rows) {
+        sheet.addRow(COLUMNS.map((c) => cellText(exportValue(row, c.kind, c.source), c.kind))).commit();
+      }
+    }
+    sheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  if (format === "json") {
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    let first = true;
+    await write(res, "[");
+    for await (const rows of orderBatches(where, params)) {
+      if (closed) return;
+      const items = rows.map((row) => JSON.stringify(exportRecord(row))).join(",\n");
+      await write(res, (first ? "\n" : ",\n") + items);
+      first = false;
+    }
+    res.end(first ? "]" : "\n]\n");
+    return;
+  }
+
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  await write(res, stringify([COLUMNS.map((c) => c.name)]));
+  for await (const rows of orderBatches(where, params)) {
+    if (closed) return;
+    const records = rows.map((row) => COLUMNS.map((c) => {
+      const value = cellText(exportValue(row, c.kind, c.source), c.kind);
+      return c.kind === "cents" && value != null ? (value as number).toFixed(2) : value;
+    }));
+    await write(res, stringify(records));
+  }
+  res.end();
+}
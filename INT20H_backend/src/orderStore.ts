@@ -0,0 +1,118 @@
+// Order persistence helpers shared by the orders and imports routers
+import { runQuery, runQueryDeferred } from "./db";
+import { fromCents } from "./money";
+import { TaxBreakdown, LineItemInput, LineTax } from "./tax";
+
+/** Order columns derived from a tax calculation. */
+export function taxColumns(tax: TaxBreakdown): Record<string, any> {
+  return {
+    subtotal: tax.subtotal,
+    zip_code: tax.zip_code,
+    state: tax.state,
+    tax_region: tax.tax_region,
+    region_key: regionKey(tax.tax_region),
+    county_fips: tax.county_fips,
+    place_fips: tax.place_fips,
+    state_rate: tax.state_rate,
+    county_rate: tax.county_rate,
+    city_rate: tax.city_rate,
+    special_rate: tax.special_rate,
+    composite_tax_rate: tax.composite_tax_rate,
+    taxable_amount: tax.taxable_amount,
+    tax_amount: tax.tax_amount,
+    state_tax_amount: tax.state_tax_amount,
+    county_tax_amount: tax.county_tax_amount,
+    city_tax_amount: tax.city_tax_amount,
+    special_tax_amount: tax.special_tax_amount,
+    total_amount: tax.total_amount,
+    subtotal_cents: tax.subtotal_cents,
+    taxable_cents: tax.taxable_cents,
+    tax_cents: tax.tax_cents,
+    state_tax_cents: tax.state_tax_cents,
+    county_tax_cents: tax.county_tax_cents,
+    city_tax_cents: tax.city_tax_cents,
+    special_tax_cents: tax.special_tax_cents,
+    total_cents: tax.total_cents,
+    jurisdictions: JSON.stringify(tax.jurisdictions),
+    line_items: JSON.stringify(tax.line_items),
+    rate_version: tax.rate_version,
+  };
+}
+
+interface WriteOptions {
+  /** Defer the disk save (see runQueryDeferred) — for batched writes such as import jobs */
+  deferred?: boolean;
+}
+
+/**
+ * Normalized tax_region for indexed search: lowercase words separated by
+ * single spaces, e.g. "New York City (Bronx)" → "new york city bronx".
+ */
+export function regionKey(region: string | null | undefined): string | null {
+  if (!region) return null;
+  return region.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim() || null;
+}
+
+// Registered before the order write, so a non-deferred write saves both together
+function registerRegion(values: Record<string, any>): void {
+  if (!values.region_key) return;
+  runQueryDeferred(
+    `INSERT OR IGNORE INTO order_regions (region_key, tax_region) VALUES (?, ?)`,
+    [values.region_key, values.tax_region]
+  );
+}
+
+/** Inserts an order and returns its id. */
+export function insertOrder(values: Record<string, any>, { deferred = false }: WriteOptions = {}): number {
+  const cols = Object.keys(values);
+  const run = deferred ? runQueryDeferred : runQuery;
+  registerRegion(values);
+  return run(
+    `INSERT INTO orders (${cols.join(", ")}) VALUES (${cols.map(() => "?").join(", ")})`,
+    cols.map((c) => values[c])
+  );
+}
+
+export function updateOrder(id: number, values: Record<string, any>, { deferred = false }: WriteOptions = {}): void {
+  const cols = Object.keys(values);
+  const run = deferred ? runQueryDeferred : runQuery;
+  registerRegion(values);
+  run(
+    `UPDATE orders SET ${cols.map((c) => `${c} = ?`).join(", ")} WHERE id = ?`,
+    [...cols.map((c) => values[c]), id]
+  );
+}
+
+/**
+ * Decodes the JSON columns of an orders row for API responses, and adds the
+ * order's refund totals and the tax and total left after them.
+ */
+export function orderFromRow(row: any): any {
+  if (!row) return row;
+  const refunded = row.refunded_cents ?? 0;
+  const refundedTax = row.refunded_tax_cents ?? 0;
+  return {
+    ...row,
+    jurisdictions: safeParseJson(row.jurisdictions, []),
+    line_items: safeParseJson(row.line_items, []),
+    refunded_amount: fromCents(refunded),
+    refunded_tax_amount: fromCents(refundedTax),
+    net_tax_amount: fromCents(row.tax_cents - refundedTax),
+    net_total_amount: fromCents(row.total_cents - refunded - refundedTax),
+  };
+}
+
+/** An order's itemized lines as calculateTax input; null for a bare-subtotal order. */
+export function storedItems(row: any): LineItemInput[] | null {
+  const lines = safeParseJson<LineTax[]>(row.line_items, []);
+  if (!lines.length || lines.some((li) => li.sku == null)) return null;
+  return lines.map(({ sku, description, category, quantity, unit_price }) => ({
+    sku: sku as string, description, category, quantity, unit_price,
+  }));
+}
+
+export function safeParseJson<T>(value: unknown, fallback: T): T {
+  if (value == null) return fallback;
+  if (typeof value !== "string") return fallback;
+  try { return JSON.parse(value) as T; } catch { return fallback; }
+}
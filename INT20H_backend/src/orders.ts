@@ -1,323 +1,610 @@
-// Orders router: handles CSV import, manual creation, listing, and deletion
+// Orders router: handles CSV import, manual creation, listing, export, analytics and map data, single-order edits, and the trash
 import { Router, Request, Response } from "express";
-import multer from "multer";
-import { parse } from "csv-parse/sync";
-import { runQuery, queryAll, queryOne, getMaxId } from "./db";
-import { calculateTax, isInNewYork } from "./tax";
+import { runQuery, runQueryDeferred, queryAll, queryOne, getMaxId } from "./db";
+import { calculateTax, isInNewYork, parseOrderAmounts, OrderAmounts, TaxBreakdown } from "./tax";
 import { authMiddleware } from "./auth";
+import { taxColumns, insertOrder, updateOrder, orderFromRow, storedItems, regionKey } from "./orderStore";
+import { upload, readUpload, createImportJob, cancelJob, streamJob, waitForJob, jobErrors, jobSummary, failuresUrl } from "./imports";
+import { streamOrderExport, EXPORT_FORMATS, ExportFormat } from "./orderExport";
+import { orderAnalytics, orderMap, ANALYTICS_INTERVALS, AnalyticsInterval } from "./analytics";
+import { findZip, countyBoundaries } from "./geo";
+import { fromCents, parseCents, toRateUnits, RATE_SCALE } from "./money";
 
 const router = Router();
-// Accept files up to 10MB in memory
-const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
-
-// Registry of active import sessions: sessionId → cancel function
-const importSessions = new Map<string, () => void>();
 
 router.use(authMiddleware);
 
-// GET /orders — paginated list with optional filters: region (partial match), min_total, max_total
-router.get("/", (req: Request, res: Response) => {
+// GET /orders — paginated list with optional filters (see orderFilters): region (partial match),
+// zip, min_total, max_total, from, to, county_fips, jurisdiction, min_rate, max_rate,
+// import_session, fallback, refunded; sorted by ?sort=<column>&order=asc|desc (see SORT_COLUMNS).
+// ?cursor= (empty for the first page) switches to keyset pagination: each page
+// returns next_cursor and skips the count and totals, so its cost does not grow
+// with the table or with how deep you page. Orders in the trash are left out.
+router.get("/", (req: Request, res: Response) => listOrders(req, res, false));
+
+// GET /orders/trash — deleted orders, with the same filters, sorting and
+// pagination as GET /orders; newest deletion first by default
+router.get("/trash", (req: Request, res: Response) => listOrders(req, res, true));
+
+// DELETE /orders/trash — permanently remove orders that have been in the trash
+// longer than the retention period (ORDER_RETENTION_DAYS, default 30)
+router.delete("/trash", (req: Request, res: Response) => {
+  res.json({ ok: true, purged: purgeDeletedOrders(), retention_days: RETENTION_DAYS });
+});
+
+// POST /orders/restore — move orders back out of the trash ({ ids })
+router.post("/restore", (req: Request, res: Response) => {
+  const { ids } = req.body;
+  if (!Array.isArray(ids) || ids.length === 0) {
+    res.status(400).json({ error: "ids must be a non-empty array" }); return;
+  }
+  res.json({ ok: true, restored: restoreOrders(ids) });
+});
+
+function listOrders(req: Request, res: Response, trash: boolean): void {
   const page = Math.max(1, parseInt(req.query.page as string) || 1);
   const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
   const offset = (page - 1) * limit;
 
-  const filters: string[] = [];
-  const params: any[] = [];
+  let where: string, params: any[], sort: OrderSort;
+  try {
+    ({ where, params } = orderFilters(req.query, { trash }));
+    sort = orderSort(req.query, trash ? "deleted_at" : "id");
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
+  }
+  const orderBy = sortClause(sort);
+
+  if (req.query.cursor !== undefined) {
+    let segments: { clause: string; params: any[] }[];
+    try {
+      segments = seekSegments(String(req.query.cursor), sort);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message }); return;
+    }
+    // One extra row tells whether another page follows
+    const rows: any[] = [];
+    for (const seek of segments) {
+      if (rows.length > limit) break;
+      const conditions = [where.replace(/^WHERE /, ""), seek.clause].filter(Boolean);
+      rows.push(...queryAll(
+        `SELECT * FROM orders WHERE ${conditions.join(" AND ")} ORDER BY ${orderBy} LIMIT ?`,
+        [...params, ...seek.params, limit + 1 - rows.length]
+      ));
+    }
+    const orders = rows.slice(0, limit);
+    const next = rows.length > limit ? encodeCursor(sort, orders[orders.length - 1]) : null;
+    res.json({ limit, next_cursor: next, orders: orders.map(orderFromRow) });
+    return;
+  }
+  // Aggregates are summed in integer cents so they reconcile to the penny
+  const agg = queryOne(
+    `SELECT COUNT(*) as cnt, COALESCE(SUM(subtotal_cents), 0) as subtotal_cents,
+       COALESCE(SUM(tax_cents), 0) as tax_cents, COALESCE(SUM(total_cents), 0) as total_cents,
+       COALESCE(SUM(refunded_tax_cents), 0) as refunded_tax_cents
+     FROM orders ${where}`,
+    params
+  );
+  const total = agg?.cnt ?? 0;
+  const totals = {
+    subtotal: fromCents(agg?.subtotal_cents ?? 0),
+    tax_amount: fromCents(agg?.tax_cents ?? 0),
+    refunded_tax_amount: fromCents(agg?.refunded_tax_cents ?? 0),
+    net_tax_amount: fromCents((agg?.tax_cents ?? 0) - (agg?.refunded_tax_cents ?? 0)),
+    total_amount: fromCents(agg?.total_cents ?? 0),
+  };
+  const orders = queryAll(`SELECT * FROM orders ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`, [...params, limit, offset]);
+
+  res.json({
+    total, page, limit, pages: Math.ceil(total / limit), totals,
+    ...(trash ? { retention_days: RETENTION_DAYS } : {}),
+    orders: orders.map(orderFromRow),
+  });
+}
 
-  // Case-insensitive partial match on tax_region.
-  // e.g. "bronx" → "New York City (Bronx)"
-  //      "york"  → all 5 NYC boroughs at once
-  //      "county" → all county-level orders
-  if (req.query.region) {
-    filters.push("LOWER(tax_region) LIKE LOWER(?)");
-    params.push(`%${String(req.query.region).trim()}%`);
+// GET /orders/export — every active order matching the list filters as a download.
+// ?format=csv (default), json or xlsx. Streamed in batches, newest first.
+router.get("/export", async (req: Request, res: Response) => {
+  const format = (req.query.format as string | undefined) ?? "csv";
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }); return;
   }
-  if (req.query.min_total) {
-    filters.push("total_amount >= ?");
-    params.push(parseFloat(req.query.min_total as string));
+  let where: string, params: any[];
+  try {
+    ({ where, params } = orderFilters(req.query));
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
   }
-  if (req.query.max_total) {
-    filters.push("total_amount <= ?");
-    params.push(parseFloat(req.query.max_total as string));
+  try {
+    await streamOrderExport(res, format as ExportFormat, where, params);
+  } catch (e: any) {
+    console.error("[orders] Export failed:", e);
+    // Once the file has started there is no status left to send; cut it short
+    if (res.headersSent) { res.destroy(); return; }
+    res.removeHeader("Content-Disposition");
+    res.status(500).json({ error: "Export failed" });
   }
+});
 
-  const where = filters.length ? `WHERE ${filters.join(" AND ")}` : "";
-  const total = (queryOne(`SELECT COUNT(*) as cnt FROM orders ${where}`, params) as any)?.cnt ?? 0;
-  const orders = queryAll(`SELECT * FROM orders ${where} ORDER BY id DESC LIMIT ? OFFSET ?`, [...params, limit, offset]);
+// GET /orders/analytics — KPI totals, a time series and the top counties by tax
+// for the orders matching the list filters. ?interval=day|week|month (default
+// day); ?top= counties (default 10, max 62).
+router.get("/analytics", (req: Request, res: Response) => {
+  const interval = (req.query.interval as string | undefined) ?? "day";
+  if (!ANALYTICS_INTERVALS.includes(interval as AnalyticsInterval)) {
+    res.status(400).json({ error: `interval must be one of ${ANALYTICS_INTERVALS.join(", ")}` }); return;
+  }
+  const top = Math.min(62, Math.max(1, parseInt(req.query.top as string) || 10));
+  try {
+    const { where, params } = orderFilters(req.query);
+    res.json(orderAnalytics(where, params, interval as AnalyticsInterval, top));
+  } catch (e: any) {
+    res.status(400).json({ error: e.message });
+  }
+});
 
-  const parsed = orders.map((o) => ({
-    ...o,
-    jurisdictions: safeParseJson(o.jurisdictions, []),
-  }));
+// GET /orders/map — per-county totals and clustered order locations for the
+// orders matching the list filters. ?cell= grid size in degrees (default 0.1).
+router.get("/map", (req: Request, res: Response) => {
+  const cell = req.query.cell === undefined ? 0.1 : Number(req.query.cell);
+  if (!Number.isFinite(cell) || cell < 0.005 || cell > 2) {
+    res.status(400).json({ error: "cell must be between 0.005 and 2 degrees" }); return;
+  }
+  try {
+    const { where, params } = orderFilters(req.query);
+    res.json(orderMap(where, params, cell));
+  } catch (e: any) {
+    res.status(400).json({ error: e.message });
+  }
+});
 
-  res.json({ total, page, limit, pages: Math.ceil(total / limit), orders: parsed });
+// GET /orders/map/counties — bundled NY county outlines as GeoJSON (feature id = FIPS)
+router.get("/map/counties", (_req: Request, res: Response) => {
+  res.setHeader("Cache-Control", "private, max-age=86400");
+  res.json(countyBoundaries());
 });
 
-// POST /orders — manually create a single order, tax is calculated immediately
+// POST /orders — manually create a single order, tax is calculated immediately.
+// Send either `subtotal` or `line_items` ([{ sku, category, quantity, unit_price }]);
+// with both, the subtotal must equal the items' total.
 router.post("/", async (req: Request, res: Response) => {
-  const { latitude, longitude, subtotal, timestamp } = req.body;
-  if (latitude == null || longitude == null || subtotal == null) {
-    res.status(400).json({ error: "Missing required fields: latitude, longitude, subtotal" }); return;
+  const { latitude, longitude, subtotal, timestamp, line_items } = req.body;
+  if (latitude == null || longitude == null || (subtotal == null && line_items == null)) {
+    res.status(400).json({ error: "Missing required fields: latitude, longitude, subtotal or line_items" }); return;
+  }
+  const lat = parseFloat(latitude), lon = parseFloat(longitude);
+  if (isNaN(lat) || isNaN(lon)) { res.status(400).json({ error: "Invalid numbers" }); return; }
+
+  let amounts: OrderAmounts;
+  try {
+    amounts = parseOrderAmounts(subtotal, line_items);
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
   }
-  const lat = parseFloat(latitude), lon = parseFloat(longitude), sub = parseFloat(subtotal);
-  if (isNaN(lat) || isNaN(lon) || isNaN(sub)) { res.status(400).json({ error: "Invalid numbers" }); return; }
-  if (sub <= 0) { res.status(400).json({ error: "subtotal must be positive" }); return; }
   if (!isInNewYork(lat, lon)) { res.status(422).json({ error: "Coordinates outside New York State" }); return; }
 
-  const tax = await calculateTax(sub, null, lat, lon);
   const ts = timestamp || new Date().toISOString();
+  let tax: TaxBreakdown;
+  try {
+    tax = await calculateTax(amounts.sub, null, lat, lon, ts, amounts.items);
+  } catch (e: any) {
+    console.error("[orders] Tax calculation failed:", e);
+    res.status(500).json({ error: "Tax calculation failed" }); return;
+  }
   const newId = getMaxId() + 1;
 
-  const id = runQuery(
-    `INSERT INTO orders (id, latitude, longitude, subtotal, timestamp, zip_code, state, tax_region,
-      county_fips, state_rate, county_rate, city_rate, special_rate, composite_tax_rate,
-      tax_amount, total_amount, jurisdictions, import_session_id)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [newId, lat, lon, sub, ts, tax.zip_code, tax.state, tax.tax_region,
-     tax.county_fips,
-     tax.state_rate, tax.county_rate, tax.city_rate, tax.special_rate,
-     tax.composite_tax_rate, tax.tax_amount, tax.total_amount,
-     JSON.stringify(tax.jurisdictions), null]
-  );
+  const id = insertOrder({ id: newId, latitude: lat, longitude: lon, timestamp: ts, ...taxColumns(tax), import_session_id: null });
 
-  const order = queryOne("SELECT * FROM orders WHERE id = ?", [id]);
-  res.status(201).json({
-    ...order,
-    jurisdictions: safeParseJson(order?.jurisdictions, []),
-  });
+  res.status(201).json(orderFromRow(queryOne("SELECT * FROM orders WHERE id = ?", [id])));
 });
 
-// POST /orders/import/stream — same as /import but streams progress via SSE
-// Each processed row emits: data: {"type":"progress","processed":N}
-// Final event emits:        data: {"type":"done","success":N,"failed":N,"errors":[...]}
-router.post("/import/stream", upload.single("file"), async (req: Request, res: Response) => {
-  if (!req.file) { res.status(400).json({ error: "No file provided" }); return; }
+// GET /orders/:id — a single order; ?include_deleted=true also finds one in the trash
+router.get("/:id", (req: Request, res: Response) => {
+  const row = findOrder(req.params.id, req.query.include_deleted === "true");
+  if (!row) { res.status(404).json({ error: "Order not found" }); return; }
+  res.json(orderFromRow(row));
+});
 
-  let rows: any[];
+// PATCH /orders/:id — change latitude, longitude, timestamp, subtotal or
+// line_items and recalculate the tax. Omitted fields keep their stored values;
+// a bare subtotal replaces any stored line items. Refunded orders are 409.
+router.patch("/:id", async (req: Request, res: Response) => {
+  const existing = findOrder(req.params.id);
+  if (!existing) { res.status(404).json({ error: "Order not found" }); return; }
+  if (existing.refunded_cents > 0) { res.status(409).json({ error: REFUNDED_ERROR }); return; }
+
+  const { latitude, longitude, subtotal, timestamp, line_items } = req.body;
+  if ([latitude, longitude, subtotal, timestamp, line_items].every((v) => v === undefined)) {
+    res.status(400).json({ error: "Nothing to update: send latitude, longitude, subtotal, line_items or timestamp" }); return;
+  }
+  const lat = latitude !== undefined ? parseFloat(latitude) : existing.latitude;
+  const lon = longitude !== undefined ? parseFloat(longitude) : existing.longitude;
+  if (isNaN(lat) || isNaN(lon)) { res.status(400).json({ error: "Invalid numbers" }); return; }
+  const ts = timestamp !== undefined ? String(timestamp).trim() : existing.timestamp;
+  if (!ts) { res.status(400).json({ error: "timestamp cannot be empty" }); return; }
+
+  let amounts: OrderAmounts;
   try {
-    rows = parse(req.file.buffer.toString("utf-8"), { columns: true, skip_empty_lines: true, trim: true });
+    amounts = line_items != null || subtotal != null
+      ? parseOrderAmounts(subtotal, line_items)
+      : parseOrderAmounts(fromCents(existing.subtotal_cents), storedItems(existing));
   } catch (e: any) {
-    res.status(400).json({ error: "Invalid CSV: " + e.message }); return;
+    res.status(400).json({ error: e.message }); return;
   }
+  if (!isInNewYork(lat, lon)) { res.status(422).json({ error: "Coordinates outside New York State" }); return; }
 
-  // Set SSE headers — keep connection open for streaming
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
-  res.flushHeaders();
-
-  const send = (data: object) => res.write(`data: ${JSON.stringify(data)}\n\n`);
-
-  const success: any[] = [], failed: any[] = [];
-  let processed = 0;
-  let cancelRequested = false;
-  const BATCH_SIZE = 5;
-
-  // Generate unique session ID for this import
-  const sessionId = `${Date.now()}-${Math.random()}`;
-
-  // Register cancel function so POST /orders/import/cancel can trigger it
-  importSessions.set(sessionId, () => { cancelRequested = true; });
-  send({ type: "session", sessionId });
-
-  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
-    if (cancelRequested) break;
+  let tax: TaxBreakdown;
+  try {
+    tax = await calculateTax(amounts.sub, null, lat, lon, ts, amounts.items);
+  } catch (e: any) {
+    console.error("[orders] Tax calculation failed:", e);
+    res.status(500).json({ error: "Tax calculation failed" }); return;
+  }
+  updateOrder(existing.id, { latitude: lat, longitude: lon, timestamp: ts, ...taxColumns(tax) });
 
-    const batch = rows.slice(i, i + BATCH_SIZE);
+  res.json(orderFromRow(findOrder(existing.id)));
+});
 
-    const results = await Promise.allSettled(
-      batch.map(async (row) => {
-        const lat = parseFloat(row.latitude), lon = parseFloat(row.longitude), sub = parseFloat(row.subtotal);
-        if (isNaN(lat) || isNaN(lon) || isNaN(sub)) throw new Error("Invalid numbers");
-        if (sub <= 0) throw new Error("subtotal must be positive");
-        if (!isInNewYork(lat, lon)) throw new Error("Coordinates outside New York State");
+// DELETE /orders/:id — move a single order to the trash, with an optional
+// reason ({ reason } or ?reason=). Refunded orders are 409.
+router.delete("/:id", (req: Request, res: Response) => {
+  const existing = findOrder(req.params.id);
+  if (!existing) { res.status(404).json({ error: "Order not found" }); return; }
+  if (existing.refunded_cents > 0) { res.status(409).json({ error: REFUNDED_ERROR }); return; }
+  softDeleteOrders("id = ?", [existing.id], deleteReason(req));
+  res.json({ ok: true });
+});
 
-        const tax = await calculateTax(sub, null, lat, lon);
-        const ts = row.timestamp || new Date().toISOString();
-        const csvId = parseInt(row.id);
+// POST /orders/:id/restore — move a single order back out of the trash
+router.post("/:id/restore", (req: Request, res: Response) => {
+  const row = findOrder(req.params.id, true);
+  if (!row || !row.deleted_at) { res.status(404).json({ error: "Order not found in trash" }); return; }
+  restoreOrders([row.id]);
+  res.json(orderFromRow(findOrder(row.id)));
+});
 
-        return { row, csvId, lat, lon, ts, tax };
-      })
-    );
+// POST /orders/import/stream — queue a background import job (see imports.ts;
+// takes the same ?profile= and ?format= as POST /api/imports)
+// and observe it over SSE. The first event carries the job id:
+//   data: {"type":"session","sessionId":"<job id>"}
+// followed by the job's progress/done/cancelled events. Disconnecting only
+// stops observing; reattach with GET /api/imports/:id/events.
+// ?dry_run=true previews the file without writing orders.
+router.post("/import/stream", upload.single("file"), async (req: Request, res: Response) => {
+  if (!req.file) { res.status(400).json({ error: "No file provided" }); return; }
 
-    for (let j = 0; j < results.length; j++) {
-      const result = results[j];
-      const row = batch[j];
-
-      if (result.status === "rejected") {
-        failed.push({ original_id: row.id, error: result.reason?.message ?? String(result.reason) });
-      } else {
-        const { csvId, lat, lon, ts, tax } = result.value;
-        
-        // Check if order already exists
-        const existing = queryOne("SELECT id FROM orders WHERE id = ?", [csvId]);
-        
-        if (existing) {
-          // Update existing order, preserving its original import_session_id
-          runQuery(
-            `UPDATE orders SET latitude = ?, longitude = ?, subtotal = ?, timestamp = ?, zip_code = ?, state = ?,
-              tax_region = ?, county_fips = ?, state_rate = ?, county_rate = ?, city_rate = ?, special_rate = ?,
-              composite_tax_rate = ?, tax_amount = ?, total_amount = ?, jurisdictions = ?
-             WHERE id = ?`,
-            [lat, lon, parseFloat(row.subtotal), ts, tax.zip_code, tax.state, tax.tax_region,
-             tax.county_fips, tax.state_rate, tax.county_rate, tax.city_rate, tax.special_rate,
-             tax.composite_tax_rate, tax.tax_amount, tax.total_amount, JSON.stringify(tax.jurisdictions), csvId]
-          );
-        } else {
-          // Insert new order with session ID
-          runQuery(
-            `INSERT INTO orders (id, latitude, longitude, subtotal, timestamp, zip_code, state,
-              tax_region, county_fips, state_rate, county_rate, city_rate, special_rate,
-              composite_tax_rate, tax_amount, total_amount, jurisdictions, import_session_id)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [csvId, lat, lon, parseFloat(row.subtotal), ts, tax.zip_code, tax.state, tax.tax_region,
-             tax.county_fips, tax.state_rate, tax.county_rate, tax.city_rate, tax.special_rate,
-             tax.composite_tax_rate, tax.tax_amount, tax.total_amount, JSON.stringify(tax.jurisdictions), sessionId]
-          );
-        }
-        
-        success.push({ id: csvId, original_id: row.id });
-      }
-
-      processed++;
-      const importedId = result.status === "fulfilled" ? result.value.csvId : null;
-      send({ type: "progress", processed, id: importedId });
-    }
+  let rows: Record<string, string>[];
+  try {
+    rows = await readUpload(req);
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
   }
 
-  if (cancelRequested) {
-    // Rollback: delete ONLY orders with this session ID (newly inserted ones)
-    const rolledBack = queryOne(
-      `SELECT COUNT(*) as cnt FROM orders WHERE import_session_id = ?`,
-      [sessionId]
-    ) as any;
-    const count = rolledBack?.cnt ?? 0;
-    
-    runQuery(`DELETE FROM orders WHERE import_session_id = ?`, [sessionId]);
-    send({ type: "cancelled", rolledBack: count });
-  } else {
-    send({ type: "done", success: success.length, failed: failed.length, errors: failed.slice(0, 20) });
-  }
-  importSessions.delete(sessionId);
-  res.end();
+  const job = createImportJob(rows, req.file.originalname || null, { dryRun: req.query.dry_run === "true" });
+  streamJob(job.id, res, [{ type: "session", sessionId: job.id }]);
 });
 
-// POST /orders/import — bulk import from CSV file, preserves original IDs
+// POST /orders/import — bulk import from CSV file, preserves original IDs.
+// Runs as a background job and responds once it finishes. With ?dry_run=true
+// nothing is written and the response carries the preview summary.
 router.post("/import", upload.single("file"), async (req: Request, res: Response) => {
   if (!req.file) { res.status(400).json({ error: "No file provided" }); return; }
 
-  let rows: any[];
+  let rows: Record<string, string>[];
   try {
-    rows = parse(req.file.buffer.toString("utf-8"), { columns: true, skip_empty_lines: true, trim: true });
+    rows = await readUpload(req);
   } catch (e: any) {
-    res.status(400).json({ error: "Invalid CSV: " + e.message }); return;
+    res.status(400).json({ error: e.message }); return;
   }
 
-  const success: any[] = [], failed: any[] = [];
-
-  // Process rows in parallel batches — Census Geocoder calls are I/O-bound,
-  // so concurrent requests cut total import time significantly.
-  // Batch size of 5 is a safe balance between speed and API rate limits.
-  const BATCH_SIZE = 5;
-
-  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
-    const batch = rows.slice(i, i + BATCH_SIZE);
-
-    const results = await Promise.allSettled(
-      batch.map(async (row) => {
-        const lat = parseFloat(row.latitude), lon = parseFloat(row.longitude), sub = parseFloat(row.subtotal);
-        if (isNaN(lat) || isNaN(lon) || isNaN(sub)) throw new Error("Invalid numbers");
-        if (sub <= 0) throw new Error("subtotal must be positive");
-        if (!isInNewYork(lat, lon)) throw new Error("Coordinates outside New York State");
-
-        const tax = await calculateTax(sub, null, lat, lon);
-        const ts = row.timestamp || new Date().toISOString();
-        const csvId = parseInt(row.id);
-
-        return { row, csvId, lat, lon, ts, tax };
-      })
-    );
-
-    // Write results to DB sequentially (sql.js is single-threaded)
-    for (let j = 0; j < results.length; j++) {
-      const result = results[j];
-      const row = batch[j];
-
-      if (result.status === "rejected") {
-        failed.push({ original_id: row.id, error: result.reason?.message ?? String(result.reason) });
-        continue;
-      }
-
-      const { csvId, lat, lon, ts, tax } = result.value;
-      
-      // Check if order already exists
-      const existing = queryOne("SELECT id FROM orders WHERE id = ?", [csvId]);
-      
-      if (existing) {
-        // Update existing order
-        runQuery(
-          `UPDATE orders SET latitude = ?, longitude = ?, subtotal = ?, timestamp = ?, zip_code = ?, state = ?,
-            tax_region = ?, county_fips = ?, state_rate = ?, county_rate = ?, city_rate = ?, special_rate = ?,
-            composite_tax_rate = ?, tax_amount = ?, total_amount = ?, jurisdictions = ?
-           WHERE id = ?`,
-          [lat, lon, parseFloat(row.subtotal), ts, tax.zip_code, tax.state, tax.tax_region,
-           tax.county_fips, tax.state_rate, tax.county_rate, tax.city_rate, tax.special_rate,
-           tax.composite_tax_rate, tax.tax_amount, tax.total_amount, JSON.stringify(tax.jurisdictions), csvId]
-        );
-      } else {
-        // Insert new order without session ID (for non-streaming import)
-        runQuery(
-          `INSERT INTO orders (id, latitude, longitude, subtotal, timestamp, zip_code, state,
-            tax_region, county_fips, state_rate, county_rate, city_rate, special_rate,
-            composite_tax_rate, tax_amount, total_amount, jurisdictions, import_session_id)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [csvId, lat, lon, parseFloat(row.subtotal), ts, tax.zip_code, tax.state, tax.tax_region,
-           tax.county_fips, tax.state_rate, tax.county_rate, tax.city_rate, tax.special_rate,
-           tax.composite_tax_rate, tax.tax_amount, tax.total_amount, JSON.stringify(tax.jurisdictions), null]
-        );
-      }
-      
-      success.push({ id: csvId, original_id: row.id });
-    }
-  }
-
-  res.json({ success: success.length, failed: failed.length, errors: failed.slice(0, 20) });
+  const dryRun = req.query.dry_run === "true";
+  const job = await waitForJob(createImportJob(rows, req.file.originalname || null, { dryRun }).id);
+  if (job.status === "failed") { res.status(500).json({ job_id: job.id, error: job.error }); return; }
+  res.json({
+    job_id: job.id,
+    dry_run: job.dry_run,
+    success: job.succeeded,
+    failed: job.failed,
+    errors: jobErrors(job.id),
+    failures_url: job.failed ? failuresUrl(job.id) : null,
+    ...(dryRun ? { summary: jobSummary(job.id) } : {}),
+  });
 });
 
-// POST /orders/import/cancel — signal an active import session to stop
+// POST /orders/import/cancel — cancel an import job by id ({ sessionId }) and roll back its new orders
 router.post("/import/cancel", (req: Request, res: Response) => {
   const { sessionId } = req.body;
-  const cancel = importSessions.get(sessionId);
-  if (!cancel) { res.status(404).json({ error: "Session not found or already finished" }); return; }
-  cancel();
+  if (!sessionId || !cancelJob(String(sessionId))) {
+    res.status(404).json({ error: "Session not found or already finished" }); return;
+  }
   res.json({ ok: true });
 });
 
-// POST /orders/rollback — delete specific order IDs (used when import is cancelled)
+// POST /orders/rollback — move specific order IDs to the trash (used when import is cancelled)
 router.post("/rollback", (req: Request, res: Response) => {
   const { ids } = req.body;
   if (!Array.isArray(ids) || ids.length === 0) {
     res.status(400).json({ error: "ids must be a non-empty array" }); return;
   }
   const placeholders = ids.map(() => "?").join(", ");
-  runQuery(`DELETE FROM orders WHERE id IN (${placeholders})`, ids);
-  res.json({ ok: true, deleted: ids.length });
+  const deleted = softDeleteOrders(`id IN (${placeholders})`, ids, deleteReason(req) ?? "rollback");
+  res.json({ ok: true, deleted });
 });
 
-// DELETE /orders — clear all orders from the database
+// DELETE /orders — move every active order to the trash, with an optional reason
 router.delete("/", (req: Request, res: Response) => {
-  runQuery("DELETE FROM orders", []);
-  res.json({ ok: true });
+  res.json({ ok: true, deleted: softDeleteOrders("1 = 1", [], deleteReason(req)) });
 });
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function safeParseJson<T>(value: unknown, fallback: T): T {
-  if (value == null) return fallback;
-  if (typeof value !== "string") return fallback;
-  try { return JSON.parse(value) as T; } catch { return fallback; }
+/** Days an order stays in the trash before DELETE /orders/trash may purge it */
+const RETENTION_DAYS = (() => {
+  const days = parseInt(process.env.ORDER_RETENTION_DAYS ?? "", 10);
+  return Number.isInteger(days) && days >= 0 ? days : 30;
+})();
+
+/** An active order by id; orders in the trash only with `includeDeleted`. */
+function findOrder(id: string | number, includeDeleted = false): any | null {
+  const n = Number(id);
+  if (!Number.isInteger(n)) return null;
+  return queryOne(`SELECT * FROM orders WHERE id = ?${includeDeleted ? "" : " AND deleted_at IS NULL"}`, [n]);
+}
+
+/** The delete reason from the body or ?reason=, or null when none was given */
+function deleteReason(req: Request): string | null {
+  const reason = String(req.body?.reason ?? req.query.reason ?? "").trim();
+  return reason ? reason.slice(0, 500) : null;
+}
+
+// Refunds were reported against the order's sale, so a refunded order stays
+// as it is: no edits, no trash, no purge.
+const REFUNDED_ERROR = "Order has refunds; it stays as reported and can only be refunded further";
+
+/**
+ * Moves the active orders matching `where` to the trash; returns how many
+ * moved. Refunded orders are left in place.
+ */
+function softDeleteOrders(where: string, params: any[], reason: string | null): number {
+  const condition = `deleted_at IS NULL AND COALESCE(refunded_cents, 0) = 0 AND ${where}`;
+  const count = queryOne(`SELECT COUNT(*) as cnt FROM orders WHERE ${condition}`, params)?.cnt ?? 0;
+  if (count) {
+    runQuery(
+      `UPDATE orders SET deleted_at = datetime('now'), delete_reason = ? WHERE ${condition}`,
+      [reason, ...params]
+    );
+  }
+  return count;
+}
+
+/** Moves orders back out of the trash; returns how many were restored. */
+function restoreOrders(ids: unknown[]): number {
+  const condition = `deleted_at IS NOT NULL AND id IN (${ids.map(() => "?").join(", ")})`;
+  const count = queryOne(`SELECT COUNT(*) as cnt FROM orders WHERE ${condition}`, ids)?.cnt ?? 0;
+  if (count) runQuery(`UPDATE orders SET deleted_at = NULL, delete_reason = NULL WHERE ${condition}`, ids);
+  return count;
+}
+
+/**
+ * Permanently removes orders that have been in the trash longer than the
+ * retention period. Runs on startup and from DELETE /orders/trash. Orders
+ * with refunds are never purged, so their refunds keep their order.
+ */
+export function purgeDeletedOrders(): number {
+  const condition = "deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?) AND COALESCE(refunded_cents, 0) = 0";
+  const params = [`-${RETENTION_DAYS} days`];
+  const count = queryOne(`SELECT COUNT(*) as cnt FROM orders WHERE ${condition}`, params)?.cnt ?? 0;
+  if (count) runQuery(`DELETE FROM orders WHERE ${condition}`, params);
+  return count;
+}
+
+/** Columns GET /orders can sort by; amounts sort on their exact cents columns */
+const SORT_COLUMNS: Record<string, string> = {
+  id: "id",
+  timestamp: "timestamp",
+  created_at: "created_at",
+  latitude: "latitude",
+  longitude: "longitude",
+  zip_code: "zip_code",
+  state: "state",
+  tax_region: "tax_region",
+  county_fips: "county_fips",
+  place_fips: "place_fips",
+  state_rate: "state_rate",
+  county_rate: "county_rate",
+  city_rate: "city_rate",
+  special_rate: "special_rate",
+  composite_tax_rate: "composite_tax_rate",
+  subtotal: "subtotal_cents",
+  taxable_amount: "taxable_cents",
+  tax_amount: "tax_cents",
+  state_tax_amount: "state_tax_cents",
+  county_tax_amount: "county_tax_cents",
+  city_tax_amount: "city_tax_cents",
+  special_tax_amount: "special_tax_cents",
+  total_amount: "total_cents",
+  rate_version: "rate_version",
+  import_session_id: "import_session_id",
+  deleted_at: "deleted_at",
+};
+
+interface OrderSort {
+  /** Key of SORT_COLUMNS */
+  sort: string;
+  order: "asc" | "desc";
+}
+
+/** Reads ?sort=<column>&order=asc|desc (default `fallback` desc). Throws on bad input. */
+function orderSort(query: Request["query"], fallback = "id"): OrderSort {
+  const sort = query.sort ? String(query.sort) : fallback;
+  if (!SORT_COLUMNS[sort]) throw new Error(`sort must be one of ${Object.keys(SORT_COLUMNS).join(", ")}`);
+  const order = query.order ? String(query.order).toLowerCase() : "desc";
+  if (order !== "asc" && order !== "desc") throw new Error(`order must be "asc" or "desc"`);
+  return { sort, order };
+}
+
+/** ORDER BY for a sort; ties fall back to id so every position is unique. */
+function sortClause({ sort, order }: OrderSort): string {
+  const column = SORT_COLUMNS[sort];
+  const dir = order.toUpperCase();
+  return column === "id" ? `id ${dir}` : `${column} ${dir}, id ${dir}`;
+}
+
+/** Opaque cursor for the page after `row`: the sort, and the row's sort value and id. */
+function encodeCursor({ sort, order }: OrderSort, row: any): string {
+  return Buffer.from(JSON.stringify([sort, order, row[SORT_COLUMNS[sort]], row.id])).toString("base64url");
+}
+
+/**
+ * WHERE conditions selecting the rows after a cursor, in sort order. NULLs
+ * sort lowest in SQLite (last when descending, first when ascending), so a
+ * nullable column splits into a non-NULL segment and a NULL segment. Each
+ * condition is one index seek, and the page is filled from them in turn; an
+ * OR across both would force a scan. The first page (empty cursor) is a single
+ * unconditioned query. Throws on a malformed cursor.
+ */
+function seekSegments(cursor: string, current: OrderSort): { clause: string; params: any[] }[] {
+  if (!cursor) return [{ clause: "", params: [] }];
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 4 || !Number.isInteger(decoded[3])) throw new Error("Invalid cursor");
+  const [sort, order, value, id] = decoded;
+  if (sort !== current.sort || order !== current.order) {
+    throw new Error("cursor was issued for a different sort; start again without one");
+  }
+
+  const column = SORT_COLUMNS[sort];
+  if (column === "id") return [{ clause: order === "desc" ? "id < ?" : "id > ?", params: [id] }];
+  if (order === "desc") {
+    return value === null
+      ? [{ clause: `${column} IS NULL AND id < ?`, params: [id] }]
+      : [{ clause: `(${column}, id) < (?, ?)`, params: [value, id] }, { clause: `${column} IS NULL`, params: [] }];
+  }
+  return value === null
+    ? [{ clause: `${column} IS NULL AND id > ?`, params: [id] }, { clause: `${column} IS NOT NULL`, params: [] }]
+    : [{ clause: `(${column}, id) > (?, ?)`, params: [value, id] }];
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A query value given once, comma-separated or repeated, as a list of trimmed values */
+function listParam(value: unknown): string[] {
+  return ([] as unknown[]).concat(value ?? []).flatMap((v) => String(v).split(",")).map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * WHERE clause for the list filters shared by GET /orders, /orders/trash and
+ * /orders/export. Selects active orders, or only trashed ones with `trash`.
+ * Throws with a user-facing message on a malformed filter.
+ */
+function orderFilters(query: Request["query"], { trash = false } = {}): { where: string; params: any[] } {
+  const filters: string[] = [trash ? "deleted_at IS NOT NULL" : "deleted_at IS NULL"];
+  const params: any[] = [];
+
+  // Case-insensitive partial match on tax_region.
+  // e.g. "bronx" → "New York City (Bronx)"
+  //      "york"  → all 5 NYC boroughs at once
+  //      "county" → all county-level orders
+  // The match runs on the small order_regions table; orders are then found by index.
+  const region = regionKey(query.region ? String(query.region) : null);
+  if (region) {
+    filters.push("region_key IN (SELECT region_key FROM order_regions WHERE region_key LIKE ?)");
+    params.push(`%${region}%`);
+  }
+  // Full 5-digit ZIP for an exact match, or a prefix ("100" → Manhattan)
+  if (query.zip) {
+    const zip = String(query.zip).trim().replace(/[^0-9]/g, "");
+    if (!zip) throw new Error("zip must be a ZIP code or its leading digits, such as 100");
+    filters.push("zip_code LIKE ?");
+    params.push(`${zip}%`);
+  }
+  // Order totals in dollars, compared in exact cents
+  for (const [key, op] of [["min_total", ">="], ["max_total", "<="]] as const) {
+    if (query[key] == null || query[key] === "") continue;
+    const cents = parseCents(query[key]);
+    if (isNaN(cents)) throw new Error(`${key} must be an amount such as 25.00`);
+    filters.push(`total_cents ${op} ?`);
+    params.push(cents);
+  }
+  // Order dates, inclusive; date() reads both "YYYY-MM-DD HH:mm:ss" and ISO 8601 timestamps
+  for (const [key, op] of [["from", ">="], ["to", "<="]] as const) {
+    if (!query[key]) continue;
+    const date = String(query[key]).trim();
+    if (!DATE_RE.test(date)) throw new Error(`${key} must be a date (YYYY-MM-DD)`);
+    filters.push(`date(timestamp) ${op} ?`);
+    params.push(date);
+  }
+  // One or more counties: ?county_fips=36061,36047 or repeated
+  const counties = listParam(query.county_fips);
+  if (counties.length) {
+    if (counties.some((c) => !/^\d{5}$/.test(c))) throw new Error("county_fips must be 5-digit FIPS codes");
+    filters.push(`county_fips IN (${counties.map(() => "?").join(", ")})`);
+    params.push(...counties);
+  }
+  // Exact member of the jurisdictions array, e.g. "MCTD" or "New York City"
+  if (query.jurisdiction) {
+    filters.push("EXISTS (SELECT 1 FROM json_each(jurisdictions) WHERE value = ?)");
+    params.push(String(query.jurisdiction).trim());
+  }
+  // Composite rate as a decimal (0.08875), compared in exact rate units
+  for (const [key, op] of [["min_rate", ">="], ["max_rate", "<="]] as const) {
+    if (query[key] == null || query[key] === "") continue;
+    const rate = Number(query[key]);
+    if (isNaN(rate) || rate < 0 || rate >= 1) throw new Error(`${key} must be a decimal rate such as 0.08875`);
+    filters.push(`CAST(ROUND(composite_tax_rate * ${RATE_SCALE}) AS INTEGER) ${op} ?`);
+    params.push(toRateUnits(rate));
+  }
+  if (query.import_session) {
+    filters.push("import_session_id = ?");
+    params.push(String(query.import_session).trim());
+  }
+  // fallback=true: taxed at the state fallback because no rate table matched; false excludes them
+  if (query.fallback === "true") filters.push("rate_version IS NULL");
+  else if (query.fallback === "false") filters.push("rate_version IS NOT NULL");
+  // refunded=true: at least one refund recorded; false: none
+  if (query.refunded === "true") filters.push("refunded_cents > 0");
+  else if (query.refunded === "false") filters.push("COALESCE(refunded_cents, 0) = 0");
+
+  return { where: `WHERE ${filters.join(" AND ")}`, params };
+}
+
+/**
+ * Fills zip_code on orders saved before ZIP resolution existed, using their
+ * stored coordinates and county. Runs once at startup; a no-op afterwards.
+ */
+export function backfillZipCodes(): number {
+  const rows = queryAll(`SELECT id, latitude, longitude, county_fips FROM orders WHERE zip_code IS NULL`);
+  let filled = 0;
+  for (const o of rows) {
+    const match = findZip(o.latitude, o.longitude, o.county_fips);
+    if (!match) continue;
+    runQueryDeferred(`UPDATE orders SET zip_code = ? WHERE id = ?`, [match.zip, o.id]);
+    filled++;
+  }
+  return filled;
+}
+
+/**
+ * Fills region_key on orders saved before it existed and registers the keys in
+ * order_regions. Runs once at startup; a no-op afterwards.
+ */
+export function backfillRegionKeys(): number {
+  const regions = queryAll(`SELECT DISTINCT tax_region FROM orders WHERE region_key IS NULL AND tax_region IS NOT NULL`);
+  let filled = 0;
+  for (const { tax_region } of regions) {
+    const key = regionKey(tax_region);
+    if (!key) continue;
+    runQueryDeferred(`INSERT OR IGNORE INTO order_regions (region_key, tax_region) VALUES (?, ?)`, [key, tax_region]);
+    runQueryDeferred(`UPDATE orders SET region_key = ? WHERE tax_region = ? AND region_key IS NULL`, [key, tax_region]);
+    filled += queryOne(`SELECT changes() as n`)?.n ?? 0;
+  }
+  return filled;
 }
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,83 @@
+// Tax quote router: prices a delivery without saving an order — for checkout and price previews
+import { Router, Request, Response } from "express";
+import { calculateTax, isInNewYork, parseOrderAmounts, TaxBreakdown } from "./tax";
+import { authMiddleware } from "./auth";
+
+const router = Router();
+
+/** Most points accepted by one batch request */
+const MAX_BATCH = 1000;
+/** Quotes resolved concurrently within a batch (same as CSV import) */
+const BATCH_SIZE = 5;
+
+router.use(authMiddleware);
+
+type QuoteResult =
+  | { ok: true; quote: TaxBreakdown & { timestamp: string } }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Quotes one { latitude, longitude, subtotal | line_items, timestamp?, zip? }
+ * request. Validation failures come back as a result, not an exception, so a
+ * batch can report them per point.
+ */
+async function quoteOne(input: any): Promise<QuoteResult> {
+  const { latitude, longitude, subtotal, line_items, timestamp, zip } = input ?? {};
+  if (latitude == null || longitude == null || (subtotal == null && line_items == null)) {
+    return { ok: false, status: 400, error: "Missing required fields: latitude, longitude, subtotal or line_items" };
+  }
+  const lat = parseFloat(latitude), lon = parseFloat(longitude);
+  if (isNaN(lat) || isNaN(lon)) return { ok: false, status: 400, error: "Invalid numbers" };
+  if (zip != null && !/^\d{5}$/.test(String(zip))) return { ok: false, status: 400, error: "zip must be 5 digits" };
+
+  let amounts;
+  try {
+    amounts = parseOrderAmounts(subtotal, line_items);
+  } catch (e: any) {
+    return { ok: false, status: 400, error: e.message };
+  }
+  if (!isInNewYork(lat, lon)) return { ok: false, status: 422, error: "Coordinates outside New York State" };
+
+  const ts = timestamp || new Date().toISOString();
+  const tax = await calculateTax(amounts.sub, zip ? String(zip) : null, lat, lon, ts, amounts.items);
+  return { ok: true, quote: { ...tax, timestamp: ts } };
+}
+
+// POST /tax/quote — full TaxBreakdown for one point, plus `resolution`
+// ({ source, cached, fallback }). Never writes to the orders table.
+router.post("/quote", async (req: Request, res: Response) => {
+  const result = await quoteOne(req.body);
+  if (!result.ok) { res.status(result.status).json({ error: result.error }); return; }
+  res.json(result.quote);
+});
+
+// POST /tax/quote/batch — { quotes: [...] } with the same fields as /quote.
+// Always 200 when the envelope is valid; each result carries its own ok/error:
+//   { results: [{ index, ok: true, quote } | { index, ok: false, status, error }], succeeded, failed }
+router.post("/quote/batch", async (req: Request, res: Response) => {
+  const quotes = req.body?.quotes;
+  if (!Array.isArray(quotes) || quotes.length === 0) {
+    res.status(400).json({ error: "quotes must be a non-empty array" }); return;
+  }
+  if (quotes.length > MAX_BATCH) {
+    res.status(413).json({ error: `At most ${MAX_BATCH} quotes per batch` }); return;
+  }
+
+  const results: ({ index: number } & QuoteResult)[] = [];
+  for (let i = 0; i < quotes.length; i += BATCH_SIZE) {
+    const batch = quotes.slice(i, i + BATCH_SIZE);
+    const settled = await Promise.allSettled(batch.map(quoteOne));
+    settled.forEach((r, j) => {
+      results.push(
+        r.status === "fulfilled"
+          ? { index: i + j, ...r.value }
+          : { index: i + j, ok: false, status: 500, error: r.reason?.message ?? "Quote failed" }
+      );
+    });
+  }
+
+  const succeeded = results.filter((r) => r.ok).length;
+  res.json({ results, succeeded, failed: results.length - succeeded });
+});
+
+export default router;
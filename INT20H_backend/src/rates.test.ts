@@ -0,0 +1,52 @@
+// Effective-dated rate lookup — run with `npm test`
+import "./testSetup";
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { initDb } from "./db";
+import { findRate, effectiveDate, seedRates } from "./rates";
+import { NY_RATE_TABLES } from "./tax";
+
+const WESTCHESTER = "36119";
+const YONKERS = "3684000";
+
+before(async () => {
+  await initDb();
+  seedRates(NY_RATE_TABLES);
+});
+
+test("findRate switches tables on the effective date, not the day after", () => {
+  // PUB718-2023-03 runs 2023-03-01 up to (not including) 2023-08-01
+  assert.equal(findRate(WESTCHESTER, "2023-03-01")?.rate_version, "PUB718-2023-03");
+  assert.equal(findRate(WESTCHESTER, "2023-07-31")?.rate_version, "PUB718-2023-03");
+  assert.equal(findRate(WESTCHESTER, "2023-08-01")?.rate_version, "PUB718-2023-08");
+});
+
+test("findRate returns the superseded rate for dates it covered and the current one after", () => {
+  const superseded = findRate(WESTCHESTER, "2023-05-15")!;
+  assert.equal(superseded.county_rate, 0.03);
+  assert.equal(superseded.composite_tax_rate, 0.07375);
+  assert.equal(superseded.effective_to, "2023-08-01");
+
+  const current = findRate(WESTCHESTER, "2026-10-18")!;
+  assert.equal(current.county_rate, 0.04);
+  assert.equal(current.composite_tax_rate, 0.08375);
+  assert.equal(current.effective_to, null);
+});
+
+test("findRate keeps an unchanged city rate across editions", () => {
+  assert.equal(findRate(YONKERS, "2023-07-31")?.composite_tax_rate, 0.08875);
+  assert.equal(findRate(YONKERS, "2023-08-01")?.composite_tax_rate, 0.08875);
+});
+
+test("findRate uses the oldest row for dates before every table", () => {
+  assert.equal(findRate(WESTCHESTER, "2020-01-01")?.rate_version, "PUB718-2023-03");
+});
+
+test("findRate returns undefined for an unknown jurisdiction", () => {
+  assert.equal(findRate("36999", "2026-01-01"), undefined);
+});
+
+test("effectiveDate takes the date part of a naive local timestamp as-is", () => {
+  assert.equal(effectiveDate("2023-07-31 23:59:59"), "2023-07-31");
+  assert.equal(effectiveDate("2023-08-01T00:00:00Z"), "2023-08-01");
+});
@@ -0,0 +1,392 @@
+// Tax rate store: effective-dated county and city rates in SQLite, plus admin routes to list, create, update and retire them
+import { Router, Request, Response } from "express";
+import { runQuery, runQueryDeferred, queryAll, queryOne } from "./db";
+import { authMiddleware } from "./auth";
+import { toRateUnits } from "./money";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RateKind = "county" | "city";
+
+/** The rate components of one jurisdiction, as used by tax.ts */
+export interface RateFields {
+  name: string;
+  state_rate: number;
+  county_rate: number;
+  city_rate: number;
+  special_rate: number;
+  composite_tax_rate: number;
+  jurisdictions: string[];
+  clothing_exempt?: boolean;
+  /** ST-100 jurisdiction reporting code */
+  reporting_code?: string | null;
+}
+
+export interface TaxRateRow extends RateFields {
+  id: number;
+  /** 5-digit county FIPS, or 7-digit Census place GEOID for a city rate */
+  fips: string;
+  kind: RateKind;
+  clothing_exempt: boolean;
+  reporting_code: string | null;
+  /** Stored on each order taxed with this row */
+  rate_version: string;
+  /** First day the row applies, inclusive (YYYY-MM-DD) */
+  effective_from: string;
+  /** Day the row stops applying, exclusive (YYYY-MM-DD); null while in force */
+  effective_to: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Shape of the Pub 718 seed tables in tax.ts */
+export interface SeedTable {
+  version: string;
+  effective_from: string;
+  effective_to: string | null;
+  rates: Record<string, RateFields>;
+  cities: Record<string, RateFields>;
+}
+
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Normalizes an order timestamp to a YYYY-MM-DD date for rate selection.
+ * CSV timestamps are naive local times ("2025-11-04 10:17:04"), so the date
+ * part is taken as-is rather than shifted through UTC. Missing or unparseable
+ * timestamps resolve to today.
+ */
+export function effectiveDate(timestamp?: string | null): string {
+  if (timestamp) {
+    const match = /^(\d{4}-\d{2}-\d{2})/.exec(timestamp.trim());
+    if (match) return match[1];
+    const parsed = new Date(timestamp);
+    if (!isNaN(parsed.getTime())) return parsed.toISOString().slice(0, 10);
+  }
+  return today();
+}
+
+// ---------------------------------------------------------------------------
+// Lookup — in-memory index, rebuilt after every write
+// ---------------------------------------------------------------------------
+
+/** fips → rows ordered by effective_from; null until first use or after a write */
+let index: Map<string, TaxRateRow[]> | null = null;
+
+function fromDb(row: any): TaxRateRow {
+  return {
+    ...row,
+    jurisdictions: JSON.parse(row.jurisdictions),
+    clothing_exempt: !!row.clothing_exempt,
+  };
+}
+
+function getIndex(): Map<string, TaxRateRow[]> {
+  if (index) return index;
+  index = new Map();
+  for (const row of queryAll(`SELECT * FROM tax_rates ORDER BY fips, effective_from`)) {
+    if (!index.has(row.fips)) index.set(row.fips, []);
+    index.get(row.fips)!.push(fromDb(row));
+  }
+  return index;
+}
+
+/** Drops the cached index so the next lookup sees the latest rows. */
+function invalidate(): void {
+  index = null;
+}
+
+/**
+ * Returns the rate row for a county FIPS or place GEOID in force on `date`
+ * (YYYY-MM-DD). Dates before a jurisdiction's oldest row use that oldest row;
+ * a jurisdiction whose rows have all been retired returns undefined.
+ */
+export function findRate(fips: string, date: string): TaxRateRow | undefined {
+  const rows = getIndex().get(fips);
+  if (!rows?.length) return undefined;
+  const row = rows.find((r) => r.effective_from <= date && (r.effective_to === null || date < r.effective_to));
+  if (row) return row;
+  return date < rows[0].effective_from ? rows[0] : undefined;
+}
+
+/**
+ * The rate row an order was taxed with, found by the jurisdiction and the
+ * `rate_version` stored on the order; the newest row when no version matches.
+ */
+export function rateForOrder(fips: string, rateVersion: string | null): TaxRateRow | undefined {
+  const rows = getIndex().get(fips);
+  if (!rows?.length) return undefined;
+  return rows.find((r) => r.rate_version === rateVersion) ?? rows[rows.length - 1];
+}
+
+// ---------------------------------------------------------------------------
+// Seeding
+// ---------------------------------------------------------------------------
+
+/**
+ * Fills an empty tax_rates table from the bundled Pub 718 tables. After the
+ * first start the database is authoritative: editing the literals in tax.ts
+ * no longer changes rates, use /api/rates instead.
+ */
+export function seedRates(tables: SeedTable[]): number {
+  const existing = queryOne(`SELECT COUNT(*) as cnt FROM tax_rates`)?.cnt ?? 0;
+  if (existing > 0) return 0;
+
+  let inserted = 0;
+  for (const table of tables) {
+    const entries: [string, RateFields][] = [...Object.entries(table.rates), ...Object.entries(table.cities)];
+    for (const [fips, rate] of entries) {
+      runQueryDeferred(INSERT_SQL, insertParams(fips, rate, table.version, table.effective_from, table.effective_to));
+      inserted++;
+    }
+  }
+  invalidate();
+  return inserted;
+}
+
+/**
+ * Fills in missing ST-100 reporting codes on rows seeded before the codes
+ * were bundled, matching rows to the seed tables by fips and rate_version.
+ * Codes entered through /api/rates are never overwritten.
+ */
+export function backfillReportingCodes(tables: SeedTable[]): number {
+  let updated = 0;
+  for (const row of queryAll(`SELECT id, fips, rate_version FROM tax_rates WHERE reporting_code IS NULL`)) {
+    const table = tables.find((t) => t.version === row.rate_version);
+    const code = (table?.rates[row.fips] ?? table?.cities[row.fips])?.reporting_code;
+    if (!code) continue;
+    runQueryDeferred(`UPDATE tax_rates SET reporting_code = ? WHERE id = ?`, [code, row.id]);
+    updated++;
+  }
+  if (updated) invalidate();
+  return updated;
+}
+
+const INSERT_SQL = `
+  INSERT INTO tax_rates (fips, kind, name, state_rate, county_rate, city_rate, special_rate,
+    composite_tax_rate, jurisdictions, clothing_exempt, reporting_code, rate_version, effective_from, effective_to)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+function insertParams(fips: string, rate: RateFields, version: string, from: string, to: string | null): any[] {
+  return [
+    fips, kindOf(fips), rate.name, rate.state_rate, rate.county_rate, rate.city_rate, rate.special_rate,
+    rate.composite_tax_rate, JSON.stringify(rate.jurisdictions), rate.clothing_exempt ? 1 : 0,
+    rate.reporting_code ?? null, version, from, to,
+  ];
+}
+
+const kindOf = (fips: string): RateKind => (fips.length === 5 ? "county" : "city");
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const RATE_FIELDS = ["state_rate", "county_rate", "city_rate", "special_rate", "composite_tax_rate"] as const;
+
+/**
+ * Checks a complete candidate row. Returns an error message, or null when the
+ * row is valid. Rates are compared in integer parts per 100,000 so the
+ * component check is exact.
+ */
+function validateRow(row: Omit<TaxRateRow, "id" | "kind" | "created_at" | "updated_at">): string | null {
+  if (!/^36\d{3}(\d{2})?$/.test(row.fips)) {
+    return "fips must be a 5-digit NY county FIPS (36xxx) or 7-digit NY place GEOID (36xxxxx)";
+  }
+  if (!row.name || typeof row.name !== "string") return "name is required";
+  for (const field of RATE_FIELDS) {
+    const v = row[field];
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v >= 1) {
+      return `${field} must be a number between 0 and 1 (e.g. 0.04 for 4%)`;
+    }
+  }
+  const components = toRateUnits(row.state_rate) + toRateUnits(row.county_rate)
+    + toRateUnits(row.city_rate) + toRateUnits(row.special_rate);
+  if (components !== toRateUnits(row.composite_tax_rate)) {
+    return `state_rate + county_rate + city_rate + special_rate must equal composite_tax_rate ` +
+      `(components sum to ${(components / 1000).toFixed(3)}%, composite is ${(row.composite_tax_rate * 100).toFixed(3)}%)`;
+  }
+  if (!Array.isArray(row.jurisdictions) || !row.jurisdictions.every((j) => typeof j === "string" && j)) {
+    return "jurisdictions must be an array of names";
+  }
+  if (row.reporting_code != null && (typeof row.reporting_code !== "string" || !/^[A-Z]{0,2} ?\d{4}$/.test(row.reporting_code))) {
+    return `reporting_code must be an ST-100 jurisdiction code such as "0181" or "NE 8081"`;
+  }
+  if (!row.rate_version || typeof row.rate_version !== "string") return "rate_version is required";
+  if (!DATE_RE.test(row.effective_from)) return "effective_from must be a YYYY-MM-DD date";
+  if (row.effective_to !== null) {
+    if (!DATE_RE.test(row.effective_to)) return "effective_to must be a YYYY-MM-DD date or null";
+    if (row.effective_to <= row.effective_from) return "effective_to must be after effective_from";
+  }
+  return null;
+}
+
+/** Rows for the same jurisdiction whose date range overlaps [from, to). */
+function overlapping(fips: string, from: string, to: string | null, exceptId?: number): TaxRateRow[] {
+  return (getIndex().get(fips) ?? []).filter(
+    (r) => r.id !== exceptId
+      && (to === null || r.effective_from < to)
+      && (r.effective_to === null || from < r.effective_to)
+  );
+}
+
+function pickRateFields(body: any): Partial<TaxRateRow> {
+  const out: Partial<TaxRateRow> = {};
+  for (const key of ["name", "jurisdictions", "reporting_code", "rate_version", "effective_from", "effective_to", ...RATE_FIELDS] as const) {
+    if (body[key] !== undefined) (out as any)[key] = body[key];
+  }
+  if (body.clothing_exempt !== undefined) out.clothing_exempt = !!body.clothing_exempt;
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Admin routes — mounted at /api/rates
+// ---------------------------------------------------------------------------
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /rates — rows in force on `as_of` (default: today). Optional filters:
+//   fips=36119              → one jurisdiction
+//   kind=county | city      → only county or city rows
+//   history=true            → every row regardless of date, including retired ones
+router.get("/", (req: Request, res: Response) => {
+  const asOf = req.query.as_of ? String(req.query.as_of) : today();
+  if (!DATE_RE.test(asOf)) { res.status(400).json({ error: "as_of must be a YYYY-MM-DD date" }); return; }
+
+  let rows = [...getIndex().values()].flat();
+  if (req.query.fips) rows = rows.filter((r) => r.fips === String(req.query.fips));
+  if (req.query.kind) rows = rows.filter((r) => r.kind === String(req.query.kind));
+  if (req.query.history !== "true") {
+    rows = rows.filter((r) => r.effective_from <= asOf && (r.effective_to === null || asOf < r.effective_to));
+  }
+
+  res.json({ as_of: req.query.history === "true" ? null : asOf, total: rows.length, rates: rows });
+});
+
+// GET /rates/:id — a single row
+router.get("/:id", (req: Request, res: Response) => {
+  const row = queryOne(`SELECT * FROM tax_rates WHERE id = ?`, [parseInt(req.params.id)]);
+  if (!row) { res.status(404).json({ error: "Rate not found" }); return; }
+  res.json(fromDb(row));
+});
+
+// POST /rates — add a rate row. If the jurisdiction has an open-ended row that
+// started earlier, it is closed the day the new row takes effect, so
+// publishing a new Pub 718 rate is a single call.
+router.post("/", (req: Request, res: Response) => {
+  const fips = String(req.body.fips ?? "").trim();
+  const candidate = {
+    fips,
+    name: "",
+    city_rate: 0,
+    special_rate: 0,
+    clothing_exempt: false,
+    reporting_code: null,
+    effective_from: today(),
+    effective_to: null,
+    ...pickRateFields(req.body),
+  } as Omit<TaxRateRow, "id" | "kind" | "created_at" | "updated_at">;
+
+  const error = validateRow(candidate);
+  if (error) { res.status(400).json({ error }); return; }
+
+  const conflicts = overlapping(fips, candidate.effective_from, candidate.effective_to);
+  const superseded = conflicts.find((r) => r.effective_to === null && r.effective_from < candidate.effective_from);
+  if (conflicts.some((r) => r !== superseded) || (superseded && candidate.effective_to !== null)) {
+    res.status(409).json({
+      error: "Date range overlaps existing rates for this jurisdiction",
+      conflicts: conflicts.map((r) => ({ id: r.id, effective_from: r.effective_from, effective_to: r.effective_to })),
+    });
+    return;
+  }
+
+  if (superseded) {
+    runQuery(
+      `UPDATE tax_rates SET effective_to = ?, updated_at = datetime('now') WHERE id = ?`,
+      [candidate.effective_from, superseded.id]
+    );
+  }
+  const id = runQuery(
+    INSERT_SQL,
+    insertParams(fips, candidate, candidate.rate_version, candidate.effective_from, candidate.effective_to)
+  );
+  invalidate();
+
+  res.status(201).json({
+    ...fromDb(queryOne(`SELECT * FROM tax_rates WHERE id = ?`, [id])),
+    superseded_id: superseded?.id ?? null,
+  });
+});
+
+// PATCH /rates/:id — change any field except fips. Orders already taxed keep
+// their stored amounts; new calculations use the updated row immediately.
+router.patch("/:id", (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  const existing = queryOne(`SELECT * FROM tax_rates WHERE id = ?`, [id]);
+  if (!existing) { res.status(404).json({ error: "Rate not found" }); return; }
+  if (req.body.fips !== undefined && req.body.fips !== existing.fips) {
+    res.status(400).json({ error: "fips cannot be changed; retire this row and create a new one" }); return;
+  }
+
+  const { id: _id, kind: _kind, created_at: _c, updated_at: _u, ...current } = fromDb(existing);
+  const candidate = { ...current, ...pickRateFields(req.body) };
+
+  const error = validateRow(candidate);
+  if (error) { res.status(400).json({ error }); return; }
+
+  const conflicts = overlapping(candidate.fips, candidate.effective_from, candidate.effective_to, id);
+  if (conflicts.length) {
+    res.status(409).json({
+      error: "Date range overlaps existing rates for this jurisdiction",
+      conflicts: conflicts.map((r) => ({ id: r.id, effective_from: r.effective_from, effective_to: r.effective_to })),
+    });
+    return;
+  }
+
+  runQuery(
+    `UPDATE tax_rates SET name = ?, state_rate = ?, county_rate = ?, city_rate = ?, special_rate = ?,
+       composite_tax_rate = ?, jurisdictions = ?, clothing_exempt = ?, reporting_code = ?, rate_version = ?,
+       effective_from = ?, effective_to = ?, updated_at = datetime('now')
+     WHERE id = ?`,
+    [
+      candidate.name, candidate.state_rate, candidate.county_rate, candidate.city_rate, candidate.special_rate,
+      candidate.composite_tax_rate, JSON.stringify(candidate.jurisdictions), candidate.clothing_exempt ? 1 : 0,
+      candidate.reporting_code ?? null, candidate.rate_version, candidate.effective_from, candidate.effective_to, id,
+    ]
+  );
+  invalidate();
+  res.json(fromDb(queryOne(`SELECT * FROM tax_rates WHERE id = ?`, [id])));
+});
+
+// POST /rates/:id/retire — stop applying a row from `effective_to` (default:
+// today). Orders dated on or after that day fall back to the county rate (for
+// a city row) or the state fallback rate (for a county row).
+router.post("/:id/retire", (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  const existing = queryOne(`SELECT * FROM tax_rates WHERE id = ?`, [id]);
+  if (!existing) { res.status(404).json({ error: "Rate not found" }); return; }
+
+  const effectiveTo = req.body?.effective_to ? String(req.body.effective_to) : today();
+  if (!DATE_RE.test(effectiveTo)) { res.status(400).json({ error: "effective_to must be a YYYY-MM-DD date" }); return; }
+  if (effectiveTo <= existing.effective_from) {
+    res.status(400).json({ error: "effective_to must be after the row's effective_from" }); return;
+  }
+  if (existing.effective_to !== null && existing.effective_to <= effectiveTo) {
+    res.status(409).json({ error: `Rate already ends on ${existing.effective_to}` }); return;
+  }
+
+  runQuery(`UPDATE tax_rates SET effective_to = ?, updated_at = datetime('now') WHERE id = ?`, [effectiveTo, id]);
+  invalidate();
+  res.json(fromDb(queryOne(`SELECT * FROM tax_rates WHERE id = ?`, [id])));
+});
+
+export default router;
@@ -0,0 +1,427 @@
+// Recalculation jobs: re-run the tax on a filtered set of stored orders, report the before/after diff, and apply it on approval
+import { Router, Request, Response } from "express";
+import { runQuery, runQueryDeferred, queryAll, queryOne } from "./db";
+import { calculateTax, TaxBreakdown } from "./tax";
+import { taxColumns, updateOrder, storedItems, safeParseJson } from "./orderStore";
+import { authMiddleware } from "./auth";
+import { fromCents } from "./money";
+
+// Orders are recalculated in parallel batches, like import rows: most hit the
+// geocode cache, uncached ones go to the geocoder.
+const BATCH_SIZE = 5;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RecalcJobStatus = "queued" | "running" | "ready" | "applied" | "failed";
+
+const ACTIVE_STATUSES: RecalcJobStatus[] = ["queued", "running"];
+
+/** Which orders a job covers; every set field must match */
+export interface RecalcFilters {
+  /** First order date, inclusive (YYYY-MM-DD) */
+  from: string | null;
+  /** Last order date, inclusive (YYYY-MM-DD) */
+  to: string | null;
+  /** 5-digit county FIPS the order is currently taxed in */
+  county_fips: string | null;
+  /** Only orders taxed at the statewide fallback (no rate table matched) */
+  fallback_only: boolean;
+}
+
+export interface RecalcJob {
+  id: string;
+  /** queued → running → ready (diff complete) → applied; failed if the job itself broke */
+  status: RecalcJobStatus;
+  filters: RecalcFilters;
+  total_orders: number;
+  processed: number;
+  changed: number;
+  failed: number;
+  /** Set once applied: orders updated, and changed orders skipped because they were edited or refunded after the diff */
+  applied: number | null;
+  stale: number | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  applied_at: string | null;
+}
+
+/** Before/after totals of a job's orders, overall and per county */
+export interface RecalcDiff {
+  orders: number;
+  changed: number;
+  unchanged: number;
+  failed: number;
+  old_tax_amount: number;
+  new_tax_amount: number;
+  tax_delta: number;
+  counties: {
+    county_fips: string | null;
+    name: string;
+    orders: number;
+    changed: number;
+    old_tax_amount: number;
+    new_tax_amount: number;
+    tax_delta: number;
+  }[];
+}
+
+// Order columns compared to decide whether a recalculation changed anything
+const COMPARED_COLUMNS = [
+  "county_fips", "place_fips", "tax_region", "state_rate", "county_rate", "city_rate", "special_rate",
+  "composite_tax_rate", "taxable_cents", "tax_cents", "state_tax_cents", "county_tax_cents",
+  "city_tax_cents", "special_tax_cents", "total_cents", "jurisdictions", "line_items", "rate_version",
+];
+
+// Order fields the diff depends on; an order whose fields moved since is not overwritten on apply
+const SNAPSHOT_COLUMNS = ["latitude", "longitude", "timestamp", "subtotal_cents", "tax_cents", "line_items", "refunded_cents"];
+
+// ---------------------------------------------------------------------------
+// Job store
+// ---------------------------------------------------------------------------
+
+function jobFromRow(row: any): RecalcJob {
+  return { ...row, filters: safeParseJson<RecalcFilters>(row.filters, {} as RecalcFilters) };
+}
+
+export function getRecalcJob(id: string): RecalcJob | null {
+  const row = queryOne(`SELECT * FROM recalc_jobs WHERE id = ?`, [id]);
+  return row ? jobFromRow(row) : null;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Reads filters from a request body. Throws with a user-facing message. */
+function parseFilters(body: any): RecalcFilters {
+  const filters: RecalcFilters = {
+    from: body.from || null,
+    to: body.to || null,
+    county_fips: body.county_fips ? String(body.county_fips).trim() : null,
+    fallback_only: body.fallback_only === true || body.fallback_only === "true",
+  };
+  if (filters.from && !DATE_RE.test(filters.from)) throw new Error("from must be a date (YYYY-MM-DD)");
+  if (filters.to && !DATE_RE.test(filters.to)) throw new Error("to must be a date (YYYY-MM-DD)");
+  if (filters.from && filters.to && filters.from > filters.to) throw new Error("from must not be after to");
+  if (filters.county_fips && !/^\d{5}$/.test(filters.county_fips)) throw new Error("county_fips must be a 5-digit FIPS code");
+  return filters;
+}
+
+function filterClause(filters: RecalcFilters): { where: string; params: any[] } {
+  // Refunded orders keep the tax their refunds were reversed against
+  const clauses: string[] = ["deleted_at IS NULL", "COALESCE(refunded_cents, 0) = 0"];
+  const params: any[] = [];
+  // date() reads both "YYYY-MM-DD HH:mm:ss" and ISO 8601 timestamps
+  if (filters.from) { clauses.push("date(timestamp) >= ?"); params.push(filters.from); }
+  if (filters.to) { clauses.push("date(timestamp) <= ?"); params.push(filters.to); }
+  if (filters.county_fips) { clauses.push("county_fips = ?"); params.push(filters.county_fips); }
+  if (filters.fallback_only) clauses.push("rate_version IS NULL");
+  return { where: `WHERE ${clauses.join(" AND ")}`, params };
+}
+
+/**
+ * Snapshots the ids of the matching orders as the job's rows, then wakes the
+ * worker. As with import jobs, the job row is written last with an immediate save.
+ */
+export function createRecalcJob(filters: RecalcFilters): RecalcJob {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const { where, params } = filterClause(filters);
+  const orders = queryAll(`SELECT id, county_fips, tax_region FROM orders ${where} ORDER BY id`, params);
+  for (const o of orders) {
+    runQueryDeferred(
+      `INSERT INTO recalc_job_rows (job_id, order_id, county_fips, tax_region) VALUES (?, ?, ?, ?)`,
+      [id, o.id, o.county_fips, o.tax_region]
+    );
+  }
+  runQuery(
+    `INSERT INTO recalc_jobs (id, status, filters, total_orders) VALUES (?, 'queued', ?, ?)`,
+    [id, JSON.stringify(filters), orders.length]
+  );
+  kickWorker();
+  return getRecalcJob(id)!;
+}
+
+/** Before/after tax of the orders processed so far, per county (as currently stored) and overall. */
+export function recalcDiff(id: string): RecalcDiff {
+  // Failed and pending rows have no amounts, so the sums only cover recalculated orders
+  const counts = queryOne(
+    `SELECT COUNT(*) as orders,
+       COALESCE(SUM(status IN ('changed', 'applied', 'stale')), 0) as changed,
+       COALESCE(SUM(status = 'unchanged'), 0) as unchanged,
+       COALESCE(SUM(status = 'failed'), 0) as failed,
+       COALESCE(SUM(old_tax_cents), 0) as old_tax_cents,
+       COALESCE(SUM(new_tax_cents), 0) as new_tax_cents
+     FROM recalc_job_rows WHERE job_id = ? AND status != 'pending'`,
+    [id]
+  );
+  const counties = queryAll(
+    `SELECT r.county_fips, COALESCE(MAX(t.name), MAX(r.tax_region)) as name, COUNT(*) as orders,
+       SUM(r.status IN ('changed', 'applied', 'stale')) as changed,
+       SUM(r.old_tax_cents) as old_tax_cents, SUM(r.new_tax_cents) as new_tax_cents
+     FROM recalc_job_rows r
+     LEFT JOIN (SELECT fips, MAX(name) as name FROM tax_rates GROUP BY fips) t ON t.fips = r.county_fips
+     WHERE r.job_id = ? AND r.status NOT IN ('pending', 'failed')
+     GROUP BY r.county_fips ORDER BY ABS(SUM(r.new_tax_cents) - SUM(r.old_tax_cents)) DESC, name`,
+    [id]
+  );
+
+  return {
+    orders: counts.orders,
+    changed: counts.changed,
+    unchanged: counts.unchanged,
+    failed: counts.failed,
+    old_tax_amount: fromCents(counts.old_tax_cents),
+    new_tax_amount: fromCents(counts.new_tax_cents),
+    tax_delta: fromCents(counts.new_tax_cents - counts.old_tax_cents),
+    counties: counties.map((c) => ({
+      county_fips: c.county_fips,
+      name: c.name,
+      orders: c.orders,
+      changed: c.changed,
+      old_tax_amount: fromCents(c.old_tax_cents),
+      new_tax_amount: fromCents(c.new_tax_cents),
+      tax_delta: fromCents(c.new_tax_cents - c.old_tax_cents),
+    })),
+  };
+}
+
+/** Picks up jobs left queued or running by a previous process. Call once at startup. */
+export function resumeRecalcJobs(): number {
+  const count = queryOne(
+    `SELECT COUNT(*) as cnt FROM recalc_jobs WHERE status IN (${ACTIVE_STATUSES.map(() => "?").join(", ")})`,
+    ACTIVE_STATUSES
+  )?.cnt ?? 0;
+  if (count) kickWorker();
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Diff and apply
+// ---------------------------------------------------------------------------
+
+function snapshotOf(order: any): string {
+  return JSON.stringify(SNAPSHOT_COLUMNS.map((c) => order[c] ?? null));
+}
+
+/** Recalculates one order; null when it has since been deleted. */
+async function recalculate(orderId: number): Promise<{ order: any; tax: TaxBreakdown } | null> {
+  const order = queryOne(`SELECT * FROM orders WHERE id = ? AND deleted_at IS NULL`, [orderId]);
+  if (!order) return null;
+  const tax = await calculateTax(
+    fromCents(order.subtotal_cents), null, order.latitude, order.longitude, order.timestamp, storedItems(order)
+  );
+  return { order, tax };
+}
+
+function recordResult(jobId: string, orderId: number, result: { order: any; tax: TaxBreakdown } | null): boolean {
+  if (!result) {
+    recordFailure(jobId, orderId, new Error("Order was deleted"));
+    return false;
+  }
+  const { order, tax } = result;
+  const values = taxColumns(tax);
+  const changed = COMPARED_COLUMNS.some((c) => (order[c] ?? null) !== (values[c] ?? null));
+  runQueryDeferred(
+    `UPDATE recalc_job_rows SET status = ?, old_rate = ?, new_rate = ?, old_tax_cents = ?, new_tax_cents = ?,
+       new_county_fips = ?, new_tax_region = ?, snapshot = ?, data = ?
+     WHERE job_id = ? AND order_id = ?`,
+    [
+      changed ? "changed" : "unchanged", order.composite_tax_rate, tax.composite_tax_rate,
+      order.tax_cents, tax.tax_cents, tax.county_fips, tax.tax_region, snapshotOf(order),
+      changed ? JSON.stringify(values) : null, jobId, orderId,
+    ]
+  );
+  return changed;
+}
+
+function recordFailure(jobId: string, orderId: number, reason: unknown): void {
+  runQueryDeferred(
+    `UPDATE recalc_job_rows SET status = 'failed', error = ? WHERE job_id = ? AND order_id = ?`,
+    [(reason as any)?.message ?? String(reason), jobId, orderId]
+  );
+}
+
+/**
+ * Writes the new tax of every changed order of a ready job. Orders edited,
+ * refunded, trashed or purged since the job was created are skipped and
+ * counted as stale.
+ */
+export function applyRecalcJob(id: string): RecalcJob {
+  const rows = queryAll(
+    `SELECT order_id, snapshot, data FROM recalc_job_rows WHERE job_id = ? AND status = 'changed' ORDER BY order_id`,
+    [id]
+  );
+  let applied = 0, stale = 0;
+  for (const row of rows) {
+    const order = queryOne(`SELECT * FROM orders WHERE id = ?`, [row.order_id]);
+    const current = !!order && !order.deleted_at && !(order.refunded_cents > 0) && snapshotOf(order) === row.snapshot;
+    if (current) {
+      updateOrder(row.order_id, JSON.parse(row.data), { deferred: true });
+      applied++;
+    } else {
+      stale++;
+    }
+    runQueryDeferred(
+      `UPDATE recalc_job_rows SET status = ? WHERE job_id = ? AND order_id = ?`,
+      [current ? "applied" : "stale", id, row.order_id]
+    );
+  }
+  runQuery(
+    `UPDATE recalc_jobs SET status = 'applied', applied = ?, stale = ?, applied_at = datetime('now') WHERE id = ?`,
+    [applied, stale, id]
+  );
+  return getRecalcJob(id)!;
+}
+
+// ---------------------------------------------------------------------------
+// Worker — one job at a time, oldest first. Diffing writes no orders, so a
+// job interrupted by a restart just continues with its pending rows.
+// ---------------------------------------------------------------------------
+
+let working = false;
+
+function kickWorker(): void {
+  if (!working) void runWorker();
+}
+
+function nextJob(): RecalcJob | null {
+  const row = queryOne(
+    `SELECT * FROM recalc_jobs WHERE status IN (${ACTIVE_STATUSES.map(() => "?").join(", ")})
+     ORDER BY created_at, id LIMIT 1`,
+    ACTIVE_STATUSES
+  );
+  return row ? jobFromRow(row) : null;
+}
+
+async function runWorker(): Promise<void> {
+  working = true;
+  try {
+    for (let job = nextJob(); job; job = nextJob()) await processJob(job);
+  } finally {
+    working = false;
+  }
+}
+
+async function processJob(job: RecalcJob): Promise<void> {
+  const { id } = job;
+  if (job.status === "queued") {
+    runQueryDeferred(`UPDATE recalc_jobs SET status = 'running', started_at = datetime('now') WHERE id = ?`, [id]);
+  }
+
+  try {
+    while (true) {
+      const pending = queryAll(
+        `SELECT order_id FROM recalc_job_rows WHERE job_id = ? AND status = 'pending' ORDER BY order_id LIMIT ?`,
+        [id, BATCH_SIZE]
+      );
+      if (!pending.length) break;
+
+      const results = await Promise.allSettled(pending.map((r) => recalculate(r.order_id)));
+      // Cached lookups resolve without I/O; yield so requests and saves keep flowing
+      await new Promise((resolve) => setImmediate(resolve));
+
+      results.forEach((result, j) => {
+        const orderId = pending[j].order_id;
+        let changed = false, failed = false;
+        if (result.status === "fulfilled") {
+          changed = recordResult(id, orderId, result.value);
+          failed = !result.value;
+        } else {
+          recordFailure(id, orderId, result.reason);
+          failed = true;
+        }
+        runQueryDeferred(
+          `UPDATE recalc_jobs SET processed = processed + 1, changed = changed + ?, failed = failed + ? WHERE id = ?`,
+          [changed ? 1 : 0, failed ? 1 : 0, id]
+        );
+      });
+    }
+
+    runQuery(`UPDATE recalc_jobs SET status = 'ready', finished_at = datetime('now') WHERE id = ?`, [id]);
+  } catch (e: any) {
+    console.error(`[recalculations] Job ${id} failed:`, e);
+    runQuery(
+      `UPDATE recalc_jobs SET status = 'failed', error = ?, finished_at = datetime('now') WHERE id = ?`,
+      [e?.message ?? String(e), id]
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Routes — mounted at /api/recalculations
+// ---------------------------------------------------------------------------
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// POST /recalculations — { from?, to?, county_fips?, fallback_only? }; returns
+// 202 with the queued job. Nothing is written until the job is applied.
+router.post("/", (req: Request, res: Response) => {
+  let filters: RecalcFilters;
+  try {
+    filters = parseFilters(req.body ?? {});
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
+  }
+  res.status(202).json(createRecalcJob(filters));
+});
+
+// GET /recalculations — most recent jobs first
+router.get("/", (req: Request, res: Response) => {
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+  const jobs = queryAll(`SELECT * FROM recalc_jobs ORDER BY created_at DESC, id DESC LIMIT ?`, [limit]);
+  res.json({ jobs: jobs.map(jobFromRow) });
+});
+
+// GET /recalculations/:id — status, counters and the diff of the orders processed so far
+router.get("/:id", (req: Request, res: Response) => {
+  const job = getRecalcJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Recalculation job not found" }); return; }
+  res.json({ ...job, diff: recalcDiff(job.id) });
+});
+
+// GET /recalculations/:id/rows — per-order old vs. new tax, paginated, largest
+// change first; optional status=pending|changed|unchanged|failed|applied|stale
+router.get("/:id/rows", (req: Request, res: Response) => {
+  const job = getRecalcJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Recalculation job not found" }); return; }
+
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 100));
+  const status = req.query.status ? String(req.query.status) : null;
+  const where = status ? `WHERE job_id = ? AND status = ?` : `WHERE job_id = ?`;
+  const params = status ? [job.id, status] : [job.id];
+
+  const total = queryOne(`SELECT COUNT(*) as cnt FROM recalc_job_rows ${where}`, params)?.cnt ?? 0;
+  const rows = queryAll(
+    `SELECT order_id, status, county_fips, tax_region, new_county_fips, new_tax_region,
+       old_rate, new_rate, old_tax_cents, new_tax_cents, error
+     FROM recalc_job_rows ${where}
+     ORDER BY ABS(COALESCE(new_tax_cents - old_tax_cents, 0)) DESC, order_id LIMIT ? OFFSET ?`,
+    [...params, limit, (page - 1) * limit]
+  ).map(({ old_tax_cents, new_tax_cents, ...rest }) => ({
+    ...rest,
+    old_tax_amount: old_tax_cents != null ? fromCents(old_tax_cents) : null,
+    new_tax_amount: new_tax_cents != null ? fromCents(new_tax_cents) : null,
+    tax_delta: old_tax_cents != null && new_tax_cents != null ? fromCents(new_tax_cents - old_tax_cents) : null,
+  }));
+
+  res.json({ total, page, limit, pages: Math.ceil(total / limit), rows });
+});
+
+// POST /recalculations/:id/apply — write the new tax of every changed order of a
+// ready job; orders edited since the diff are skipped and counted as stale
+router.post("/:id/apply", (req: Request, res: Response) => {
+  const job = getRecalcJob(req.params.id);
+  if (!job) { res.status(404).json({ error: "Recalculation job not found" }); return; }
+  if (job.status !== "ready") {
+    res.status(409).json({ error: "Only a finished, unapplied recalculation can be applied" }); return;
+  }
+  const applied = applyRecalcJob(job.id);
+  res.json({ ...applied, diff: recalcDiff(job.id) });
+});
+
+export default router;
@@ -0,0 +1,77 @@
+// Proportional tax reversal on refunds — run with `npm test`
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { refundCents } from "./refunds";
+
+// A Yonkers order of $123.45 with $23.45 of food: $100.00 taxable at 8.875%
+// = 887.5¢ → 888¢, split 400 state + 150 county + 300 city + 38 MCTD
+const ORDER = {
+  subtotal_cents: 12345,
+  taxable_cents: 10000,
+  composite_tax_rate: 0.08875,
+  tax_cents: 888,
+  state_tax_cents: 400,
+  county_tax_cents: 150,
+  city_tax_cents: 300,
+  special_tax_cents: 38,
+};
+
+const FIELDS = [
+  "amount_cents", "taxable_cents", "tax_cents",
+  "state_tax_cents", "county_tax_cents", "city_tax_cents", "special_tax_cents",
+] as const;
+type Cents = Record<typeof FIELDS[number], number>;
+
+/** Refunds `amounts` in order (null = everything left), tracking what is left as refunds.ts does. */
+function refundSeries(amounts: (number | null)[]): Cents[] {
+  let left: Cents = { ...ORDER, amount_cents: ORDER.subtotal_cents };
+  return amounts.map((amount) => {
+    const refund = refundCents(ORDER, left, amount);
+    left = Object.fromEntries(FIELDS.map((f) => [f, left[f] - refund[f]])) as Cents;
+    return refund;
+  });
+}
+
+function total(refunds: Cents[], field: typeof FIELDS[number]): number {
+  return refunds.reduce((sum, r) => sum + r[field], 0);
+}
+
+test("refundCents reverses tax on the refund's share of taxable sales at the stored rate", () => {
+  const [refund] = refundSeries([4938]);
+  // 4938 / 12345 of $100.00 taxable = 4000¢; 4000¢ × 8.875% = 355¢
+  assert.equal(refund.taxable_cents, 4000);
+  assert.equal(refund.tax_cents, 355);
+  assert.equal(
+    refund.state_tax_cents + refund.county_tax_cents + refund.city_tax_cents + refund.special_tax_cents, 355
+  );
+});
+
+test("partial refunds followed by a full refund reverse exactly the order's tax", () => {
+  const series: (number | null)[][] = [
+    [1001, 2500, 333, null],
+    [1, 1, 1, 1, 1, null],
+    [6172, 6172, null],
+    [4115, 4115, 4115],
+    [12344, null],
+    [null],
+  ];
+  for (const amounts of series) {
+    const refunds = refundSeries(amounts);
+    const label = JSON.stringify(amounts);
+    assert.equal(total(refunds, "amount_cents"), ORDER.subtotal_cents, label);
+    assert.equal(total(refunds, "taxable_cents"), ORDER.taxable_cents, label);
+    assert.equal(total(refunds, "tax_cents"), ORDER.tax_cents, label);
+    for (const c of ["state_tax_cents", "county_tax_cents", "city_tax_cents", "special_tax_cents"] as const) {
+      assert.equal(total(refunds, c), ORDER[c], `${c} of ${label}`);
+    }
+    for (const r of refunds) {
+      assert.ok(FIELDS.every((f) => r[f] >= 0), `no negative reversal in ${label}`);
+    }
+  }
+});
+
+test("a refund of the whole remaining amount takes exactly what is left", () => {
+  const [first, last] = refundSeries([3000, 9345]);
+  assert.equal(first.tax_cents + last.tax_cents, ORDER.tax_cents);
+  assert.equal(last.amount_cents, 9345);
+});
@@ -0,0 +1,243 @@
+// Refunds: full or partial refunds against an order, reversing its tax at the stored composite rate
+import { Router, Request, Response } from "express";
+import { runQuery, runQueryDeferred, queryAll, queryOne } from "./db";
+import { authMiddleware } from "./auth";
+import { orderFromRow } from "./orderStore";
+import { Cents, fromCents, parseCents, toRateUnits, applyRate, allocate, divRoundHalfUp } from "./money";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RefundKind = "full" | "partial";
+
+/** A refund as returned by the API; amounts in dollars, all positive */
+export interface Refund {
+  id: number;
+  order_id: number;
+  kind: RefundKind;
+  reason: string | null;
+  /** Sales refunded, before tax */
+  amount: number;
+  taxable_amount: number;
+  /** Tax reversed */
+  tax_amount: number;
+  state_tax_amount: number;
+  county_tax_amount: number;
+  city_tax_amount: number;
+  special_tax_amount: number;
+  /** Amount plus tax paid back to the customer */
+  total_amount: number;
+  refunded_at: string;
+  created_at: string;
+}
+
+/** The cents columns a refund reverses */
+interface RefundCents {
+  amount_cents: Cents;
+  taxable_cents: Cents;
+  tax_cents: Cents;
+  state_tax_cents: Cents;
+  county_tax_cents: Cents;
+  city_tax_cents: Cents;
+  special_tax_cents: Cents;
+}
+
+const COMPONENTS = ["state_tax_cents", "county_tax_cents", "city_tax_cents", "special_tax_cents"] as const;
+
+function fromRow(row: any): Refund {
+  return {
+    id: row.id,
+    order_id: row.order_id,
+    kind: row.kind,
+    reason: row.reason,
+    amount: fromCents(row.amount_cents),
+    taxable_amount: fromCents(row.taxable_cents),
+    tax_amount: fromCents(row.tax_cents),
+    state_tax_amount: fromCents(row.state_tax_cents),
+    county_tax_amount: fromCents(row.county_tax_cents),
+    city_tax_amount: fromCents(row.city_tax_cents),
+    special_tax_amount: fromCents(row.special_tax_cents),
+    total_amount: fromCents(row.total_cents),
+    refunded_at: row.refunded_at,
+    created_at: row.created_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Amounts
+// ---------------------------------------------------------------------------
+
+/** What is left to refund on an order: its stored cents minus every earlier refund. */
+function remaining(order: any): RefundCents {
+  const done = queryOne(
+    `SELECT COALESCE(SUM(amount_cents), 0) as amount_cents, COALESCE(SUM(taxable_cents), 0) as taxable_cents,
+       COALESCE(SUM(tax_cents), 0) as tax_cents, COALESCE(SUM(state_tax_cents), 0) as state_tax_cents,
+       COALESCE(SUM(county_tax_cents), 0) as county_tax_cents, COALESCE(SUM(city_tax_cents), 0) as city_tax_cents,
+       COALESCE(SUM(special_tax_cents), 0) as special_tax_cents
+     FROM refunds WHERE order_id = ?`,
+    [order.id]
+  );
+  return {
+    amount_cents: order.subtotal_cents - done.amount_cents,
+    taxable_cents: (order.taxable_cents ?? order.subtotal_cents) - done.taxable_cents,
+    tax_cents: order.tax_cents - done.tax_cents,
+    state_tax_cents: order.state_tax_cents - done.state_tax_cents,
+    county_tax_cents: order.county_tax_cents - done.county_tax_cents,
+    city_tax_cents: order.city_tax_cents - done.city_tax_cents,
+    special_tax_cents: order.special_tax_cents - done.special_tax_cents,
+  };
+}
+
+/**
+ * The cents a refund of `amount` reverses; `null` refunds everything left.
+ *
+ * A partial refund takes the same share of the order's taxable sales as of its
+ * subtotal (so exempt lines are refunded pro rata) and reverses tax on it at
+ * the order's stored composite rate, split over the rate components in
+ * proportion to what is left of each. Nothing reverses more than is left, and
+ * the refund that brings the order to zero takes exactly the remainder, so an
+ * order refunded in pieces still nets to zero tax.
+ */
+export function refundCents(order: any, left: RefundCents, amount: Cents | null): RefundCents {
+  if (amount === null || amount >= left.amount_cents) return left;
+
+  const taxable = order.subtotal_cents
+    ? Math.min(left.taxable_cents, divRoundHalfUp(BigInt(amount) * BigInt(order.taxable_cents ?? order.subtotal_cents), order.subtotal_cents))
+    : 0;
+  const tax = Math.min(left.tax_cents, applyRate(taxable, toRateUnits(order.composite_tax_rate)));
+  const shares = allocate(tax, COMPONENTS.map((c) => Math.max(0, left[c])));
+  return {
+    amount_cents: amount,
+    taxable_cents: taxable,
+    tax_cents: tax,
+    ...Object.fromEntries(COMPONENTS.map((c, i) => [c, shares[i]])) as Pick<RefundCents, typeof COMPONENTS[number]>,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+/**
+ * Orders dated within a period plus, as negative rows, the refunds dated
+ * within it. Each refund carries its order's jurisdiction, rates and line
+ * items, so it nets against the line the sale was reported on. Orders in the
+ * trash are left out; refunds always count, since refunded orders cannot be
+ * trashed. Takes the period twice: [from, to, from, to].
+ */
+export const PERIOD_ACTIVITY_SQL = `
+  SELECT county_fips, place_fips, rate_version, tax_region, composite_tax_rate,
+    state_rate, county_rate, city_rate, special_rate,
+    1 as order_count, 0 as refund_count,
+    subtotal_cents as gross_cents, COALESCE(taxable_cents, subtotal_cents) as taxable_cents,
+    tax_cents, state_tax_cents, county_tax_cents, city_tax_cents, special_tax_cents,
+    0 as refunded_tax_cents, line_items
+  FROM orders
+  WHERE deleted_at IS NULL AND date(timestamp) >= ? AND date(timestamp) <= ?
+  UNION ALL
+  SELECT o.county_fips, o.place_fips, o.rate_version, o.tax_region, o.composite_tax_rate,
+    o.state_rate, o.county_rate, o.city_rate, o.special_rate,
+    0, 1,
+    -r.amount_cents, -r.taxable_cents,
+    -r.tax_cents, -r.state_tax_cents, -r.county_tax_cents, -r.city_tax_cents, -r.special_tax_cents,
+    r.tax_cents, o.line_items
+  FROM refunds r JOIN orders o ON o.id = r.order_id
+  WHERE date(r.refunded_at) >= ? AND date(r.refunded_at) <= ?`;
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/** Refunds of an order, oldest first. */
+export function orderRefunds(orderId: number): Refund[] {
+  return queryAll(`SELECT * FROM refunds WHERE order_id = ? ORDER BY refunded_at, id`, [orderId]).map(fromRow);
+}
+
+// ---------------------------------------------------------------------------
+// Routes — mounted at /api/orders/:id/refunds
+// ---------------------------------------------------------------------------
+
+const router = Router({ mergeParams: true });
+
+router.use(authMiddleware);
+
+function findOrder(id: string): any | null {
+  const n = Number(id);
+  if (!Number.isInteger(n)) return null;
+  return queryOne(`SELECT * FROM orders WHERE id = ? AND deleted_at IS NULL`, [n]);
+}
+
+function summary(order: any) {
+  const left = remaining(order);
+  return {
+    order: orderFromRow(order),
+    refunds: orderRefunds(order.id),
+    refundable_amount: fromCents(Math.max(0, left.amount_cents)),
+    refundable_tax: fromCents(Math.max(0, left.tax_cents)),
+  };
+}
+
+// GET /orders/:id/refunds — the order's refunds and what is left to refund
+router.get("/", (req: Request<{ id: string }>, res: Response) => {
+  const order = findOrder(req.params.id);
+  if (!order) { res.status(404).json({ error: "Order not found" }); return; }
+  res.json(summary(order));
+});
+
+// POST /orders/:id/refunds — refund the order in full ({ full: true }) or in
+// part ({ amount } of sales before tax), with optional { reason, refunded_at }.
+// refunded_at (default now) decides which filing period the reversal falls in.
+router.post("/", (req: Request<{ id: string }>, res: Response) => {
+  const order = findOrder(req.params.id);
+  if (!order) { res.status(404).json({ error: "Order not found" }); return; }
+
+  const { amount, full, reason, refunded_at } = req.body ?? {};
+  if (full !== true && amount == null) {
+    res.status(400).json({ error: "Send amount for a partial refund or full: true" }); return;
+  }
+  let cents: Cents | null = null;
+  if (full !== true) {
+    cents = parseCents(amount);
+    if (!(cents > 0)) { res.status(400).json({ error: "amount must be a positive number" }); return; }
+  }
+
+  const left = remaining(order);
+  if (left.amount_cents <= 0) { res.status(409).json({ error: "Order is already fully refunded" }); return; }
+  if (cents !== null && cents > left.amount_cents) {
+    res.status(400).json({ error: `amount exceeds the ${fromCents(left.amount_cents).toFixed(2)} left to refund` }); return;
+  }
+
+  // SQLite's datetime() normalizes dates and ISO timestamps, and gives null for anything else
+  const when = queryOne(`SELECT datetime(COALESCE(?, 'now')) as at`, [refunded_at ? String(refunded_at).trim() : null]).at;
+  if (!when) { res.status(400).json({ error: "refunded_at must be a date (YYYY-MM-DD) or timestamp" }); return; }
+  if (when.slice(0, 10) < String(order.timestamp).slice(0, 10)) {
+    res.status(400).json({ error: "refunded_at is before the order date" }); return;
+  }
+
+  const r = refundCents(order, left, cents);
+  const kind: RefundKind = r.amount_cents === left.amount_cents ? "full" : "partial";
+  // Registered first so the non-deferred insert below saves both together
+  runQueryDeferred(
+    `UPDATE orders SET refunded_cents = COALESCE(refunded_cents, 0) + ?, refunded_tax_cents = COALESCE(refunded_tax_cents, 0) + ?
+     WHERE id = ?`,
+    [r.amount_cents, r.tax_cents, order.id]
+  );
+  const id = runQuery(
+    `INSERT INTO refunds (order_id, kind, reason, amount_cents, taxable_cents, tax_cents, state_tax_cents,
+       county_tax_cents, city_tax_cents, special_tax_cents, total_cents, refunded_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      order.id, kind, reason ? String(reason).trim() || null : null,
+      r.amount_cents, r.taxable_cents, r.tax_cents, r.state_tax_cents,
+      r.county_tax_cents, r.city_tax_cents, r.special_tax_cents, r.amount_cents + r.tax_cents, when,
+    ]
+  );
+
+  res.status(201).json({
+    refund: fromRow(queryOne(`SELECT * FROM refunds WHERE id = ?`, [id])),
+    ...summary(queryOne(`SELECT * FROM orders WHERE id = ?`, [order.id])),
+  });
+});
+
+export default router;
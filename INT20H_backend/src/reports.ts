@@ -0,0 +1,223 @@
+// Reports: tax liability per jurisdiction and the ST-100 worksheet for a filing period
+import { Router, Request, Response } from "express";
+import { stringify } from "csv-stringify/sync";
+import { queryAll } from "./db";
+import { authMiddleware } from "./auth";
+import { fromCents, RATE_SCALE } from "./money";
+import { st100Worksheet, st100Csv, st100Html } from "./st100";
+import { PERIOD_ACTIVITY_SQL } from "./refunds";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Amounts summed over a set of orders, in dollars (summed in cents). Sales and
+ * tax are net of the refunds dated in the period.
+ */
+export interface LiabilityAmounts {
+  order_count: number;
+  /** Refunds dated in the period, whatever the date of their order */
+  refund_count: number;
+  gross_sales: number;
+  /** Gross sales minus exempt lines (e.g. clothing under $110) */
+  taxable_sales: number;
+  tax_collected: number;
+  state_tax: number;
+  /** County and city tax together */
+  local_tax: number;
+  /** Metropolitan Commuter Transportation District surcharge */
+  mctd_tax: number;
+  /** Tax reversed by the refunds, already subtracted from tax_collected */
+  refunded_tax: number;
+}
+
+/** One jurisdiction at one rate; a rate change inside the period gives two lines */
+export interface LiabilityLine extends LiabilityAmounts {
+  county_fips: string | null;
+  /** Set for cities that levy their own rate (Yonkers, White Plains, ...) */
+  place_fips: string | null;
+  name: string;
+  composite_tax_rate: number;
+  state_rate: number;
+  /** County and city rate together */
+  local_rate: number;
+  mctd_rate: number;
+}
+
+export interface LiabilityReport {
+  from: string;
+  to: string;
+  jurisdictions: LiabilityLine[];
+  totals: LiabilityAmounts;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Reads ?from=&to= (both required, inclusive). Throws with a user-facing message. */
+export function parsePeriod(query: Request["query"]): { from: string; to: string } {
+  const from = String(query.from ?? "").trim();
+  const to = String(query.to ?? "").trim();
+  if (!DATE_RE.test(from) || !DATE_RE.test(to)) throw new Error("from and to are required dates (YYYY-MM-DD)");
+  if (from > to) throw new Error("from must not be after to");
+  return { from, to };
+}
+
+function amounts(row: any): LiabilityAmounts {
+  return {
+    order_count: row.order_count,
+    refund_count: row.refund_count,
+    gross_sales: fromCents(row.gross_cents),
+    taxable_sales: fromCents(row.taxable_cents),
+    tax_collected: fromCents(row.tax_cents),
+    state_tax: fromCents(row.state_tax_cents),
+    local_tax: fromCents(row.local_tax_cents),
+    mctd_tax: fromCents(row.mctd_tax_cents),
+    refunded_tax: fromCents(row.refunded_tax_cents),
+  };
+}
+
+/**
+ * Tax liability for the orders dated within a period, grouped by county, city
+ * and composite rate. Amounts come from each order's stored cents, so the lines
+ * add up to exactly what was collected. Refunds dated in the period are
+ * subtracted from the line of their order's jurisdiction and rate. Orders in
+ * the trash are left out.
+ */
+export function liabilityReport(from: string, to: string): LiabilityReport {
+  const rows = queryAll(
+    `SELECT county_fips, place_fips, MAX(tax_region) as name,
+       MAX(composite_tax_rate) as composite_tax_rate, MAX(state_rate) as state_rate,
+       MAX(county_rate + city_rate) as local_rate, MAX(special_rate) as mctd_rate,
+       SUM(order_count) as order_count, SUM(refund_count) as refund_count,
+       SUM(gross_cents) as gross_cents,
+       SUM(taxable_cents) as taxable_cents,
+       SUM(tax_cents) as tax_cents,
+       SUM(state_tax_cents) as state_tax_cents,
+       SUM(county_tax_cents + city_tax_cents) as local_tax_cents,
+       SUM(special_tax_cents) as mctd_tax_cents,
+       SUM(refunded_tax_cents) as refunded_tax_cents
+     FROM (${PERIOD_ACTIVITY_SQL})
+     GROUP BY county_fips, place_fips, CAST(ROUND(composite_tax_rate * ${RATE_SCALE}) AS INTEGER)
+     ORDER BY name, composite_tax_rate`,
+    [from, to, from, to]
+  );
+
+  const total = rows.reduce(
+    (t, r) => {
+      for (const key of Object.keys(t) as (keyof typeof t)[]) t[key] += r[key];
+      return t;
+    },
+    {
+      order_count: 0, refund_count: 0, gross_cents: 0, taxable_cents: 0, tax_cents: 0,
+      state_tax_cents: 0, local_tax_cents: 0, mctd_tax_cents: 0, refunded_tax_cents: 0,
+    }
+  );
+
+  return {
+    from,
+    to,
+    jurisdictions: rows.map((r) => ({
+      county_fips: r.county_fips,
+      place_fips: r.place_fips,
+      name: r.name,
+      composite_tax_rate: r.composite_tax_rate,
+      state_rate: r.state_rate,
+      local_rate: Math.round(r.local_rate * RATE_SCALE) / RATE_SCALE,
+      mctd_rate: r.mctd_rate,
+      ...amounts(r),
+    })),
+    totals: amounts(total),
+  };
+}
+
+const CSV_COLUMNS = [
+  "county_fips", "place_fips", "jurisdiction", "composite_tax_rate", "state_rate", "local_rate", "mctd_rate",
+  "order_count", "refund_count", "gross_sales", "taxable_sales", "tax_collected", "state_tax", "local_tax", "mctd_tax",
+  "refunded_tax",
+];
+
+function csvAmounts(a: LiabilityAmounts): (string | number)[] {
+  return [
+    a.order_count,
+    a.refund_count,
+    ...[a.gross_sales, a.taxable_sales, a.tax_collected, a.state_tax, a.local_tax, a.mctd_tax, a.refunded_tax].map((v) => v.toFixed(2)),
+  ];
+}
+
+/** The report as CSV: one line per jurisdiction and rate, then a TOTAL line. */
+function liabilityCsv(report: LiabilityReport): string {
+  return stringify(
+    [
+      ...report.jurisdictions.map((j) => [
+        j.county_fips ?? "", j.place_fips ?? "", j.name,
+        j.composite_tax_rate, j.state_rate, j.local_rate, j.mctd_rate,
+        ...csvAmounts(j),
+      ]),
+      ["", "", "TOTAL", "", "", "", "", ...csvAmounts(report.totals)],
+    ],
+    { header: true, columns: CSV_COLUMNS }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Routes — mounted at /api/reports
+// ---------------------------------------------------------------------------
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /reports/liability?from=&to= — tax liability per jurisdiction for a
+// filing period (order dates, inclusive); ?format=csv downloads it
+router.get("/liability", (req: Request, res: Response) => {
+  let period: { from: string; to: string };
+  try {
+    period = parsePeriod(req.query);
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
+  }
+  const format = (req.query.format as string | undefined) ?? "json";
+  if (format !== "json" && format !== "csv") {
+    res.status(400).json({ error: `format must be "json" or "csv"` }); return;
+  }
+
+  const report = liabilityReport(period.from, period.to);
+  if (format === "json") { res.json(report); return; }
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="liability-${period.from}-to-${period.to}.csv"`);
+  res.send(liabilityCsv(report));
+});
+
+// GET /reports/st100?from=&to= — Form ST-100 worksheet for a quarter: taxable
+// sales, rate and tax due per jurisdiction reporting code, MCTD on its own line.
+// ?format=csv downloads it; ?format=html is a printable page (print to PDF).
+router.get("/st100", (req: Request, res: Response) => {
+  let period: { from: string; to: string };
+  try {
+    period = parsePeriod(req.query);
+  } catch (e: any) {
+    res.status(400).json({ error: e.message }); return;
+  }
+  const format = (req.query.format as string | undefined) ?? "json";
+  if (format !== "json" && format !== "csv" && format !== "html") {
+    res.status(400).json({ error: `format must be "json", "csv" or "html"` }); return;
+  }
+
+  const worksheet = st100Worksheet(period.from, period.to);
+  if (format === "json") { res.json(worksheet); return; }
+  if (format === "html") {
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.send(st100Html(worksheet));
+    return;
+  }
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="st100-${period.from}-to-${period.to}.csv"`);
+  res.send(st100Csv(worksheet));
+});
+
+export default router;
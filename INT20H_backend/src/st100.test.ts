@@ -0,0 +1,73 @@
+// ST-100 worksheet lines — run with `npm test`
+import "./testSetup";
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { initDb, runQuery } from "./db";
+import { seedRates } from "./rates";
+import { calculateTax, LineItemInput, NY_RATE_TABLES } from "./tax";
+import { insertOrder, taxColumns } from "./orderStore";
+import { refundCents } from "./refunds";
+import { st100Worksheet, MCTD_CODE } from "./st100";
+
+// Scarsdale, Westchester outside any city: 4% state + 4% county + 0.375% MCTD,
+// clothing under $110 taxed by the county only
+const SCARSDALE = { lat: 40.9887, lon: -73.7846 };
+
+async function placeOrder(items: LineItemInput[], timestamp: string): Promise<any> {
+  const tax = await calculateTax(0, null, SCARSDALE.lat, SCARSDALE.lon, timestamp, items);
+  const values = { latitude: SCARSDALE.lat, longitude: SCARSDALE.lon, timestamp, ...taxColumns(tax) };
+  return { id: insertOrder(values), ...values };
+}
+
+before(async () => {
+  await initDb();
+  seedRates(NY_RATE_TABLES);
+});
+
+test("st100Worksheet reports clothing under $110 at the local rate and leaves it out of the MCTD line", async () => {
+  await placeOrder([
+    { sku: "TOOL", category: "general", quantity: 1, unit_price: 100 },
+    { sku: "JEANS", category: "clothing", quantity: 1, unit_price: 109.99 },
+  ], "2026-01-15 12:00:00");
+
+  const w = st100Worksheet("2026-01-01", "2026-03-31");
+  // $100.00 × 8.375% = 837.5¢ → 838¢: 400 state + 400 county + 38 MCTD.
+  // The jeans pay county only: $109.99 × 4% = 439.96¢ → 440¢
+  assert.deepEqual(
+    w.lines.map((l) => [l.rate, l.taxable_sales, l.tax_due]),
+    [[0.04, 109.99, 4.4], [0.08, 100, 8]]
+  );
+  assert.equal(w.lines[0].jurisdiction, "Westchester County (clothing under $110)");
+  assert.equal(w.lines[0].reporting_code, w.lines[1].reporting_code);
+
+  assert.equal(w.mctd.length, 1);
+  assert.equal(w.mctd[0].reporting_code, MCTD_CODE);
+  assert.equal(w.mctd[0].taxable_sales, 100);
+  assert.equal(w.mctd[0].tax_due, 0.38);
+
+  assert.equal(w.total_taxable_sales, 209.99);
+  assert.equal(w.total_tax_due, 12.78);
+});
+
+test("st100Worksheet nets a refund against the lines its order was reported on", async () => {
+  const order = await placeOrder([
+    { sku: "TOOL", category: "general", quantity: 1, unit_price: 200 },
+    { sku: "TEE", category: "clothing", quantity: 2, unit_price: 50 },
+  ], "2026-04-10 12:00:00");
+  const left = { ...order, amount_cents: order.subtotal_cents };
+  const r = refundCents(order, left, null);
+  runQuery(
+    `INSERT INTO refunds (order_id, kind, amount_cents, taxable_cents, tax_cents, state_tax_cents,
+       county_tax_cents, city_tax_cents, special_tax_cents, total_cents, refunded_at)
+     VALUES (?, 'full', ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [order.id, r.amount_cents, r.taxable_cents, r.tax_cents, r.state_tax_cents,
+      r.county_tax_cents, r.city_tax_cents, r.special_tax_cents, r.amount_cents + r.tax_cents, "2026-05-01 09:00:00"]
+  );
+
+  const w = st100Worksheet("2026-04-01", "2026-06-30");
+  for (const l of [...w.lines, ...w.mctd]) {
+    assert.equal(l.taxable_sales, 0, l.jurisdiction);
+    assert.equal(l.tax_due, 0, l.jurisdiction);
+  }
+  assert.equal(w.lines.length, 2);
+});
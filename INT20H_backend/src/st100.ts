@@ -0,0 +1,258 @@
+// ST-100 worksheet: quarterly sales tax per NYS jurisdiction reporting code, as JSON, CSV or printable HTML
+import { stringify } from "csv-stringify/sync";
+import { queryAll } from "./db";
+import { rateForOrder } from "./rates";
+import { allocate, fromCents, toRateUnits, Cents, RATE_SCALE } from "./money";
+import { PERIOD_ACTIVITY_SQL } from "./refunds";
+import { safeParseJson } from "./orderStore";
+import { CLOTHING_EXEMPTION_LIMIT, LineTax } from "./tax";
+
+/** Worksheet code of the separately reported MCTD line */
+export const MCTD_CODE = "MCTD";
+
+/** One worksheet line: taxable sales × rate = tax due, as on the form */
+export interface St100Line {
+  /** Jurisdiction reporting code; null for orders taxed at the state fallback */
+  reporting_code: string | null;
+  jurisdiction: string;
+  taxable_sales: number;
+  /** State + local rate; MCTD is reported on its own line */
+  rate: number;
+  tax_due: number;
+  order_count: number;
+}
+
+export interface St100Worksheet {
+  from: string;
+  to: string;
+  lines: St100Line[];
+  /** The MCTD surcharge over all MCTD jurisdictions, one line per rate; empty when nothing was sold there */
+  mctd: St100Line[];
+  /** Orders without a reporting code (state fallback or a rate row lacking one) */
+  unassigned_orders: number;
+  total_taxable_sales: number;
+  total_tax_due: number;
+}
+
+interface LineTotals {
+  reporting_code: string | null;
+  jurisdiction: string;
+  rate_units: number;
+  order_count: number;
+  taxable_cents: number;
+  tax_cents: number;
+}
+
+/** The most local named jurisdiction of a rate row, e.g. "New York City" or "City of Yonkers" */
+function jurisdictionName(jurisdictions: string[], fallback: string): string {
+  return jurisdictions.filter((j) => j !== "New York State" && j !== "MCTD").pop() ?? fallback;
+}
+
+/**
+ * Splits an order's or refund's taxable sales and tax into the part taxed at
+ * the full rate and the part taxed at the local rate only (clothing under
+ * $110 where the locality taxes it), in proportion to what the order's lines
+ * bore. Refund rows come signed negative and split the same way.
+ */
+function splitLocalOnly(row: any): { taxable_cents: Cents; tax_cents: Cents } {
+  const fullUnits = toRateUnits(row.composite_tax_rate);
+  const full = { amount: 0, tax: 0 };
+  const localOnly = { amount: 0, tax: 0 };
+  for (const line of safeParseJson<LineTax[]>(row.line_items, [])) {
+    const units = toRateUnits(line.tax_rate);
+    if (units <= 0) continue;
+    const part = units < fullUnits ? localOnly : full;
+    part.amount += line.amount_cents;
+    part.tax += line.tax_cents;
+  }
+  const sign = row.order_count ? 1 : -1;
+  const taxable = allocate(sign * row.taxable_cents, [full.amount, localOnly.amount])[1];
+  const tax = allocate(sign * row.tax_cents, [full.tax, localOnly.tax])[1];
+  // Local tax the row actually bore caps the share, should rounding overshoot it
+  return {
+    taxable_cents: sign * taxable,
+    tax_cents: sign * Math.min(tax, sign * (row.county_tax_cents + row.city_tax_cents)),
+  };
+}
+
+/**
+ * Builds the worksheet for orders dated within a period. Orders are grouped by
+ * the rate row they were taxed with, so the five boroughs roll up into the New
+ * York City code and a rate change mid-quarter gives the code a second line.
+ * Clothing under $110 that bore only the local rate gets a line of its own at
+ * that rate, and the MCTD line counts only the sales that bore the surcharge.
+ * Tax due is summed from each order's stored cents, so the worksheet total
+ * equals the tax collected in the liability report. Refunds dated in the
+ * period reduce the line their order was reported on, as on the return.
+ * Orders in the trash are left out.
+ */
+export function st100Worksheet(from: string, to: string): St100Worksheet {
+  const rows = queryAll(`SELECT * FROM (${PERIOD_ACTIVITY_SQL})`, [from, to, from, to]);
+
+  const lines = new Map<string, LineTotals>();
+  const mctd = new Map<number, LineTotals>();
+  function add<K>(map: Map<K, LineTotals>, key: K, init: Pick<LineTotals, "reporting_code" | "jurisdiction" | "rate_units">,
+    orders: number, taxable: Cents, tax: Cents) {
+    const line = map.get(key) ?? { ...init, order_count: 0, taxable_cents: 0, tax_cents: 0 };
+    line.order_count += orders;
+    line.taxable_cents += taxable;
+    line.tax_cents += tax;
+    map.set(key, line);
+  }
+
+  let unassigned = 0;
+  for (const r of rows) {
+    const fips = r.place_fips ?? r.county_fips;
+    const row = fips ? rateForOrder(fips, r.rate_version) : undefined;
+    const code = row?.reporting_code ?? null;
+    if (!code) unassigned += r.order_count;
+    const jurisdiction = code && row ? jurisdictionName(row.jurisdictions, r.tax_region) : r.tax_region;
+
+    const localOnly = splitLocalOnly(r);
+    const fullTaxable = r.taxable_cents - localOnly.taxable_cents;
+    const localUnits = toRateUnits(r.county_rate) + toRateUnits(r.city_rate);
+    const fullUnits = toRateUnits(r.state_rate) + localUnits;
+
+    add(lines, `${code ?? r.tax_region}|${fullUnits}`, { reporting_code: code, jurisdiction, rate_units: fullUnits },
+      r.order_count, fullTaxable,
+      r.state_tax_cents + r.county_tax_cents + r.city_tax_cents - localOnly.tax_cents);
+    if (localOnly.taxable_cents !== 0 || localOnly.tax_cents !== 0) {
+      add(lines, `${code ?? r.tax_region}|${localUnits}`,
+        { reporting_code: code, jurisdiction: `${jurisdiction} (clothing under $${CLOTHING_EXEMPTION_LIMIT})`, rate_units: localUnits },
+        0, localOnly.taxable_cents, localOnly.tax_cents);
+    }
+
+    if (r.special_rate > 0) {
+      const units = toRateUnits(r.special_rate);
+      add(mctd, units,
+        { reporting_code: MCTD_CODE, jurisdiction: "Metropolitan Commuter Transportation District", rate_units: units },
+        r.order_count, fullTaxable, r.special_tax_cents);
+    }
+  }
+
+  const toLine = (t: LineTotals): St100Line => ({
+    reporting_code: t.reporting_code,
+    jurisdiction: t.jurisdiction,
+    taxable_sales: fromCents(t.taxable_cents),
+    rate: t.rate_units / RATE_SCALE,
+    tax_due: fromCents(t.tax_cents),
+    order_count: t.order_count,
+  });
+  // Form order: by reporting code, unassigned lines last
+  const sorted = [...lines.values()].sort((a, b) =>
+    (a.reporting_code ?? "~").localeCompare(b.reporting_code ?? "~") || a.rate_units - b.rate_units);
+  const mctdLines = [...mctd.values()].sort((a, b) => a.rate_units - b.rate_units);
+
+  // MCTD sales are already counted in their jurisdiction's line, so only its tax adds to the totals
+  const taxableCents = sorted.reduce((sum, l) => sum + l.taxable_cents, 0);
+  const taxCents = [...sorted, ...mctdLines].reduce((sum, l) => sum + l.tax_cents, 0);
+  return {
+    from,
+    to,
+    lines: sorted.map(toLine),
+    mctd: mctdLines.map(toLine),
+    unassigned_orders: unassigned,
+    total_taxable_sales: fromCents(taxableCents),
+    total_tax_due: fromCents(taxCents),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Renderers
+// ---------------------------------------------------------------------------
+
+const pct = (rate: number) => `${(rate * 100).toFixed(3)}%`;
+const money = (v: number) => v.toFixed(2);
+
+/** CSV: jurisdiction lines, then the MCTD line(s) and a TOTAL line. */
+export function st100Csv(w: St100Worksheet): string {
+  const record = (l: St100Line) => [l.jurisdiction, l.reporting_code ?? "", money(l.taxable_sales), l.rate, money(l.tax_due), l.order_count];
+  return stringify(
+    [
+      ...w.lines.map(record),
+      ...w.mctd.map(record),
+      ["TOTAL", "", money(w.total_taxable_sales), "", money(w.total_tax_due), ""],
+    ],
+    { header: true, columns: ["jurisdiction", "reporting_code", "taxable_sales", "tax_rate", "tax_due", "order_count"] }
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+/**
+ * A standalone printable page laid out like Step 3 of Form ST-100: one line
+ * per jurisdiction with columns A (taxable sales), B (rate) and C (tax), then
+ * the MCTD line and the totals. Printing it from the browser gives the PDF.
+ */
+export function st100Html(w: St100Worksheet): string {
+  const row = (l: St100Line, n: number) => `
+      <tr${l.reporting_code ? "" : ` class="review"`}>
+        <td class="n">${n}</td>
+        <td>${escapeHtml(l.jurisdiction)}</td>
+        <td class="code">${escapeHtml(l.reporting_code ?? "—")}</td>
+        <td class="amt">${money(l.taxable_sales)}</td>
+        <td class="amt">${pct(l.rate)}</td>
+        <td class="amt">${money(l.tax_due)}</td>
+      </tr>`;
+  const lines = w.lines.map((l, i) => row(l, i + 1)).join("");
+  const mctd = w.mctd.map((l, i) => row(l, w.lines.length + i + 1)).join("");
+  const review = w.unassigned_orders
+    ? `<p class="note">${w.unassigned_orders} order(s) have no reporting code (highlighted). Review their location before filing.</p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ST-100 worksheet ${w.from} to ${w.to}</title>
+<style>
+  body { font: 12px/1.4 Arial, Helvetica, sans-serif; color: #000; margin: 24px; }
+  h1 { font-size: 16px; margin: 0 0 4px; }
+  .period { margin: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #000; padding: 4px 6px; }
+  th { background: #eee; font-size: 11px; text-align: left; vertical-align: bottom; }
+  td.n { width: 24px; text-align: right; }
+  td.code { width: 80px; font-family: "Courier New", monospace; }
+  td.amt, th.amt { text-align: right; font-family: "Courier New", monospace; }
+  tr.total td { font-weight: bold; }
+  tr.review td { background: #fff3cd; }
+  .note { margin-top: 12px; }
+  .print { margin-bottom: 16px; }
+  @media print { .print { display: none; } body { margin: 0; } tr.review td { background: none; font-style: italic; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / save as PDF</button>
+<h1>Form ST-100 worksheet — New York State and local quarterly sales and use tax</h1>
+<p class="period">Sales period: <strong>${w.from}</strong> through <strong>${w.to}</strong></p>
+<table>
+  <thead>
+    <tr>
+      <th></th>
+      <th>Taxing jurisdiction</th>
+      <th>Jurisdiction code</th>
+      <th class="amt">A<br>Taxable sales and services</th>
+      <th class="amt">B<br>Tax rate</th>
+      <th class="amt">C<br>Sales and use tax (A × B)</th>
+    </tr>
+  </thead>
+  <tbody>${lines}${mctd}
+    <tr class="total">
+      <td></td>
+      <td colspan="2">Totals</td>
+      <td class="amt">${money(w.total_taxable_sales)}</td>
+      <td></td>
+      <td class="amt">${money(w.total_tax_due)}</td>
+    </tr>
+  </tbody>
+</table>
+<p class="note">Column C is the tax collected on each order, rounded per order, so it can differ by a few cents from A × B.
+The MCTD line repeats the taxable sales of the MCTD jurisdictions above; they are counted once in the total.</p>
+${review}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,121 @@
+// Tax calculation over line items and rate components — run with `npm test`
+import "./testSetup";
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { initDb } from "./db";
+import { seedRates } from "./rates";
+import { calculateTax, LineItemInput, NY_RATE_TABLES, TaxBreakdown } from "./tax";
+
+// Drop points: Scarsdale (Westchester outside any city, 8.375% with MCTD, no
+// clothing exemption), Midtown Manhattan (8.875%, clothing exempt) and
+// downtown Yonkers (8.875% with a city rate)
+const SCARSDALE = { lat: 40.9887, lon: -73.7846 };
+const MANHATTAN = { lat: 40.758, lon: -73.9855 };
+const YONKERS = { lat: 40.9312, lon: -73.8987 };
+const TS = "2026-01-15 12:00:00";
+
+function quote(at: { lat: number; lon: number }, items: LineItemInput[], ts = TS): Promise<TaxBreakdown> {
+  return calculateTax(0, null, at.lat, at.lon, ts, items);
+}
+
+function componentSum(tax: TaxBreakdown): number {
+  return tax.state_tax_cents + tax.county_tax_cents + tax.city_tax_cents + tax.special_tax_cents;
+}
+
+before(async () => {
+  await initDb();
+  seedRates(NY_RATE_TABLES);
+});
+
+test("calculateTax taxes each category at its own components, rounding once per group", async () => {
+  const tax = await quote(SCARSDALE, [
+    { sku: "TOOL", category: "general", quantity: 1, unit_price: 100 },
+    { sku: "MILK", category: "food", quantity: 1, unit_price: 50 },
+    { sku: "TEE", category: "clothing", quantity: 2, unit_price: 40 },
+    { sku: "COAT", category: "clothing", quantity: 1, unit_price: 150 },
+  ]);
+  assert.equal(tax.tax_region, "Westchester County");
+  assert.equal(tax.subtotal_cents, 38000);
+  // Food is the only fully exempt line
+  assert.equal(tax.taxable_cents, 33000);
+
+  // The coat is over $110, so it shares the general line's group:
+  // $250 × 8.375% = 2093.75¢ → 2094¢. The tees pay county only: $80 × 4% = 320¢
+  const [tool, milk, tees, coat] = tax.line_items;
+  assert.equal(tool.tax_cents + coat.tax_cents, 2094);
+  assert.equal(milk.tax_cents, 0);
+  assert.equal(milk.exemption, "food: exempt");
+  assert.equal(tees.tax_cents, 320);
+  assert.equal(tees.tax_rate, 0.04);
+  assert.equal(tax.tax_cents, 2414);
+  assert.equal(tax.total_cents, 38000 + 2414);
+
+  assert.equal(tax.state_tax_cents, 1000);
+  assert.equal(tax.county_tax_cents, 1000 + 320);
+  assert.equal(tax.city_tax_cents, 0);
+  assert.equal(tax.special_tax_cents, 94);
+});
+
+test("calculateTax exempts clothing under $110 from state and MCTD only where the locality taxes it", async () => {
+  const under = await quote(SCARSDALE, [{ sku: "JEANS", category: "clothing", quantity: 1, unit_price: 109.99 }]);
+  // $109.99 × 4% county = 439.96¢ → 440¢
+  assert.equal(under.tax_cents, 440);
+  assert.equal(under.state_tax_cents, 0);
+  assert.equal(under.special_tax_cents, 0);
+  assert.equal(under.line_items[0].exemption, "clothing under $110: state and MCTD exempt");
+
+  const over = await quote(SCARSDALE, [{ sku: "SUIT", category: "clothing", quantity: 1, unit_price: 110 }]);
+  // $110.00 × 8.375% = 921.25¢ → 921¢
+  assert.equal(over.tax_cents, 921);
+  assert.equal(over.line_items[0].exemption, null);
+});
+
+test("calculateTax fully exempts clothing under $110 where the locality elected the exemption", async () => {
+  const under = await quote(MANHATTAN, [{ sku: "JEANS", category: "clothing", quantity: 3, unit_price: 109.99 }]);
+  assert.equal(under.tax_region, "New York City (Manhattan)");
+  assert.equal(under.tax_cents, 0);
+  assert.equal(under.taxable_cents, 0);
+
+  // The limit is per item, not per line: three $110 items are all taxable
+  const over = await quote(MANHATTAN, [{ sku: "SUIT", category: "clothing", quantity: 3, unit_price: 110 }]);
+  // $330.00 × 8.875% = 2928.75¢ → 2929¢
+  assert.equal(over.tax_cents, 2929);
+});
+
+test("calculateTax splits tax over state, county, city and MCTD adding up to the total", async () => {
+  for (const price of [0.01, 0.99, 1, 9.99, 12.34, 109.99, 110, 999.99, 12345.67]) {
+    const tax = await quote(YONKERS, [
+      { sku: "A", category: "general", quantity: 1, unit_price: price },
+      { sku: "B", category: "clothing", quantity: 2, unit_price: price },
+    ]);
+    assert.equal(tax.place_fips, "3684000");
+    assert.equal(componentSum(tax), tax.tax_cents, `components of ${price}`);
+    assert.equal(
+      tax.line_items.reduce((sum, l) => sum + l.tax_cents, 0), tax.tax_cents, `lines of ${price}`
+    );
+    assert.equal(tax.total_cents, tax.subtotal_cents + tax.tax_cents);
+  }
+});
+
+test("calculateTax splits a general order into each component's own rounded share", async () => {
+  const tax = await quote(YONKERS, [{ sku: "TV", category: "general", quantity: 1, unit_price: 500 }]);
+  // $500 at 4% + 1.5% + 3% + 0.375% = 8.875% → 4437.5¢ → 4438¢
+  assert.equal(tax.tax_cents, 4438);
+  assert.equal(tax.state_tax_cents, 2000);
+  assert.equal(tax.county_tax_cents, 750);
+  assert.equal(tax.city_tax_cents, 1500);
+  assert.equal(tax.special_tax_cents, 188);
+  assert.equal(componentSum(tax), 4438);
+});
+
+test("calculateTax applies the rate table in force when the order was placed", async () => {
+  const items: LineItemInput[] = [{ sku: "TOOL", category: "general", quantity: 1, unit_price: 100 }];
+  const before = await quote(SCARSDALE, items, "2023-07-31 23:59:59");
+  assert.equal(before.rate_version, "PUB718-2023-03");
+  assert.equal(before.composite_tax_rate, 0.07375);
+  assert.equal(before.tax_cents, 738);
+
+  const after = await quote(SCARSDALE, items, "2023-08-01 00:00:00");
+  assert.equal(after.rate_version, "PUB718-2023-08");
+  assert.equal(after.tax_cents, 838);
+});
@@ -3,50 +3,94 @@
  *
  * Strategy:
  *   1. Validate coordinates are within NY State bounding box (fast pre-check).
- *   2. Call the US Census Bureau Geocoder (free, no API key, official source) to
- *      resolve (lat, lon) → FIPS county code + ZIP code.
- *   3. Look up the composite sales tax rate from the official NYS Publication 718
- *      table, keyed by county FIPS code.
+ *   2. Resolve (lat, lon) → FIPS county code through the configured geocoder
+ *      provider (see geocoder.ts). The default is offline point-in-polygon
+ *      against bundled Census county boundaries (see geo.ts).
+ *   3. Look up the county's rate in force on the order's timestamp in the
+ *      tax_rates store (see rates.ts), seeded from NYS Publication 718.
  *   4. For NYC boroughs (which share one county-level rate but are technically
  *      five separate counties), apply the unified 8.875% NYC rate.
+ *   5. If the point falls inside a city that levies its own rate (Yonkers,
+ *      Utica, ...), apply that city's rate instead of the county-wide one.
+ *   6. Compute tax in integer cents (see money.ts), rounding half a cent up
+ *      once per group of identically-taxed lines.
  *
  * References:
  *   - Census Geocoder: https://geocoding.geo.census.gov/geocoder/
  *   - NYS Pub 718 (2024): https://www.tax.ny.gov/pdf/publications/sales/pub718.pdf
  *
  * Assumptions (documented per task requirements):
- *   - Rates are from NYS Publication 718, effective 2024 Q4.
- *   - We apply the county-level composite rate; sub-county city rates (e.g. Yonkers)
- *     are not modelled — noted in README as a known limitation.
- *   - Census Geocoder is treated as authoritative for jurisdiction resolution.
- *   - If the geocoder is unreachable (network error), we fall back to a bounding-box
- *     lookup so the service degrades gracefully rather than failing hard.
- *   - Coordinates outside NY State (after geocoder confirmation) are rejected.
+ *   - Rates are seeded from NYS Publication 718 and maintained in the database.
+ *     Each row carries an effective date range; orders dated before a county's
+ *     oldest row use that oldest row.
+ *   - Sub-county city rates are resolved against simplified city boundaries
+ *     bundled in src/data (see geo.ts); everywhere else the county rate applies.
+ *   - By default the bundled county boundaries are authoritative, so imports
+ *     are deterministic and need no network. A Census cross-check can be
+ *     enabled; it only overrides where the local lookup had to guess.
+ *   - Points no NY county claims get the fallback rate and a logged warning.
+ *   - Coordinates outside the NY State bounding box are rejected.
  */
 
-// Native fetch is available in Node.js 18+. If you're on Node 16, run:
-// npm install node-fetch @types/node-fetch  and change this to:
-// import fetch from "node-fetch";
+import { findPlace, findZip } from "./geo";
+import { findRate, effectiveDate, TaxRateRow } from "./rates";
+import { resolveCounty } from "./geocoder";
+import { Cents, toCents, fromCents, parseCents, toRateUnits, fromRateUnits, applyRate, allocate, sumCents } from "./money";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 export interface TaxBreakdown {
+  /** Pre-tax amount: the sum of all line amounts */
+  subtotal: number;
   zip_code: string | null;
   state: string;
   tax_region: string;
   /** FIPS 5-digit county code, e.g. "36061" for New York County (Manhattan) */
   county_fips: string | null;
+  /** Census place GEOID when a city rate applies, e.g. "3684000" for Yonkers */
+  place_fips: string | null;
   state_rate: number;
   county_rate: number;
   city_rate: number;
   special_rate: number;
   composite_tax_rate: number;
+  /** Part of the subtotal that bears any tax (excludes fully exempt lines) */
+  taxable_amount: number;
   tax_amount: number;
+  /** tax_amount split by the rate component it was collected for */
+  state_tax_amount: number;
+  county_tax_amount: number;
+  city_tax_amount: number;
+  special_tax_amount: number;
   total_amount: number;
+  /** Exact integer-cent amounts; the dollar fields above are derived from these */
+  subtotal_cents: Cents;
+  taxable_cents: Cents;
+  tax_cents: Cents;
+  state_tax_cents: Cents;
+  county_tax_cents: Cents;
+  city_tax_cents: Cents;
+  special_tax_cents: Cents;
+  total_cents: Cents;
+  /** Per-line breakdown; orders without explicit items get one "general" line */
+  line_items: LineTax[];
   /** Human-readable list of applied jurisdictions */
   jurisdictions: string[];
+  /** Version of the rate table that was applied; null when the fallback rate was used */
+  rate_version: string | null;
+  /** How the rate was found; reported by quotes, not stored on orders */
+  resolution: TaxResolution;
+}
+
+export interface TaxResolution {
+  /** Geocoder provider that placed the point ("local", "census", "http"); null if none could */
+  source: string | null;
+  /** true when the county came from the geocode cache */
+  cached: boolean;
+  /** true when no county rate applied and the state fallback rate was used */
+  fallback: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -71,27 +115,35 @@ export function isInNewYork(lat: number, lon: number): boolean {
 
 // ---------------------------------------------------------------------------
 // Official NYS tax rates keyed by 5-digit county FIPS code
-// Source: NYS Publication 718, 2024 Q4
+// Source: NYS Publication 718, current edition (in force since 2023-08-01)
 //
 // Rate structure:
 //   state_rate   — NY State base rate (4% everywhere)
 //   county_rate  — County / NYC local rate
-//   city_rate    — MCTD surcharge (0.375%) where applicable, or city surtax
-//   special_rate — Any additional special district rate
+//   city_rate    — City surtax inside cities that levy their own rate; 0 elsewhere
+//   special_rate — MCTD surcharge (0.375%) where applicable
 //
 // MCTD (Metropolitan Commuter Transportation District) adds 0.375% in:
 //   NYC (5 boroughs), Nassau, Suffolk, Westchester, Rockland, Orange, Dutchess,
 //   Putnam counties.
+//
+// reporting_code is the jurisdiction code the ST-100 return is filed under.
+// The five boroughs share the New York City code; MCTD is reported on its own
+// line of the worksheet (see st100.ts), not per code.
 // ---------------------------------------------------------------------------
 
-interface CountyRate {
+export interface CountyRate {
   name: string;
   state_rate: number;
   county_rate: number;
-  city_rate: number;   // MCTD surcharge (0.375%) for Metro-area counties; 0 elsewhere
-  special_rate: number;
+  city_rate: number;   // City surtax; 0 for county-level entries
+  special_rate: number; // MCTD surcharge (0.375%) for Metro-area counties; 0 elsewhere
   composite_tax_rate: number;
   jurisdictions: string[];
+  /** Locality also exempts clothing under $110 from its local rate (Pub 718-C) */
+  clothing_exempt?: boolean;
+  /** NYS jurisdiction reporting code for Form ST-100, e.g. "0181" or "NE 8081" */
+  reporting_code?: string | null;
 }
 
 /**
@@ -101,86 +153,156 @@ interface CountyRate {
 const NY_COUNTY_RATES: Record<string, CountyRate> = {
   // ── New York City (5 boroughs) ──────────────────────────────────────────
   // All five boroughs share the same 8.875% composite rate.
-  // county_rate 4.5% = NYC local; city_rate 0.375% = MCTD surcharge.
-  "36005": { name: "New York City (Bronx)",        state_rate: 0.04, county_rate: 0.045, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"] },
-  "36047": { name: "New York City (Brooklyn)",     state_rate: 0.04, county_rate: 0.045, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"] },
-  "36061": { name: "New York City (Manhattan)",    state_rate: 0.04, county_rate: 0.045, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"] },
-  "36081": { name: "New York City (Queens)",       state_rate: 0.04, county_rate: 0.045, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"] },
-  "36085": { name: "New York City (Staten Island)",state_rate: 0.04, county_rate: 0.045, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"] },
+  // county_rate 4.5% = NYC local; special_rate 0.375% = MCTD surcharge.
+  "36005": { name: "New York City (Bronx)",        state_rate: 0.04, county_rate: 0.045, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"], clothing_exempt: true, reporting_code: "NE 8081" },
+  "36047": { name: "New York City (Brooklyn)",     state_rate: 0.04, county_rate: 0.045, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"], clothing_exempt: true, reporting_code: "NE 8081" },
+  "36061": { name: "New York City (Manhattan)",    state_rate: 0.04, county_rate: 0.045, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"], clothing_exempt: true, reporting_code: "NE 8081" },
+  "36081": { name: "New York City (Queens)",       state_rate: 0.04, county_rate: 0.045, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"], clothing_exempt: true, reporting_code: "NE 8081" },
+  "36085": { name: "New York City (Staten Island)",state_rate: 0.04, county_rate: 0.045, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "New York City", "MCTD"], clothing_exempt: true, reporting_code: "NE 8081" },
 
   // ── Suburban NYC / MCTD counties ────────────────────────────────────────
-  "36059": { name: "Nassau County",     state_rate: 0.04, county_rate: 0.04250, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08625, jurisdictions: ["New York State", "Nassau County", "MCTD"] },
-  "36103": { name: "Suffolk County",    state_rate: 0.04, county_rate: 0.04250, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08625, jurisdictions: ["New York State", "Suffolk County", "MCTD"] },
-  "36119": { name: "Westchester County",state_rate: 0.04, county_rate: 0.04000, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Westchester County", "MCTD"] },
-  "36087": { name: "Rockland County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Rockland County", "MCTD"] },
-  "36071": { name: "Orange County",     state_rate: 0.04, county_rate: 0.03750, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08125, jurisdictions: ["New York State", "Orange County", "MCTD"] },
-  "36027": { name: "Dutchess County",   state_rate: 0.04, county_rate: 0.03750, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08125, jurisdictions: ["New York State", "Dutchess County", "MCTD"] },
-  "36079": { name: "Putnam County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0.00375, special_rate: 0, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Putnam County", "MCTD"] },
+  "36059": { name: "Nassau County",     state_rate: 0.04, county_rate: 0.04250, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08625, jurisdictions: ["New York State", "Nassau County", "MCTD"], reporting_code: "2821" },
+  "36103": { name: "Suffolk County",    state_rate: 0.04, county_rate: 0.04250, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08625, jurisdictions: ["New York State", "Suffolk County", "MCTD"], reporting_code: "4711" },
+  "36119": { name: "Westchester County",state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Westchester County", "MCTD"], reporting_code: "5511" },
+  "36087": { name: "Rockland County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Rockland County", "MCTD"], reporting_code: "3921" },
+  "36071": { name: "Orange County",     state_rate: 0.04, county_rate: 0.03750, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08125, jurisdictions: ["New York State", "Orange County", "MCTD"], reporting_code: "3321" },
+  "36027": { name: "Dutchess County",   state_rate: 0.04, county_rate: 0.03750, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08125, jurisdictions: ["New York State", "Dutchess County", "MCTD"], reporting_code: "1321" },
+  "36079": { name: "Putnam County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0.00375, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Putnam County", "MCTD"], reporting_code: "3721" },
 
   // ── Hudson Valley ────────────────────────────────────────────────────────
-  "36111": { name: "Ulster County",     state_rate: 0.04, county_rate: 0.03750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.07750, jurisdictions: ["New York State", "Ulster County"] },
-  "36039": { name: "Greene County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Greene County"] },
-  "36021": { name: "Columbia County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Columbia County"] },
-  "36113": { name: "Warren County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Warren County"] },
-  "36115": { name: "Washington County", state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Washington County"] },
-  "36091": { name: "Saratoga County",   state_rate: 0.04, county_rate: 0.03000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.07000, jurisdictions: ["New York State", "Saratoga County"] },
+  "36111": { name: "Ulster County",     state_rate: 0.04, county_rate: 0.03750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.07750, jurisdictions: ["New York State", "Ulster County"], reporting_code: "5111" },
+  "36039": { name: "Greene County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Greene County"], clothing_exempt: true, reporting_code: "1921" },
+  "36021": { name: "Columbia County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Columbia County"], clothing_exempt: true, reporting_code: "1021" },
+  "36113": { name: "Warren County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Warren County"], reporting_code: "5211" },
+  "36115": { name: "Washington County", state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Washington County"], reporting_code: "5321" },
+  "36091": { name: "Saratoga County",   state_rate: 0.04, county_rate: 0.03000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.07000, jurisdictions: ["New York State", "Saratoga County"], reporting_code: "4121" },
 
   // ── Capital Region ───────────────────────────────────────────────────────
-  "36001": { name: "Albany County",       state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Albany County"] },
-  "36093": { name: "Schenectady County",  state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Schenectady County"] },
-  "36083": { name: "Rensselaer County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Rensselaer County"] },
-  "36035": { name: "Fulton County",       state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Fulton County"] },
-  "36057": { name: "Montgomery County",   state_rate: 0.04, county_rate: 0.04500, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08500, jurisdictions: ["New York State", "Montgomery County"] },
-  "36077": { name: "Otsego County",       state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Otsego County"] },
+  "36001": { name: "Albany County",       state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Albany County"], reporting_code: "0181" },
+  "36093": { name: "Schenectady County",  state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Schenectady County"], reporting_code: "4221" },
+  "36083": { name: "Rensselaer County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Rensselaer County"], reporting_code: "3821" },
+  "36035": { name: "Fulton County",       state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Fulton County"], reporting_code: "1721" },
+  "36057": { name: "Montgomery County",   state_rate: 0.04, county_rate: 0.04500, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08500, jurisdictions: ["New York State", "Montgomery County"], reporting_code: "2721" },
+  "36077": { name: "Otsego County",       state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Otsego County"], reporting_code: "3621" },
 
   // ── Adirondacks / North Country ──────────────────────────────────────────
-  "36019": { name: "Clinton County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Clinton County"] },
-  "36031": { name: "Essex County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Essex County"] },
-  "36033": { name: "Franklin County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Franklin County"] },
-  "36045": { name: "Jefferson County",  state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Jefferson County"] },
-  "36049": { name: "Lewis County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Lewis County"] },
-  "36089": { name: "St. Lawrence County",state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "St. Lawrence County"] },
-  "36041": { name: "Hamilton County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Hamilton County"] },
-  "36043": { name: "Herkimer County",   state_rate: 0.04, county_rate: 0.04250, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08250, jurisdictions: ["New York State", "Herkimer County"] },
+  "36019": { name: "Clinton County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Clinton County"], reporting_code: "0921" },
+  "36031": { name: "Essex County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Essex County"], reporting_code: "1521" },
+  "36033": { name: "Franklin County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Franklin County"], reporting_code: "1621" },
+  "36045": { name: "Jefferson County",  state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Jefferson County"], reporting_code: "2221" },
+  "36049": { name: "Lewis County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Lewis County"], reporting_code: "2321" },
+  "36089": { name: "St. Lawrence County",state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "St. Lawrence County"], reporting_code: "4021" },
+  "36041": { name: "Hamilton County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Hamilton County"], clothing_exempt: true, reporting_code: "2021" },
+  "36043": { name: "Herkimer County",   state_rate: 0.04, county_rate: 0.04250, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08250, jurisdictions: ["New York State", "Herkimer County"], reporting_code: "2121" },
 
   // ── Central NY ───────────────────────────────────────────────────────────
-  "36065": { name: "Oneida County",     state_rate: 0.04, county_rate: 0.04750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Oneida County"] },
-  "36067": { name: "Onondaga County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Onondaga County"] },
-  "36053": { name: "Madison County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Madison County"] },
-  "36055": { name: "Monroe County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Monroe County"] },
-  "36011": { name: "Cayuga County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Cayuga County"] },
-  "36099": { name: "Seneca County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Seneca County"] },
-  "36109": { name: "Tompkins County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Tompkins County"] },
-  "36107": { name: "Tioga County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Tioga County"] },
-  "36007": { name: "Broome County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Broome County"] },
-  "36023": { name: "Cortland County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Cortland County"] },
-  "36095": { name: "Schoharie County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Schoharie County"] },
-  "36097": { name: "Schuyler County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Schuyler County"] },
-  "36101": { name: "Steuben County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Steuben County"] },
-  "36009": { name: "Cattaraugus County",state_rate: 0.04, county_rate: 0.05000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.09000, jurisdictions: ["New York State", "Cattaraugus County"] },
-  "36003": { name: "Allegany County",   state_rate: 0.04, county_rate: 0.04500, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08500, jurisdictions: ["New York State", "Allegany County"] },
+  "36065": { name: "Oneida County",     state_rate: 0.04, county_rate: 0.04750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Oneida County"], reporting_code: "3031" },
+  "36067": { name: "Onondaga County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Onondaga County"], reporting_code: "3121" },
+  "36053": { name: "Madison County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Madison County"], reporting_code: "2521" },
+  "36055": { name: "Monroe County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Monroe County"], reporting_code: "2621" },
+  "36011": { name: "Cayuga County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Cayuga County"], reporting_code: "0511" },
+  "36099": { name: "Seneca County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Seneca County"], reporting_code: "4521" },
+  "36109": { name: "Tompkins County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Tompkins County"], reporting_code: "5021" },
+  "36107": { name: "Tioga County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Tioga County"], clothing_exempt: true, reporting_code: "4921" },
+  "36007": { name: "Broome County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Broome County"], reporting_code: "0321" },
+  "36023": { name: "Cortland County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Cortland County"], reporting_code: "1121" },
+  "36095": { name: "Schoharie County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Schoharie County"], reporting_code: "4321" },
+  "36097": { name: "Schuyler County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Schuyler County"], reporting_code: "4421" },
+  "36101": { name: "Steuben County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Steuben County"], reporting_code: "4621" },
+  "36009": { name: "Cattaraugus County",state_rate: 0.04, county_rate: 0.05000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.09000, jurisdictions: ["New York State", "Cattaraugus County"], reporting_code: "0481" },
+  "36003": { name: "Allegany County",   state_rate: 0.04, county_rate: 0.04500, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08500, jurisdictions: ["New York State", "Allegany County"], reporting_code: "0221" },
 
   // ── Finger Lakes / Western NY ────────────────────────────────────────────
-  "36051": { name: "Livingston County", state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Livingston County"] },
-  "36069": { name: "Ontario County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Ontario County"] },
-  "36117": { name: "Wayne County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Wayne County"] },
-  "36123": { name: "Yates County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Yates County"] },
-  "36029": { name: "Erie County",       state_rate: 0.04, county_rate: 0.04750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Erie County"] },
-  "36063": { name: "Niagara County",    state_rate: 0.04, county_rate: 0.04750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Niagara County"] },
-  "36015": { name: "Chemung County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Chemung County"] },
-  "36013": { name: "Chautauqua County", state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Chautauqua County"] },
-  "36017": { name: "Chenango County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Chenango County"] },
-  "36025": { name: "Delaware County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Delaware County"] },
-  "36037": { name: "Genesee County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Genesee County"] },
-  "36073": { name: "Orleans County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Orleans County"] },
-  "36075": { name: "Oswego County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Oswego County"] },
-  "36105": { name: "Sullivan County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Sullivan County"] },
-  "36121": { name: "Wyoming County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Wyoming County"] },
+  "36051": { name: "Livingston County", state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Livingston County"], reporting_code: "2421" },
+  "36069": { name: "Ontario County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Ontario County"], reporting_code: "3221" },
+  "36117": { name: "Wayne County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Wayne County"], clothing_exempt: true, reporting_code: "5421" },
+  "36123": { name: "Yates County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Yates County"], reporting_code: "5721" },
+  "36029": { name: "Erie County",       state_rate: 0.04, county_rate: 0.04750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Erie County"], reporting_code: "1441" },
+  "36063": { name: "Niagara County",    state_rate: 0.04, county_rate: 0.04750, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Niagara County"], reporting_code: "2921" },
+  "36015": { name: "Chemung County",      state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Chemung County"], reporting_code: "0711" },
+  "36013": { name: "Chautauqua County", state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Chautauqua County"], reporting_code: "0651" },
+  "36017": { name: "Chenango County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Chenango County"], clothing_exempt: true, reporting_code: "0861" },
+  "36025": { name: "Delaware County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Delaware County"], clothing_exempt: true, reporting_code: "1221" },
+  "36037": { name: "Genesee County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Genesee County"], reporting_code: "1811" },
+  "36073": { name: "Orleans County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Orleans County"], reporting_code: "3421" },
+  "36075": { name: "Oswego County",     state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Oswego County"], reporting_code: "3521" },
+  "36105": { name: "Sullivan County",   state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Sullivan County"], reporting_code: "4821" },
+  "36121": { name: "Wyoming County",    state_rate: 0.04, county_rate: 0.04000, city_rate: 0, special_rate: 0, composite_tax_rate: 0.08000, jurisdictions: ["New York State", "Wyoming County"], reporting_code: "5621" },
 };
 
+// ---------------------------------------------------------------------------
+// Cities with their own sales tax rate, keyed by 7-digit Census place GEOID
+//
+// Inside these cities the county collects a reduced share and the city levies
+// the rest, so each entry is a full rate record that replaces the county's.
+// Boundaries for these cities live in data/ny-places.json.
+// ---------------------------------------------------------------------------
+
+const NY_CITY_RATES: Record<string, CountyRate> = {
+  // ── Westchester County (MCTD) ───────────────────────────────────────────
+  "3684000": { name: "City of Yonkers (Westchester County)",      state_rate: 0.04, county_rate: 0.01500, city_rate: 0.03000, special_rate: 0.00375, composite_tax_rate: 0.08875, jurisdictions: ["New York State", "Westchester County", "City of Yonkers", "MCTD"], reporting_code: "6811" },
+  "3649121": { name: "City of Mount Vernon (Westchester County)", state_rate: 0.04, county_rate: 0.01500, city_rate: 0.02500, special_rate: 0.00375, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Westchester County", "City of Mount Vernon", "MCTD"], reporting_code: "6511" },
+  "3650617": { name: "City of New Rochelle (Westchester County)", state_rate: 0.04, county_rate: 0.01500, city_rate: 0.02500, special_rate: 0.00375, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Westchester County", "City of New Rochelle", "MCTD"], reporting_code: "6611" },
+  "3681677": { name: "City of White Plains (Westchester County)", state_rate: 0.04, county_rate: 0.01500, city_rate: 0.02500, special_rate: 0.00375, composite_tax_rate: 0.08375, jurisdictions: ["New York State", "Westchester County", "City of White Plains", "MCTD"], reporting_code: "6711" },
+
+  // ── Oneida County ───────────────────────────────────────────────────────
+  "3676540": { name: "City of Utica (Oneida County)",    state_rate: 0.04, county_rate: 0.02250, city_rate: 0.02500, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Oneida County", "City of Utica"], reporting_code: "3061" },
+  "3663418": { name: "City of Rome (Oneida County)",     state_rate: 0.04, county_rate: 0.02250, city_rate: 0.02500, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Oneida County", "City of Rome"], reporting_code: "3011" },
+  "3667070": { name: "City of Sherrill (Oneida County)", state_rate: 0.04, county_rate: 0.02250, city_rate: 0.02500, special_rate: 0, composite_tax_rate: 0.08750, jurisdictions: ["New York State", "Oneida County", "City of Sherrill"], reporting_code: "3021" },
+};
+
+// ---------------------------------------------------------------------------
+// Effective-dated rate tables — seed data
+//
+// Pub 718 is reissued whenever a locality changes its rate. Each edition is
+// kept as a full table with the date range it was in force, so historical
+// orders are taxed at the rate that applied when they were placed — not at
+// whatever the current table says.
+//
+// These tables only seed the tax_rates table on first start (see rates.ts).
+// After that the database is authoritative; publish new rates through
+// /api/rates rather than editing them here.
+// ---------------------------------------------------------------------------
+
+export interface RateTable {
+  /** Identifier stored on each order as `rate_version` */
+  version: string;
+  /** First day the table applies, inclusive (YYYY-MM-DD) */
+  effective_from: string;
+  /** Day the table stops applying, exclusive (YYYY-MM-DD); null while still in force */
+  effective_to: string | null;
+  /** County-level rates keyed by 5-digit county FIPS */
+  rates: Record<string, CountyRate>;
+  /** City rates keyed by 7-digit place GEOID; override the county entry inside the city */
+  cities: Record<string, CountyRate>;
+}
+
+/** Rate tables ordered oldest → newest; ranges must not overlap. */
+export const NY_RATE_TABLES: RateTable[] = [
+  {
+    // Before Westchester County raised its local rate from 3% to 4% (Aug 2023).
+    // Yonkers was 8.875% under both editions, so its city row is unchanged.
+    version: "PUB718-2023-03",
+    effective_from: "2023-03-01",
+    effective_to: "2023-08-01",
+    rates: {
+      ...NY_COUNTY_RATES,
+      "36119": { ...NY_COUNTY_RATES["36119"], county_rate: 0.03000, composite_tax_rate: 0.07375 },
+    },
+    cities: NY_CITY_RATES,
+  },
+  {
+    version: "PUB718-2023-08",
+    effective_from: "2023-08-01",
+    effective_to: null,
+    rates: NY_COUNTY_RATES,
+    cities: NY_CITY_RATES,
+  },
+];
+
 /**
- * Default fallback — used only when geocoder fails AND bounding-box also
- * cannot resolve the county. Logs a warning so the issue is visible.
+ * Default fallback — used only when no geocoder provider can place the point
+ * in a NY county. Logs a warning so the issue is visible.
  */
 const FALLBACK_RATE: CountyRate = {
   name: "New York State (fallback)",
@@ -193,59 +315,144 @@ const FALLBACK_RATE: CountyRate = {
 };
 
 // ---------------------------------------------------------------------------
-// Census Geocoder
+// Product taxability
+//
+// Each line item carries a taxability category that decides which rate
+// components apply to it:
+//   general              — fully taxable
+//   food                 — food for home consumption: exempt (Tax Law §1115(a)(1))
+//   nonprescription_drug — drugs and medicines for people, Rx or not: exempt (§1115(a)(3))
+//   medical_supply       — medical equipment and supplies: exempt (§1115(a)(3))
+//   clothing             — clothing and footwear under $110 per item: exempt from
+//                          the state rate and MCTD; local rates still apply unless
+//                          the locality elected the exemption (clothing_exempt).
+//                          Items at $110 or more are fully taxable.
 // ---------------------------------------------------------------------------
 
-interface CensusResult {
-  countyFips: string;   // 5-digit FIPS, e.g. "36081"
-  zip: string | null;
+export const TAX_CATEGORIES = ["general", "food", "nonprescription_drug", "medical_supply", "clothing"] as const;
+export type TaxCategory = typeof TAX_CATEGORIES[number];
+
+/** Per-item price at or above which clothing is fully taxable */
+export const CLOTHING_EXEMPTION_LIMIT = 110;
+const CLOTHING_EXEMPTION_LIMIT_CENTS = toCents(CLOTHING_EXEMPTION_LIMIT);
+
+export interface LineItemInput {
+  sku: string;
+  category: TaxCategory;
+  quantity: number;
+  unit_price: number;
+  description?: string;
+}
+
+export interface LineTax {
+  /** null for the implicit line of an order entered as a bare subtotal */
+  sku: string | null;
+  description?: string;
+  category: TaxCategory;
+  quantity: number;
+  unit_price: number;
+  /** quantity × unit_price */
+  amount: number;
+  amount_cents: Cents;
+  /** Sum of the rate components that apply to this line */
+  tax_rate: number;
+  tax_amount: number;
+  tax_cents: Cents;
+  /** Why the line is wholly or partly exempt; null when fully taxable */
+  exemption: string | null;
+}
+
+/** Which rate components a line is taxed at */
+interface ComponentMask {
+  state: boolean;
+  county: boolean;
+  city: boolean;
+  special: boolean;
+}
+
+const ALL_COMPONENTS: ComponentMask = { state: true, county: true, city: true, special: true };
+const NO_COMPONENTS: ComponentMask = { state: false, county: false, city: false, special: false };
+
+function taxabilityOf(category: TaxCategory, unitPrice: number, jurisdiction: CountyRate): { mask: ComponentMask; exemption: string | null } {
+  switch (category) {
+    case "food":
+      return { mask: NO_COMPONENTS, exemption: "food: exempt" };
+    case "nonprescription_drug":
+      return { mask: NO_COMPONENTS, exemption: "drugs and medicines: exempt" };
+    case "medical_supply":
+      return { mask: NO_COMPONENTS, exemption: "medical equipment and supplies: exempt" };
+    case "clothing":
+      if (toCents(unitPrice) >= CLOTHING_EXEMPTION_LIMIT_CENTS) return { mask: ALL_COMPONENTS, exemption: null };
+      if (jurisdiction.clothing_exempt) {
+        return { mask: NO_COMPONENTS, exemption: `clothing under $${CLOTHING_EXEMPTION_LIMIT}: exempt` };
+      }
+      return {
+        mask: { state: false, county: true, city: true, special: false },
+        exemption: `clothing under $${CLOTHING_EXEMPTION_LIMIT}: state and MCTD exempt`,
+      };
+    default:
+      return { mask: ALL_COMPONENTS, exemption: null };
+  }
 }
 
 /**
- * Resolves (lat, lon) → county FIPS code via the US Census Bureau Geocoder.
- *
- * Endpoint: https://geocoding.geo.census.gov/geocoder/geographies/coordinates
- * No API key required. Returns FIPS codes that we use to look up tax rates.
- *
- * Returns null on network failure or if the API returns no result — callers
- * should fall back gracefully.
+ * Validates raw line items from a request body or CSV column.
+ * Throws an Error naming the offending item on bad input.
  */
-async function resolveFipsFromCensus(lat: number, lon: number): Promise<CensusResult | null> {
-  const url = new URL("https://geocoding.geo.census.gov/geocoder/geographies/coordinates");
-  url.searchParams.set("x", String(lon));          // Census API uses x=lon, y=lat
-  url.searchParams.set("y", String(lat));
-  url.searchParams.set("benchmark", "Public_AR_Current");
-  url.searchParams.set("vintage", "Current_Current");
-  url.searchParams.set("layers", "Counties");
-  url.searchParams.set("format", "json");
-
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 8_000); // 8 s timeout
-
-    const res = await fetch(url.toString(), { signal: controller.signal as AbortSignal });
-    clearTimeout(timeout);
-
-    if (!res.ok) return null;
-
-    const json = (await res.json()) as any;
-    const geographies = json?.result?.geographies;
-    const counties: any[] = geographies?.Counties ?? geographies?.["Counties"] ?? [];
-
-    if (!counties.length) return null;
-
-    const county = counties[0];
-    // GEOID is the 5-digit FIPS: state (2) + county (3)
-    const countyFips: string = county.GEOID ?? (county.STATE + county.COUNTY);
-
-    // ZIP codes come from a separate Census layer; the coordinates endpoint
-    // doesn't return them directly — we derive zip from a second optional
-    // call or leave null (it's not critical for tax calculation).
-    return { countyFips, zip: null };
-  } catch {
-    // Network error, timeout, or parse failure — return null for fallback
-    return null;
+export function normalizeLineItems(raw: unknown): LineItemInput[] {
+  if (!Array.isArray(raw)) throw new Error("line_items must be an array");
+  return raw.map((item: any, i) => {
+    const where = `line_items[${i}]`;
+    if (!item || typeof item !== "object") throw new Error(`${where} must be an object`);
+    const sku = typeof item.sku === "string" ? item.sku.trim() : "";
+    if (!sku) throw new Error(`${where}.sku is required`);
+    const category = item.category ?? "general";
+    if (!TAX_CATEGORIES.includes(category)) {
+      throw new Error(`${where}.category must be one of: ${TAX_CATEGORIES.join(", ")}`);
+    }
+    const quantity = item.quantity == null ? 1 : Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) throw new Error(`${where}.quantity must be a positive integer`);
+    const unit_price = Number(item.unit_price);
+    if (item.unit_price == null || isNaN(unit_price) || unit_price < 0) {
+      throw new Error(`${where}.unit_price must be a non-negative number`);
+    }
+    const description = typeof item.description === "string" && item.description.trim() ? item.description.trim() : undefined;
+    return { sku, category, quantity, unit_price, ...(description ? { description } : {}) };
+  });
+}
+
+export interface OrderAmounts {
+  /** Pre-tax amount in dollars */
+  sub: number;
+  /** Validated line items, or null for an order entered as a bare subtotal */
+  items: LineItemInput[] | null;
+}
+
+/**
+ * Reads an order's amounts from either a bare subtotal or a line_items array.
+ * When both are given, the subtotal must match the items' total to the cent.
+ * Throws an Error with a user-facing message on bad input.
+ */
+export function parseOrderAmounts(subtotal: unknown, lineItems: unknown): OrderAmounts {
+  if (lineItems != null) {
+    const items = normalizeLineItems(lineItems);
+    const sum = lineItemsSubtotal(items);
+    if (subtotal != null && subtotal !== "" && parseCents(subtotal) !== toCents(sum)) {
+      throw new Error(`subtotal ${subtotal} does not match line_items total ${sum.toFixed(2)}`);
+    }
+    if (sum <= 0) throw new Error("subtotal must be positive");
+    return { sub: sum, items };
   }
+  const cents = parseCents(subtotal);
+  if (isNaN(cents)) throw new Error("Invalid numbers");
+  const sub = fromCents(cents);
+  if (sub <= 0) throw new Error("subtotal must be positive");
+  return { sub, items: null };
+}
+
+/** Sum of quantity × unit_price in dollars, computed in cents */
+export function lineItemsSubtotal(items: LineItemInput[]): number {
+  return fromCents(sumCents(items.map((item) => toCents(item.unit_price) * item.quantity)));
 }
 
 // ---------------------------------------------------------------------------
@@ -253,73 +460,199 @@ async function resolveFipsFromCensus(lat: number, lon: number): Promise<CensusRe
 // ---------------------------------------------------------------------------
 
 /**
- * Resolves the ZIP code for a coordinate pair via the Census Geocoder.
- * Kept for API compatibility with orders.ts.
- *
- * Note: the Census coordinates endpoint does not return ZIP codes in its
- * standard geography layers. This always returns null; tax calculation
- * uses county FIPS instead. ZIP is stored as null in the DB.
+ * Resolves the delivery ZIP code for a coordinate pair from the bundled
+ * ZCTA points (see geo.ts), searching only the ZIPs of the resolved county;
+ * null outside NY. ZIP is informational — tax is keyed by county FIPS.
  */
-export async function coordsToZip(_lat: number, _lon: number): Promise<string | null> {
-  return null;
+export async function coordsToZip(lat: number, lon: number, countyFips?: string | null): Promise<string | null> {
+  return findZip(lat, lon, countyFips)?.zip ?? null;
+}
+
+/** A resolved rate record plus where it applies and how it was found */
+export interface Jurisdiction extends CountyRate {
+  county_fips: string | null;
+  place_fips: string | null;
+  rate_version: string | null;
+  resolution: TaxResolution;
+}
+
+function toCountyRate(row: TaxRateRow): CountyRate {
+  const { name, state_rate, county_rate, city_rate, special_rate, composite_tax_rate, jurisdictions, clothing_exempt } = row;
+  return { name, state_rate, county_rate, city_rate, special_rate, composite_tax_rate, jurisdictions, clothing_exempt };
 }
 
 /**
  * Main entry point: resolve coordinates → jurisdiction → tax breakdown.
  *
  * Flow:
- *   1. Call Census Geocoder to get county FIPS.
- *   2. Look up county rates from official NYS table.
- *   3. On geocoder failure, warn and use DEFAULT_JURISDICTION as fallback.
+ *   1. Resolve county FIPS (see resolveCounty in geocoder.ts — cached).
+ *   2. Look up the county's rate row in force at `timestamp` (rates.ts — cached,
+ *      refreshed whenever rates are edited through the API).
+ *   3. If the point is inside a taxing city of that county, use the city rate.
+ *   4. If no county could be resolved, warn and use FALLBACK_RATE.
  */
-export async function resolveJurisdiction(lat: number, lon: number): Promise<CountyRate & { county_fips: string | null }> {
-  const census = await resolveFipsFromCensus(lat, lon);
-
-  if (census) {
-    const rate = NY_COUNTY_RATES[census.countyFips];
+export async function resolveJurisdiction(
+  lat: number,
+  lon: number,
+  timestamp?: string | null,
+): Promise<Jurisdiction> {
+  const county = await resolveCounty(lat, lon);
+  const countyFips = county.county_fips;
+  const resolution = (fallback: boolean): TaxResolution => ({ source: county.source, cached: county.cached, fallback });
+
+  if (countyFips) {
+    const date = effectiveDate(timestamp);
+    const rate = findRate(countyFips, date);
     if (rate) {
-      return { ...rate, county_fips: census.countyFips };
+      // A city polygon only counts if it agrees with the resolved county —
+      // guards against coarse city outlines spilling over a county line.
+      const place = findPlace(lat, lon);
+      const cityRate = place && place.county_fips === countyFips ? findRate(place.place_fips, date) : undefined;
+      if (place && cityRate) {
+        return {
+          ...toCountyRate(cityRate),
+          county_fips: countyFips,
+          place_fips: place.place_fips,
+          rate_version: cityRate.rate_version,
+          resolution: resolution(false),
+        };
+      }
+      return { ...toCountyRate(rate), county_fips: countyFips, place_fips: null, rate_version: rate.rate_version, resolution: resolution(false) };
     }
-    // FIPS resolved but not in our table (edge case: new county, data gap)
-    console.warn(`[tax] Unknown county FIPS ${census.countyFips} for (${lat}, ${lon}) — using fallback`);
+    // FIPS resolved but no rate in force (edge case: new county, retired row)
+    console.warn(`[tax] Unknown county FIPS ${countyFips} for (${lat}, ${lon}) — using fallback`);
   } else {
-    console.warn(`[tax] Census Geocoder unavailable for (${lat}, ${lon}) — using fallback`);
+    console.warn(`[tax] No NY county found for (${lat}, ${lon}) — using fallback`);
   }
 
-  return { ...FALLBACK_RATE, county_fips: null };
+  return { ...FALLBACK_RATE, county_fips: null, place_fips: null, rate_version: null, resolution: resolution(true) };
 }
 
 /**
  * Calculate the full tax breakdown for an order.
  *
- * @param subtotal  - Pre-tax order amount in USD
- * @param _zip      - Ignored (kept for API compatibility); ZIP is derived internally
+ * Lines are grouped by the set of rate components that apply to them. Tax is
+ * rounded once per group (not per line), then shared out to the group's lines
+ * and to the rate components, so an order of only general merchandise is
+ * taxed exactly as `subtotal × composite_tax_rate`.
+ *
+ * @param subtotal  - Pre-tax order amount in USD; ignored when `items` is given
+ * @param zip       - Delivery ZIP if already known; null → resolved from the coordinates
  * @param lat       - Delivery latitude
  * @param lon       - Delivery longitude
+ * @param timestamp - When the order was placed; selects the rate table (default: now)
+ * @param items     - Line items; omitted → one "general" line for the whole subtotal
  */
 export async function calculateTax(
   subtotal: number,
-  _zip: string | null,
+  zip: string | null,
   lat: number,
   lon: number,
+  timestamp?: string | null,
+  items?: LineItemInput[] | null,
 ): Promise<TaxBreakdown> {
-  const jurisdiction = await resolveJurisdiction(lat, lon);
+  const jurisdiction = await resolveJurisdiction(lat, lon, timestamp);
 
-  const tax_amount = Math.round(subtotal * jurisdiction.composite_tax_rate * 100) / 100;
-  const total_amount = Math.round((subtotal + tax_amount) * 100) / 100;
+  const inputs: (Omit<LineItemInput, "sku"> & { sku: string | null })[] = items?.length
+    ? items
+    : [{ sku: null, category: "general", quantity: 1, unit_price: subtotal }];
+
+  const rates = {
+    state: toRateUnits(jurisdiction.state_rate),
+    county: toRateUnits(jurisdiction.county_rate),
+    city: toRateUnits(jurisdiction.city_rate),
+    special: toRateUnits(jurisdiction.special_rate),
+  };
+  const components = { state: 0, county: 0, city: 0, special: 0 };
+
+  const rules = inputs.map((item) => taxabilityOf(item.category, item.unit_price, jurisdiction));
+  const lineRates = rules.map(({ mask }) =>
+    (Object.keys(rates) as (keyof ComponentMask)[]).reduce((sum, c) => sum + (mask[c] ? rates[c] : 0), 0)
+  );
+  const lines: LineTax[] = inputs.map((item, i) => {
+    const amount_cents = toCents(item.unit_price) * item.quantity;
+    return {
+      sku: item.sku,
+      ...(item.description ? { description: item.description } : {}),
+      category: item.category,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      amount: fromCents(amount_cents),
+      amount_cents,
+      tax_rate: fromRateUnits(lineRates[i]),
+      tax_amount: 0,
+      tax_cents: 0,
+      exemption: rules[i].exemption,
+    };
+  });
+
+  // Group lines taxed at the same components, round once per group
+  const groups = new Map<string, number[]>();
+  lines.forEach((_, i) => {
+    const key = JSON.stringify(rules[i].mask);
+    groups.set(key, [...(groups.get(key) ?? []), i]);
+  });
+
+  for (const indices of groups.values()) {
+    const mask = rules[indices[0]].mask;
+    const base = sumCents(indices.map((i) => lines[i].amount_cents));
+    const groupTax = applyRate(base, lineRates[indices[0]]);
+    if (groupTax === 0) continue;
+
+    // Share the group's tax out to its lines in proportion to amount
+    const shares = allocate(groupTax, indices.map((i) => lines[i].amount_cents));
+    indices.forEach((i, n) => {
+      lines[i].tax_cents = shares[n];
+      lines[i].tax_amount = fromCents(shares[n]);
+    });
+
+    // Same for the rate components; the largest component absorbs the remainder
+    const applied = (Object.keys(components) as (keyof ComponentMask)[]).filter((c) => mask[c] && rates[c] > 0);
+    let componentSum = 0;
+    for (const c of applied) {
+      const part = applyRate(base, rates[c]);
+      components[c] += part;
+      componentSum += part;
+    }
+    const largest = applied.reduce((a, b) => (rates[b] > rates[a] ? b : a), applied[0]);
+    if (largest) components[largest] += groupTax - componentSum;
+  }
+
+  const subtotal_cents = sumCents(lines.map((l) => l.amount_cents));
+  const taxable_cents = sumCents(lines.filter((l) => l.tax_rate > 0).map((l) => l.amount_cents));
+  const tax_cents = sumCents(lines.map((l) => l.tax_cents));
+  const total_cents = subtotal_cents + tax_cents;
 
   return {
-    zip_code: null,
+    subtotal: fromCents(subtotal_cents),
+    zip_code: zip ?? await coordsToZip(lat, lon, jurisdiction.county_fips),
     state: "NY",
     tax_region: jurisdiction.name,
     county_fips: jurisdiction.county_fips,
+    place_fips: jurisdiction.place_fips,
     state_rate: jurisdiction.state_rate,
     county_rate: jurisdiction.county_rate,
     city_rate: jurisdiction.city_rate,
     special_rate: jurisdiction.special_rate,
     composite_tax_rate: jurisdiction.composite_tax_rate,
-    tax_amount,
-    total_amount,
+    taxable_amount: fromCents(taxable_cents),
+    tax_amount: fromCents(tax_cents),
+    state_tax_amount: fromCents(components.state),
+    county_tax_amount: fromCents(components.county),
+    city_tax_amount: fromCents(components.city),
+    special_tax_amount: fromCents(components.special),
+    total_amount: fromCents(total_cents),
+    subtotal_cents,
+    taxable_cents,
+    tax_cents,
+    state_tax_cents: components.state,
+    county_tax_cents: components.county,
+    city_tax_cents: components.city,
+    special_tax_cents: components.special,
+    total_cents,
+    line_items: lines,
     jurisdictions: jurisdiction.jurisdictions,
+    rate_version: jurisdiction.rate_version,
+    resolution: jurisdiction.resolution,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,10 @@
+// Test setup: a throwaway database and the offline geocoder. Import it first in
+// a test file, before anything that loads db.ts or geocoder.ts — both read
+// their settings when they load.
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+process.env.DB_PATH = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "int20h-test-")), "orders.db");
+process.env.GEOCODER_PROVIDER = "offline";
+process.env.GEOCODER_CROSS_CHECK = "none";
@@ -3,11 +3,25 @@ import Login from "./components/Login";
 import ImportCSV from "./components/ImportCSV";
 import CreateOrder from "./components/CreateOrder";
 import OrdersTable from "./components/OrdersTable";
+import LiabilityReport from "./components/LiabilityReport";
+import Dashboard from "./components/Dashboard";
+import DeliveryMap from "./components/DeliveryMap";
 import { logout } from "./api";
 
+type View = "orders" | "dashboard" | "reports";
+
+const VIEWS: { id: View; label: string }[] = [
+  { id: "orders", label: "📋 Orders" },
+  { id: "dashboard", label: "📈 Dashboard" },
+  { id: "reports", label: "🧾 Reports" },
+];
+
 export default function App() {
   const [authed, setAuthed] = useState(!!localStorage.getItem("token"));
   const [refreshKey, setRefreshKey] = useState(0);
+  const [view, setView] = useState<View>("orders");
+  // County picked on the map; the orders table filters to it ("" clears the filter)
+  const [countySelection, setCountySelection] = useState<{ county_fips: string } | null>(null);
 
   function refresh() { setRefreshKey((k) => k + 1); }
 
@@ -63,6 +77,17 @@ export default function App() {
             <span style={styles.logoBg}>🚁</span>
             <h1 style={styles.logo}>Wellness Tax Admin</h1>
           </div>
+          <nav style={styles.nav}>
+            {VIEWS.map((v) => (
+              <button
+                key={v.id}
+                onClick={() => setView(v.id)}
+                style={view === v.id ? { ...styles.navBtn, ...styles.navBtnActive } : styles.navBtn}
+              >
+                {v.label}
+              </button>
+            ))}
+          </nav>
           <button onClick={handleLogout} style={styles.logoutBtn}>
             Logout
           </button>
@@ -72,20 +97,45 @@ export default function App() {
       {/* Main Content */}
       <main style={styles.main}>
         <div style={styles.container}>
-          {/* Import Section */}
-          <div style={{ ...styles.section, animation: 'slideUp 0.6s ease-out' }}>
-            <ImportCSV onSuccess={refresh} />
-          </div>
-
-          {/* Create Order Section */}
-          <div style={{ ...styles.section, animation: 'slideUp 0.7s ease-out' }}>
-            <CreateOrder onSuccess={refresh} />
-          </div>
-
-          {/* Orders Table Section */}
-          <div style={{ ...styles.section, animation: 'slideUp 0.8s ease-out' }}>
-            <OrdersTable refreshKey={refreshKey} />
-          </div>
+          {view === "dashboard" && (
+            <div style={{ ...styles.section, animation: 'slideUp 0.6s ease-out' }}>
+              <Dashboard refreshKey={refreshKey} />
+            </div>
+          )}
+
+          {view === "reports" && (
+            <div style={{ ...styles.section, animation: 'slideUp 0.6s ease-out' }}>
+              <LiabilityReport refreshKey={refreshKey} />
+            </div>
+          )}
+
+          {view === "orders" && (
+            <>
+              {/* Import Section */}
+              <div style={{ ...styles.section, animation: 'slideUp 0.6s ease-out' }}>
+                <ImportCSV onSuccess={refresh} />
+              </div>
+
+              {/* Create Order Section */}
+              <div style={{ ...styles.section, animation: 'slideUp 0.7s ease-out' }}>
+                <CreateOrder onSuccess={refresh} />
+              </div>
+
+              {/* Delivery Map Section */}
+              <div style={{ ...styles.section, animation: 'slideUp 0.8s ease-out' }}>
+                <DeliveryMap
+                  refreshKey={refreshKey}
+                  selected={countySelection?.county_fips || null}
+                  onSelectCounty={(fips) => setCountySelection({ county_fips: fips ?? "" })}
+                />
+              </div>
+
+              {/* Orders Table Section */}
+              <div style={{ ...styles.section, animation: 'slideUp 0.9s ease-out' }}>
+                <OrdersTable refreshKey={refreshKey} countySelection={countySelection} />
+              </div>
+            </>
+          )}
         </div>
       </main>
     </div>
@@ -144,6 +194,30 @@ const styles: Record<string, React.CSSProperties> = {
     letterSpacing: "-0.5px",
   },
 
+  nav: {
+    display: "flex",
+    gap: 8,
+    marginLeft: "auto",
+    marginRight: 16,
+  },
+
+  navBtn: {
+    padding: "10px 16px",
+    background: "transparent",
+    color: "rgba(255, 255, 255, 0.8)",
+    border: "1px solid transparent",
+    borderRadius: 10,
+    cursor: "pointer",
+    fontSize: 14,
+    fontWeight: 600,
+  },
+
+  navBtnActive: {
+    background: "rgba(255, 255, 255, 0.2)",
+    color: "#fff",
+    borderColor: "rgba(255, 255, 255, 0.3)",
+  },
+
   logoutBtn: {
     padding: "10px 20px",
     background: "rgba(255, 255, 255, 0.15)",
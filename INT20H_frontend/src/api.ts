@@ -1,3 +1,33 @@
+export type TaxCategory = "general" | "food" | "nonprescription_drug" | "medical_supply" | "clothing";
+
+export const TAX_CATEGORIES: { value: TaxCategory; label: string }[] = [
+  { value: "general", label: "General merchandise" },
+  { value: "food", label: "Food / grocery" },
+  { value: "nonprescription_drug", label: "Non-prescription drug" },
+  { value: "medical_supply", label: "Medical supply" },
+  { value: "clothing", label: "Clothing / footwear" },
+];
+
+export interface LineItemInput {
+  sku: string;
+  category: TaxCategory;
+  quantity: number;
+  unit_price: number;
+  description?: string;
+}
+
+export interface LineTax {
+  sku: string | null;
+  description?: string;
+  category: TaxCategory;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  tax_rate: number;
+  tax_amount: number;
+  exemption: string | null;
+}
+
 export interface Order {
   id: number;
   latitude: number;
@@ -8,15 +38,32 @@ export interface Order {
   state: string;
   tax_region: string;
   county_fips: string | null;
+  place_fips: string | null;
   state_rate: number;
   county_rate: number;
   city_rate: number;
   special_rate: number;
   composite_tax_rate: number;
+  taxable_amount: number;
   tax_amount: number;
+  state_tax_amount: number;
+  county_tax_amount: number;
+  city_tax_amount: number;
+  special_tax_amount: number;
   total_amount: number;
   jurisdictions: string[];
+  line_items: LineTax[];
+  rate_version: string | null;
   created_at: string;
+  /** Set while the order is in the trash */
+  deleted_at: string | null;
+  delete_reason: string | null;
+  /** Sums of the order's refunds, before tax and tax reversed */
+  refunded_amount: number;
+  refunded_tax_amount: number;
+  /** Tax and total left after refunds */
+  net_tax_amount: number;
+  net_total_amount: number;
 }
 
 export interface OrdersResponse {
@@ -24,15 +71,108 @@ export interface OrdersResponse {
   page: number;
   limit: number;
   pages: number;
+  /** Sums over every order matching the filters (computed in cents server-side) */
+  totals?: {
+    subtotal: number;
+    tax_amount: number;
+    refunded_tax_amount: number;
+    net_tax_amount: number;
+    total_amount: number;
+  };
+  /** Trash listings only: days before a deleted order can be purged */
+  retention_days?: number;
   orders: Order[];
 }
 
+/** Machine-readable reason an import row was rejected */
+export type RowErrorCode =
+  | "INVALID_ID"
+  | "INVALID_NUMBER"
+  | "INVALID_TIMESTAMP"
+  | "INVALID_LINE_ITEMS"
+  | "NON_POSITIVE_SUBTOTAL"
+  | "OUTSIDE_NY"
+  | "GEOCODER_FAILURE"
+  | "DUPLICATE_ID"
+  | "ORDER_REFUNDED"
+  | "ORDER_DELETED"
+  | "INTERNAL_ERROR";
+
 export interface ImportResult {
   success: number;
   failed: number;
-  errors: { original_id: string; error: string }[];
+  errors: { row?: number; original_id: string; code?: RowErrorCode; error: string }[];
+}
+
+export type ImportFormat = "csv" | "jsonl" | "xlsx";
+
+export const IMPORT_FIELDS = ["id", "latitude", "longitude", "timestamp", "subtotal", "line_items"] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/** Saved column mapping and parsing options for a partner's files */
+export interface ImportProfile {
+  id: number;
+  name: string;
+  /** null detects the format from the file extension */
+  format: ImportFormat | null;
+  delimiter: string;
+  decimal_separator: "." | ",";
+  /** e.g. "DD.MM.YYYY HH:mm", "unix", "unix_ms"; null keeps timestamps as they are */
+  timestamp_format: string | null;
+  /** Source column per field; unmapped fields use the field name */
+  columns: Partial<Record<ImportField, string>>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ImportProfileInput = Omit<ImportProfile, "id" | "created_at" | "updated_at">;
+
+export type ImportJobStatus = "queued" | "running" | "cancelling" | "done" | "cancelled" | "failed";
+
+/** A background import job — survives page reloads and server restarts */
+export interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  dry_run: boolean;
+  filename: string | null;
+  total_rows: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  rolled_back: number | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/** What an import did — or, for a dry run, would do */
+export interface ImportSummary {
+  rows: number;
+  valid: number;
+  failed: number;
+  inserts: number;
+  overwrites: number;
+  totals: { subtotal: number; tax_amount: number; total_amount: number };
+  counties: {
+    county_fips: string | null;
+    name: string;
+    orders: number;
+    subtotal: number;
+    tax_amount: number;
+    total_amount: number;
+  }[];
 }
 
+/** Events from GET /api/imports/:id/events */
+export type ImportJobEvent =
+  | { type: "job"; job: ImportJob }
+  | { type: "progress"; processed: number; id: number | null }
+  | ({ type: "done"; dry_run: boolean; summary: ImportSummary; failures_url: string | null } & ImportResult)
+  | { type: "cancelled"; rolledBack: number }
+  | { type: "failed"; error: string | null };
+
 const BASE = "/api";
 
 function getToken() {
@@ -65,26 +205,93 @@ export async function logout() {
   });
 }
 
-export async function getOrders(params: {
-  page?: number;
-  limit?: number;
-  region?: string;    // partial case-insensitive match on tax_region
+/** Filters shared by the orders list and export; empty values are ignored */
+export interface OrderFilters {
+  region?: string;          // partial case-insensitive match on tax_region
+  zip?: string;             // 5-digit ZIP, or a prefix such as "100"
   min_total?: string;
   max_total?: string;
-}): Promise<OrdersResponse> {
+  from?: string;            // order date, YYYY-MM-DD, inclusive
+  to?: string;
+  county_fips?: string;     // one or more FIPS codes, comma-separated
+  jurisdiction?: string;    // e.g. "MCTD", "New York City"
+  min_rate?: string;        // composite rate as a decimal, e.g. "0.08"
+  max_rate?: string;
+  import_session?: string;  // import job id
+  fallback?: "" | "true" | "false";  // taxed at the state fallback rate
+  refunded?: "" | "true" | "false";  // has at least one refund
+}
+
+export type OrderSortColumn =
+  | "id" | "timestamp" | "tax_region" | "zip_code" | "county_fips" | "subtotal"
+  | "composite_tax_rate" | "tax_amount" | "total_amount" | "created_at" | "deleted_at";
+
+type OrdersQuery = OrderFilters & {
+  page?: number;
+  limit?: number;
+  sort?: OrderSortColumn;
+  order?: "asc" | "desc";
+};
+
+async function fetchOrders(path: string, params: OrdersQuery): Promise<OrdersResponse> {
   const q = new URLSearchParams();
   Object.entries(params).forEach(([k, v]) => {
     if (v !== undefined && v !== "") q.set(k, String(v));
   });
-  const res = await fetch(`${BASE}/orders?${q}`, { headers: headers() });
-  if (!res.ok) throw new Error("Failed to fetch orders");
-  return res.json();
+  const res = await fetch(`${BASE}${path}?${q}`, { headers: headers() });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to fetch orders");
+  return json;
+}
+
+export async function getOrders(params: OrdersQuery): Promise<OrdersResponse> {
+  return fetchOrders("/orders", params);
+}
+
+/** Orders in the trash, newest deletion first unless sorted otherwise */
+export async function getTrash(params: OrdersQuery): Promise<OrdersResponse> {
+  return fetchOrders("/orders/trash", params);
+}
+
+/** Moves orders back out of the trash; returns how many were restored */
+export async function restoreOrders(ids: number[]): Promise<number> {
+  const res = await fetch(`${BASE}/orders/restore`, {
+    method: "POST",
+    headers: headers(),
+    body: JSON.stringify({ ids }),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to restore orders");
+  return json.restored;
+}
+
+/** Permanently removes orders past the trash retention period; returns how many */
+export async function purgeTrash(): Promise<number> {
+  const res = await fetch(`${BASE}/orders/trash`, {
+    method: "DELETE",
+    headers: headers(),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to purge trash");
+  return json.purged;
+}
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+/** Downloads every order matching the list filters, with the full tax breakdown. */
+export async function exportOrders(format: ExportFormat, filters: OrderFilters): Promise<void> {
+  const q = new URLSearchParams({ format });
+  Object.entries(filters).forEach(([k, v]) => {
+    if (v !== undefined && v !== "") q.set(k, v);
+  });
+  await downloadFile(`${BASE}/orders/export?${q}`, `orders.${format}`);
 }
 
 export async function createOrder(data: {
   latitude: number;
   longitude: number;
-  subtotal: number;
+  subtotal?: number;
+  line_items?: LineItemInput[];
   timestamp?: string;
 }): Promise<Order> {
   const res = await fetch(`${BASE}/orders`, {
@@ -97,6 +304,40 @@ export async function createOrder(data: {
   return json;
 }
 
+/**
+ * Changes an order's location, timestamp or amounts; the server recalculates
+ * its tax. A bare subtotal replaces any itemized lines.
+ */
+export async function updateOrder(id: number, changes: {
+  latitude?: number;
+  longitude?: number;
+  subtotal?: number;
+  line_items?: LineItemInput[];
+  timestamp?: string;
+}): Promise<Order> {
+  const res = await fetch(`${BASE}/orders/${id}`, {
+    method: "PATCH",
+    headers: headers(),
+    body: JSON.stringify(changes),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to update order");
+  return json;
+}
+
+/** Moves an order to the trash */
+export async function deleteOrder(id: number, reason?: string): Promise<void> {
+  const res = await fetch(`${BASE}/orders/${id}`, {
+    method: "DELETE",
+    headers: headers(),
+    body: JSON.stringify({ reason }),
+  });
+  if (!res.ok) {
+    const json = await res.json().catch(() => ({}));
+    throw new Error(json.error || "Failed to delete order");
+  }
+}
+
 export async function importOrders(file: File): Promise<ImportResult> {
   const form = new FormData();
   form.append("file", file);
@@ -110,10 +351,370 @@ export async function importOrders(file: File): Promise<ImportResult> {
   return json;
 }
 
-export async function clearOrders(): Promise<void> {
+/**
+ * Uploads a CSV, JSON Lines or .xlsx file and queues it as an import job; rows
+ * are processed in the background. A dry run validates and prices the rows
+ * without writing orders; `profile` applies a saved import profile.
+ */
+export async function startImport(
+  file: File,
+  { dryRun = false, profile }: { dryRun?: boolean; profile?: number } = {}
+): Promise<ImportJob> {
+  const form = new FormData();
+  form.append("file", file);
+  const q = new URLSearchParams();
+  if (dryRun) q.set("dry_run", "true");
+  if (profile != null) q.set("profile", String(profile));
+  const res = await fetch(`${BASE}/imports?${q}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${getToken()}` },
+    body: form,
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Import failed");
+  return json;
+}
+
+/**
+ * Follows an import job's event stream until it finishes or the signal aborts.
+ * Safe to call again for the same job — the first event is always its current state.
+ */
+export async function watchImport(
+  id: string,
+  onEvent: (event: ImportJobEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const res = await fetch(`${BASE}/imports/${encodeURIComponent(id)}/events`, {
+    headers: { Authorization: `Bearer ${getToken()}` },
+    signal,
+  });
+  if (res.status === 404) throw new Error("Import job not found");
+  if (!res.ok || !res.body) throw new Error("Failed to follow import");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) onEvent(JSON.parse(line.slice(5).trim()));
+    }
+  }
+}
+
+/** Imports the rows of a finished dry run for real; returns the new job. */
+export async function commitImport(id: string): Promise<ImportJob> {
+  const res = await fetch(`${BASE}/imports/${encodeURIComponent(id)}/commit`, {
+    method: "POST",
+    headers: headers(),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Import failed");
+  return json;
+}
+
+export async function downloadImportPreview(id: string): Promise<void> {
+  await downloadFile(`${BASE}/imports/${encodeURIComponent(id)}/preview.csv`, "import-preview.csv");
+}
+
+/** Every failed row of an import, in the standard columns, ready to fix and re-upload. */
+export async function downloadImportFailures(id: string): Promise<void> {
+  await downloadFile(`${BASE}/imports/${encodeURIComponent(id)}/failures.csv`, "import-failures.csv");
+}
+
+// Downloads need the auth header, so fetch the file and save it via an object URL
+async function downloadFile(url: string, fallbackName: string): Promise<void> {
+  const res = await fetch(url, { headers: { Authorization: `Bearer ${getToken()}` } });
+  if (!res.ok) throw new Error("Download failed");
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const name = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  const href = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(href);
+}
+
+export async function cancelImport(id: string): Promise<void> {
+  const res = await fetch(`${BASE}/imports/${encodeURIComponent(id)}/cancel`, {
+    method: "POST",
+    headers: headers(),
+  });
+  if (!res.ok) {
+    const json = await res.json().catch(() => ({}));
+    throw new Error(json.error || "Failed to cancel import");
+  }
+}
+
+export async function getImportProfiles(): Promise<ImportProfile[]> {
+  const res = await fetch(`${BASE}/import-profiles`, { headers: headers() });
+  if (!res.ok) throw new Error("Failed to fetch import profiles");
+  return (await res.json()).profiles;
+}
+
+export async function saveImportProfile(data: ImportProfileInput, id?: number): Promise<ImportProfile> {
+  const res = await fetch(id != null ? `${BASE}/import-profiles/${id}` : `${BASE}/import-profiles`, {
+    method: id != null ? "PATCH" : "POST",
+    headers: headers(),
+    body: JSON.stringify(data),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to save import profile");
+  return json;
+}
+
+export async function deleteImportProfile(id: number): Promise<void> {
+  const res = await fetch(`${BASE}/import-profiles/${id}`, {
+    method: "DELETE",
+    headers: headers(),
+  });
+  if (!res.ok) throw new Error("Failed to delete import profile");
+}
+
+/** Moves every order to the trash */
+export async function clearOrders(reason?: string): Promise<void> {
   const res = await fetch(`${BASE}/orders`, {
     method: "DELETE",
     headers: headers(),
+    body: JSON.stringify({ reason }),
   });
   if (!res.ok) throw new Error("Failed to clear orders");
-}
\ No newline at end of file
+}
+
+/** Amounts summed over a set of orders, net of the refunds dated in the period */
+export interface LiabilityAmounts {
+  order_count: number;
+  refund_count: number;
+  gross_sales: number;
+  taxable_sales: number;
+  tax_collected: number;
+  state_tax: number;
+  local_tax: number;   // county + city
+  mctd_tax: number;
+  refunded_tax: number;  // already subtracted from tax_collected
+}
+
+/** One jurisdiction at one composite rate */
+export interface LiabilityLine extends LiabilityAmounts {
+  county_fips: string | null;
+  place_fips: string | null;
+  name: string;
+  composite_tax_rate: number;
+  state_rate: number;
+  local_rate: number;
+  mctd_rate: number;
+}
+
+export interface LiabilityReport {
+  from: string;
+  to: string;
+  jurisdictions: LiabilityLine[];
+  totals: LiabilityAmounts;
+}
+
+/** Tax liability per jurisdiction for orders dated from..to (inclusive) */
+export async function getLiabilityReport(from: string, to: string): Promise<LiabilityReport> {
+  const q = new URLSearchParams({ from, to });
+  const res = await fetch(`${BASE}/reports/liability?${q}`, { headers: headers() });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to load report");
+  return json;
+}
+
+export async function downloadLiabilityReport(from: string, to: string): Promise<void> {
+  const q = new URLSearchParams({ from, to, format: "csv" });
+  await downloadFile(`${BASE}/reports/liability?${q}`, "liability.csv");
+}
+
+/** One ST-100 worksheet line: taxable sales × rate = tax due */
+export interface St100Line {
+  reporting_code: string | null;
+  jurisdiction: string;
+  taxable_sales: number;
+  rate: number;
+  tax_due: number;
+  order_count: number;
+}
+
+export interface St100Worksheet {
+  from: string;
+  to: string;
+  lines: St100Line[];
+  mctd: St100Line[];
+  unassigned_orders: number;
+  total_taxable_sales: number;
+  total_tax_due: number;
+}
+
+/** Form ST-100 worksheet lines per jurisdiction reporting code for from..to */
+export async function getSt100Worksheet(from: string, to: string): Promise<St100Worksheet> {
+  const q = new URLSearchParams({ from, to });
+  const res = await fetch(`${BASE}/reports/st100?${q}`, { headers: headers() });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to load ST-100 worksheet");
+  return json;
+}
+
+export async function downloadSt100Csv(from: string, to: string): Promise<void> {
+  const q = new URLSearchParams({ from, to, format: "csv" });
+  await downloadFile(`${BASE}/reports/st100?${q}`, "st100.csv");
+}
+
+/** Opens the printable ST-100 worksheet in a new tab; print it to save a PDF. */
+export async function openSt100Worksheet(from: string, to: string): Promise<void> {
+  // Open the tab before awaiting so popup blockers treat it as user-initiated
+  const tab = window.open("", "_blank");
+  const q = new URLSearchParams({ from, to, format: "html" });
+  const res = await fetch(`${BASE}/reports/st100?${q}`, { headers: { Authorization: `Bearer ${getToken()}` } });
+  if (!res.ok) {
+    tab?.close();
+    throw new Error("Failed to open ST-100 worksheet");
+  }
+  const href = URL.createObjectURL(await res.blob());
+  if (tab) tab.location.href = href;
+  else window.location.href = href;
+}
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+/** One bucket of the analytics series; amounts in dollars */
+export interface AnalyticsPoint {
+  period: string;      // first day of the bucket, YYYY-MM-DD (weeks start on Monday)
+  orders: number;
+  revenue: number;     // before tax
+  tax: number;
+}
+
+export interface CountyAnalytics {
+  county_fips: string | null;
+  name: string;
+  orders: number;
+  revenue: number;
+  tax: number;
+}
+
+export interface OrderAnalytics {
+  interval: AnalyticsInterval;
+  summary: {
+    orders: number;
+    revenue: number;
+    tax: number;
+    total: number;
+    average_order_value: number;
+    average_effective_rate: number;  // tax / revenue
+  };
+  series: AnalyticsPoint[];
+  top_counties: CountyAnalytics[];
+}
+
+/** KPI totals, a time series and the top counties by tax for orders matching the filters */
+export async function getAnalytics(
+  params: OrderFilters & { interval?: AnalyticsInterval; top?: number }
+): Promise<OrderAnalytics> {
+  const q = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => {
+    if (v !== undefined && v !== "") q.set(k, String(v));
+  });
+  const res = await fetch(`${BASE}/orders/analytics?${q}`, { headers: headers() });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to load analytics");
+  return json;
+}
+
+/** Orders snapped to one grid cell, at their average position */
+export interface MapCluster {
+  latitude: number;
+  longitude: number;
+  orders: number;
+  tax: number;
+}
+
+export interface OrderMap {
+  cell: number;                 // grid size in degrees
+  counties: CountyAnalytics[];  // every county with orders
+  clusters: MapCluster[];
+}
+
+/** GeoJSON county outline; id is the 5-digit county FIPS */
+export interface CountyFeature {
+  id: string;
+  properties: { name: string };
+  geometry: { type: "Polygon" | "MultiPolygon"; coordinates: any };
+}
+
+/** County totals and clustered order locations on a `cell`-degree grid */
+export async function getOrderMap(cell: number, filters: OrderFilters = {}): Promise<OrderMap> {
+  const q = new URLSearchParams({ cell: String(cell) });
+  Object.entries(filters).forEach(([k, v]) => {
+    if (v !== undefined && v !== "") q.set(k, String(v));
+  });
+  const res = await fetch(`${BASE}/orders/map?${q}`, { headers: headers() });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to load map");
+  return json;
+}
+
+/** The bundled NY county outlines the map is drawn from */
+export async function getCountyBoundaries(): Promise<CountyFeature[]> {
+  const res = await fetch(`${BASE}/orders/map/counties`, { headers: headers() });
+  if (!res.ok) throw new Error("Failed to load county boundaries");
+  return (await res.json()).features;
+}
+
+/** A full or partial refund of an order; amounts are positive */
+export interface Refund {
+  id: number;
+  order_id: number;
+  kind: "full" | "partial";
+  reason: string | null;
+  amount: number;          // before tax
+  taxable_amount: number;
+  tax_amount: number;      // tax reversed
+  state_tax_amount: number;
+  county_tax_amount: number;
+  city_tax_amount: number;
+  special_tax_amount: number;
+  total_amount: number;    // paid back to the customer
+  refunded_at: string;
+  created_at: string;
+}
+
+export interface OrderRefunds {
+  order: Order;
+  refunds: Refund[];
+  refundable_amount: number;
+  refundable_tax: number;
+}
+
+export async function getRefunds(orderId: number): Promise<OrderRefunds> {
+  const res = await fetch(`${BASE}/orders/${orderId}/refunds`, { headers: headers() });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to load refunds");
+  return json;
+}
+
+/**
+ * Records a refund: `amount` (before tax) for a partial one, or `full: true`
+ * for everything left. The tax is reversed at the order's composite rate.
+ */
+export async function createRefund(orderId: number, refund: {
+  amount?: number;
+  full?: boolean;
+  reason?: string;
+  refunded_at?: string;
+}): Promise<OrderRefunds & { refund: Refund }> {
+  const res = await fetch(`${BASE}/orders/${orderId}/refunds`, {
+    method: "POST",
+    headers: headers(),
+    body: JSON.stringify(refund),
+  });
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Failed to record refund");
+  return json;
+}
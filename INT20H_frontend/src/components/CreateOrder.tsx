@@ -1,12 +1,22 @@
 import { useState, useEffect, useRef } from "react";
-import { createOrder, Order } from "../api";
+import { createOrder, Order, TaxCategory, TAX_CATEGORIES } from "../api";
 
 interface Props {
   onSuccess: () => void;
 }
 
+interface ItemRow {
+  sku: string;
+  category: TaxCategory;
+  quantity: string;
+  unit_price: string;
+}
+
+const EMPTY_ITEM: ItemRow = { sku: "", category: "general", quantity: "1", unit_price: "" };
+
 export default function CreateOrder({ onSuccess }: Props) {
   const [form, setForm] = useState({ latitude: "", longitude: "", subtotal: "" });
+  const [items, setItems] = useState<ItemRow[]>([]);
   const [result, setResult] = useState<Order | null>(null);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
@@ -30,20 +40,45 @@ export default function CreateOrder({ onSuccess }: Props) {
     setError("");
   }
 
+  function setItem(index: number, field: keyof ItemRow, value: string) {
+    setItems((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    setError("");
+  }
+
+  const itemsTotal = items.reduce(
+    (sum, it) => sum + (parseFloat(it.quantity) || 0) * (parseFloat(it.unit_price) || 0),
+    0
+  );
+
   async function handleCreate() {
     const lat = parseFloat(form.latitude);
     const lon = parseFloat(form.longitude);
     const sub = parseFloat(form.subtotal);
-    if (isNaN(lat) || isNaN(lon) || isNaN(sub)) {
+    if (isNaN(lat) || isNaN(lon) || (!items.length && isNaN(sub))) {
       setError("All fields are required and must be numbers");
       return;
     }
+    const lineItems = items.map((it) => ({
+      sku: it.sku.trim(),
+      category: it.category,
+      quantity: parseFloat(it.quantity),
+      unit_price: parseFloat(it.unit_price),
+    }));
+    if (lineItems.some((it) => !it.sku || isNaN(it.quantity) || isNaN(it.unit_price))) {
+      setError("Each item needs a SKU, quantity and unit price");
+      return;
+    }
     setLoading(true);
     setError("");
     setResult(null);
     try {
-      const order = await createOrder({ latitude: lat, longitude: lon, subtotal: sub });
+      const order = await createOrder(
+        lineItems.length
+          ? { latitude: lat, longitude: lon, line_items: lineItems }
+          : { latitude: lat, longitude: lon, subtotal: sub }
+      );
       setForm({ latitude: "", longitude: "", subtotal: "" });
+      setItems([]);
       setResult(order);
       setTimeout(() => onSuccess(), 100);
     } catch (e: any) {
@@ -109,17 +144,80 @@ export default function CreateOrder({ onSuccess }: Props) {
           <span style={styles.labelText}>Subtotal ($)</span>
           <input
             className="input-focus"
-            style={styles.input}
+            style={{ ...styles.input, ...(items.length ? styles.inputDisabled : {}) }}
             type="number"
             step="0.01"
             min="0.01"
             placeholder="120.00"
-            value={form.subtotal}
+            disabled={items.length > 0}
+            value={items.length ? itemsTotal.toFixed(2) : form.subtotal}
             onChange={(e) => set("subtotal", e.target.value)}
           />
         </label>
       </div>
 
+      <div style={styles.items}>
+        <div style={styles.itemsHeader}>
+          <span style={styles.labelText}>Line items (optional)</span>
+          <button
+            type="button"
+            style={styles.addBtn}
+            onClick={() => setItems((rows) => [...rows, { ...EMPTY_ITEM }])}
+          >
+            + Add item
+          </button>
+        </div>
+        {items.map((it, i) => (
+          <div key={i} style={styles.itemRow}>
+            <input
+              className="input-focus"
+              style={styles.input}
+              placeholder="SKU"
+              value={it.sku}
+              onChange={(e) => setItem(i, "sku", e.target.value)}
+            />
+            <select
+              className="input-focus"
+              style={styles.input}
+              value={it.category}
+              onChange={(e) => setItem(i, "category", e.target.value)}
+            >
+              {TAX_CATEGORIES.map((c) => (
+                <option key={c.value} value={c.value}>{c.label}</option>
+              ))}
+            </select>
+            <input
+              className="input-focus"
+              style={styles.input}
+              type="number"
+              step="any"
+              min="0"
+              placeholder="Qty"
+              value={it.quantity}
+              onChange={(e) => setItem(i, "quantity", e.target.value)}
+            />
+            <input
+              className="input-focus"
+              style={styles.input}
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="Unit price"
+              value={it.unit_price}
+              onChange={(e) => setItem(i, "unit_price", e.target.value)}
+            />
+            <button
+              type="button"
+              style={styles.removeBtn}
+              title="Remove item"
+              onClick={() => setItems((rows) => rows.filter((_, j) => j !== i))}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
       {error && <p style={styles.error}>{error}</p>}
 
       <button
@@ -224,6 +322,50 @@ const styles: Record<string, React.CSSProperties> = {
     boxShadow: "inset 0 2px 4px rgba(0, 0, 0, 0.05)",
   },
 
+  inputDisabled: {
+    background: "rgba(243, 244, 246, 0.8)",
+    color: "#6b7280",
+  },
+
+  items: {
+    marginBottom: 20,
+  },
+
+  itemsHeader: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+
+  itemRow: {
+    display: "grid",
+    gridTemplateColumns: "1.2fr 1.4fr 0.6fr 0.8fr auto",
+    gap: 10,
+    marginBottom: 10,
+  },
+
+  addBtn: {
+    padding: "6px 12px",
+    background: "rgba(102, 126, 234, 0.1)",
+    color: "#667eea",
+    border: "1px solid rgba(102, 126, 234, 0.3)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontSize: 13,
+    fontWeight: 600,
+  },
+
+  removeBtn: {
+    padding: "0 12px",
+    background: "rgba(239, 68, 68, 0.08)",
+    color: "#ef4444",
+    border: "1px solid rgba(239, 68, 68, 0.2)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontSize: 13,
+  },
+
   error: {
     color: "#ef4444",
     fontSize: 13,
@@ -0,0 +1,388 @@
+import { useEffect, useState } from "react";
+import { getAnalytics, OrderAnalytics, AnalyticsInterval, AnalyticsPoint } from "../api";
+
+interface Props {
+  refreshKey: number;
+}
+
+type Metric = "revenue" | "tax" | "orders";
+
+const METRICS: { id: Metric; label: string }[] = [
+  { id: "revenue", label: "Revenue" },
+  { id: "tax", label: "Tax" },
+  { id: "orders", label: "Orders" },
+];
+
+const INTERVALS: { id: AnalyticsInterval; label: string }[] = [
+  { id: "day", label: "Daily" },
+  { id: "week", label: "Weekly" },
+  { id: "month", label: "Monthly" },
+];
+
+const money = (v: number) => `$${v.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Axis labels: $12.3k, $1.2M */
+function compact(v: number, metric: Metric): string {
+  const prefix = metric === "orders" ? "" : "$";
+  if (Math.abs(v) >= 1e6) return `${prefix}${(v / 1e6).toFixed(1)}M`;
+  if (Math.abs(v) >= 1e3) return `${prefix}${(v / 1e3).toFixed(1)}k`;
+  return `${prefix}${metric === "orders" ? v : v.toFixed(0)}`;
+}
+
+function formatPeriod(period: string, interval: AnalyticsInterval): string {
+  const d = new Date(`${period}T00:00:00`);
+  if (interval === "month") return d.toLocaleString("en-US", { month: "short", year: "numeric" });
+  return d.toLocaleString("en-US", { month: "short", day: "numeric" });
+}
+
+/** Rounds the series maximum up to 1, 2 or 5 × 10ⁿ so gridlines land on even values */
+function niceMax(v: number): number {
+  if (v <= 0) return 1;
+  const step = 10 ** Math.floor(Math.log10(v));
+  return ([1, 2, 5, 10].find((m) => m * step >= v) ?? 10) * step;
+}
+
+const CHART_W = 760;
+const CHART_H = 240;
+const PAD = { top: 12, right: 12, bottom: 28, left: 56 };
+
+/** Column chart of one metric over time, drawn as SVG so it scales with the card */
+function SeriesChart({ series, metric, interval }: { series: AnalyticsPoint[]; metric: Metric; interval: AnalyticsInterval }) {
+  const max = niceMax(Math.max(...series.map((p) => p[metric])));
+  const plotW = CHART_W - PAD.left - PAD.right;
+  const plotH = CHART_H - PAD.top - PAD.bottom;
+  const slot = plotW / series.length;
+  const barW = Math.max(1, slot * 0.7);
+  // At most ~10 x-axis labels however long the series is
+  const labelEvery = Math.ceil(series.length / 10);
+  const y = (v: number) => PAD.top + plotH - (v / max) * plotH;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} style={{ width: "100%", height: "auto" }} role="img">
+      {[0, 0.25, 0.5, 0.75, 1].map((f) => (
+        <g key={f}>
+          <line x1={PAD.left} x2={CHART_W - PAD.right} y1={y(max * f)} y2={y(max * f)} stroke="rgba(0, 0, 0, 0.08)" />
+          <text x={PAD.left - 8} y={y(max * f) + 4} textAnchor="end" fontSize={11} fill="#6b7280">
+            {compact(max * f, metric)}
+          </text>
+        </g>
+      ))}
+      {series.map((p, i) => {
+        const x = PAD.left + i * slot + (slot - barW) / 2;
+        return (
+          <g key={p.period}>
+            <rect x={x} y={y(p[metric])} width={barW} height={PAD.top + plotH - y(p[metric])} rx={Math.min(4, barW / 4)} fill="url(#bar)">
+              <title>
+                {formatPeriod(p.period, interval)}: {p.orders} orders · {money(p.revenue)} revenue · {money(p.tax)} tax
+              </title>
+            </rect>
+            {i % labelEvery === 0 && (
+              <text x={x + barW / 2} y={CHART_H - 8} textAnchor="middle" fontSize={11} fill="#6b7280">
+                {formatPeriod(p.period, interval)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <defs>
+        <linearGradient id="bar" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stopColor="#667eea" />
+          <stop offset="100%" stopColor="#764ba2" />
+        </linearGradient>
+      </defs>
+    </svg>
+  );
+}
+
+export default function Dashboard({ refreshKey }: Props) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [region, setRegion] = useState("");
+  const [groupBy, setGroupBy] = useState<AnalyticsInterval>("day");
+  const [metric, setMetric] = useState<Metric>("revenue");
+  const [data, setData] = useState<OrderAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    getAnalytics({ from, to, region, interval: groupBy })
+      .then((r) => { if (!cancelled) setData(r); })
+      .catch((e) => { if (!cancelled) setError(e.message); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [from, to, region, groupBy, refreshKey]);
+
+  const s = data?.summary;
+  const kpis = s ? [
+    { label: "Orders", value: s.orders.toLocaleString("en-US") },
+    { label: "Revenue", value: money(s.revenue) },
+    { label: "Tax collected", value: money(s.tax) },
+    { label: "Avg order value", value: money(s.average_order_value) },
+    { label: "Avg effective rate", value: `${(s.average_effective_rate * 100).toFixed(3)}%` },
+  ] : [];
+  const topTax = data?.top_counties[0]?.tax || 1;
+
+  return (
+    <div style={styles.card}>
+      <div style={styles.header}>
+        <span style={styles.icon}>📈</span>
+        <h3 style={styles.title}>Dashboard</h3>
+      </div>
+
+      <div style={styles.filters}>
+        <input style={styles.input} type="date" title="From date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        <input style={styles.input} type="date" title="To date" value={to} onChange={(e) => setTo(e.target.value)} />
+        <input
+          style={{ ...styles.input, width: 200 }}
+          placeholder="Region (e.g. Bronx, Albany)"
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+        />
+        <select style={styles.input} value={groupBy} onChange={(e) => setGroupBy(e.target.value as AnalyticsInterval)}>
+          {INTERVALS.map((i) => <option key={i.id} value={i.id}>{i.label}</option>)}
+        </select>
+      </div>
+
+      {error && <p style={styles.error}>{error}</p>}
+      {loading && !data && <p style={styles.loading}>Loading dashboard...</p>}
+
+      {data && s && (
+        s.orders === 0 ? (
+          <p style={styles.info}>No orders match these filters.</p>
+        ) : (
+          <>
+            <div style={styles.kpis}>
+              {kpis.map((k) => (
+                <div key={k.label} style={styles.kpi}>
+                  <div style={styles.kpiLabel}>{k.label}</div>
+                  <div style={styles.kpiValue}>{k.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div style={styles.section}>
+              <div style={styles.toolbar}>
+                <h4 style={{ ...styles.subtitle, margin: "0 auto 0 0" }}>Over time</h4>
+                {METRICS.map((m) => (
+                  <button
+                    key={m.id}
+                    onClick={() => setMetric(m.id)}
+                    style={metric === m.id ? { ...styles.toggle, ...styles.toggleActive } : styles.toggle}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+              <SeriesChart series={data.series} metric={metric} interval={data.interval} />
+            </div>
+
+            <div style={styles.section}>
+              <h4 style={styles.subtitle}>Top counties by tax</h4>
+              {data.top_counties.map((c) => (
+                <div key={c.county_fips ?? c.name} style={styles.barRow}>
+                  <span style={styles.barLabel} title={c.county_fips ?? undefined}>{c.name}</span>
+                  <div style={styles.barTrack}>
+                    <div style={{ ...styles.bar, width: `${(c.tax / topTax) * 100}%` }} />
+                  </div>
+                  <span style={styles.barValue}>{money(c.tax)}</span>
+                  <span style={styles.barMeta}>{c.orders.toLocaleString("en-US")} orders</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  card: {
+    background: "rgba(255, 255, 255, 0.95)",
+    backdropFilter: "blur(10px)",
+    borderRadius: 16,
+    padding: 28,
+    boxShadow: "0 8px 32px rgba(0, 0, 0, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.5)",
+  },
+
+  header: {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 20,
+  },
+
+  icon: {
+    fontSize: 24,
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: 40,
+    height: 40,
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    borderRadius: 12,
+    boxShadow: "0 4px 12px rgba(102, 126, 234, 0.3)",
+  },
+
+  title: {
+    margin: 0,
+    fontSize: 18,
+    fontWeight: 700,
+    color: "#1a1a2e",
+    letterSpacing: "-0.5px",
+  },
+
+  filters: {
+    display: "flex",
+    gap: 8,
+    marginBottom: 16,
+    flexWrap: "wrap",
+  },
+
+  input: {
+    padding: "10px 12px",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 10,
+    fontSize: 13,
+    width: 150,
+    background: "rgba(255, 255, 255, 0.6)",
+    boxShadow: "inset 0 2px 4px rgba(0, 0, 0, 0.05)",
+  },
+
+  error: {
+    color: "#dc2626",
+    fontSize: 13,
+    padding: "10px 12px",
+    background: "rgba(239, 68, 68, 0.1)",
+    borderRadius: 8,
+    margin: "0 0 16px 0",
+  },
+
+  loading: {
+    color: "#6b7280",
+    fontSize: 13,
+    textAlign: "center",
+    padding: "20px",
+  },
+
+  info: {
+    color: "#6b7280",
+    fontSize: 13,
+    fontWeight: 500,
+  },
+
+  kpis: {
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fit, minmax(150px, 1fr))",
+    gap: 12,
+  },
+
+  kpi: {
+    padding: "14px 16px",
+    background: "linear-gradient(135deg, rgba(102, 126, 234, 0.08), rgba(118, 75, 162, 0.08))",
+    border: "1.5px solid rgba(102, 126, 234, 0.15)",
+    borderRadius: 12,
+  },
+
+  kpiLabel: {
+    fontSize: 11,
+    fontWeight: 700,
+    color: "#667eea",
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+    marginBottom: 6,
+  },
+
+  kpiValue: {
+    fontSize: 20,
+    fontWeight: 700,
+    color: "#1a1a2e",
+  },
+
+  section: {
+    marginTop: 28,
+    paddingTop: 20,
+    borderTop: "1.5px solid rgba(102, 126, 234, 0.15)",
+  },
+
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+
+  subtitle: {
+    margin: "0 0 12px 0",
+    fontSize: 15,
+    fontWeight: 700,
+    color: "#1a1a2e",
+  },
+
+  toggle: {
+    padding: "6px 12px",
+    background: "transparent",
+    border: "1.5px solid rgba(102, 126, 234, 0.3)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 600,
+    color: "#667eea",
+  },
+
+  toggleActive: {
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    borderColor: "transparent",
+    color: "white",
+  },
+
+  barRow: {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    padding: "6px 0",
+    fontSize: 13,
+  },
+
+  barLabel: {
+    width: 200,
+    flexShrink: 0,
+    color: "#374151",
+    fontWeight: 500,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+
+  barTrack: {
+    flex: 1,
+    height: 14,
+    background: "rgba(102, 126, 234, 0.08)",
+    borderRadius: 7,
+    overflow: "hidden",
+  },
+
+  bar: {
+    height: "100%",
+    background: "linear-gradient(90deg, #667eea, #764ba2)",
+    borderRadius: 7,
+  },
+
+  barValue: {
+    width: 110,
+    textAlign: "right",
+    fontWeight: 700,
+    color: "#16a34a",
+  },
+
+  barMeta: {
+    width: 90,
+    textAlign: "right",
+    color: "#6b7280",
+    fontSize: 12,
+  },
+};
@@ -0,0 +1,370 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getOrderMap, getCountyBoundaries, CountyFeature, OrderMap, CountyAnalytics } from "../api";
+
+interface Props {
+  refreshKey: number;
+  /** County FIPS the orders table is filtered to, if any */
+  selected: string | null;
+  /** Called with a county FIPS on click, or null when the selected county is clicked again */
+  onSelectCounty: (fips: string | null) => void;
+}
+
+type Shading = "tax" | "orders";
+
+interface ViewBox {
+  x: number;
+  y: number;
+  w: number;
+}
+
+/** SVG units per degree of latitude */
+const K = 100;
+const MAX_ZOOM = 32;
+
+const money = (v: number) => `$${v.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Equirectangular projection scaled by cos(latitude) at the state's centre,
+ * which keeps NY's shape within a few percent without a projection library.
+ */
+function makeProjection(features: CountyFeature[]) {
+  let minLon = Infinity, maxLon = -Infinity, minLat = Infinity, maxLat = -Infinity;
+  for (const f of features) {
+    const polygons = f.geometry.type === "Polygon" ? [f.geometry.coordinates] : f.geometry.coordinates;
+    for (const poly of polygons) {
+      for (const [lon, lat] of poly[0]) {
+        minLon = Math.min(minLon, lon); maxLon = Math.max(maxLon, lon);
+        minLat = Math.min(minLat, lat); maxLat = Math.max(maxLat, lat);
+      }
+    }
+  }
+  const kx = K * Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  return {
+    width: (maxLon - minLon) * kx,
+    height: (maxLat - minLat) * K,
+    project: (lon: number, lat: number): [number, number] => [(lon - minLon) * kx, (maxLat - lat) * K],
+  };
+}
+
+/** Light lavender → brand purple; `t` in 0..1 */
+function shade(t: number): string {
+  const from = [238, 240, 251], to = [91, 63, 158];
+  return `rgb(${from.map((c, i) => Math.round(c + (to[i] - c) * t)).join(", ")})`;
+}
+
+/** Grid size for the zoom level: halves each time the zoom doubles */
+function cellFor(zoom: number): number {
+  return Math.max(0.00625, 0.2 / 2 ** Math.floor(Math.log2(zoom)));
+}
+
+export default function DeliveryMap({ refreshKey, selected, onSelectCounty }: Props) {
+  const [features, setFeatures] = useState<CountyFeature[]>([]);
+  const [data, setData] = useState<OrderMap | null>(null);
+  const [shading, setShading] = useState<Shading>("tax");
+  const [view, setView] = useState<ViewBox | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [pxWidth, setPxWidth] = useState(800);
+  const [error, setError] = useState("");
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Set while the pointer is down; `moved` tells a pan from a click
+  const drag = useRef<{ x: number; y: number; view: ViewBox; moved: boolean } | null>(null);
+
+  const projection = useMemo(() => (features.length ? makeProjection(features) : null), [features]);
+  const paths = useMemo(() => {
+    if (!projection) return [];
+    const ring = (r: number[][]) =>
+      "M" + r.map(([lon, lat]) => projection.project(lon, lat).map((v) => v.toFixed(2)).join(",")).join("L") + "Z";
+    return features.map((f) => {
+      const polygons = f.geometry.type === "Polygon" ? [f.geometry.coordinates] : f.geometry.coordinates;
+      return { fips: f.id, name: f.properties.name, d: polygons.flat().map(ring).join("") };
+    });
+  }, [features, projection]);
+
+  const zoom = projection && view ? projection.width / view.w : 1;
+  const cell = cellFor(zoom);
+
+  useEffect(() => {
+    getCountyBoundaries()
+      .then((f) => {
+        setFeatures(f);
+        setView({ x: 0, y: 0, w: makeProjection(f).width });
+      })
+      .catch((e) => setError(e.message));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getOrderMap(cell)
+      .then((m) => { if (!cancelled) setData(m); })
+      .catch((e) => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [cell, refreshKey]);
+
+  // Circle sizes are in screen pixels, so track how wide the map is drawn
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(([entry]) => setPxWidth(entry.contentRect.width || 800));
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, [projection]);
+
+  /** Zooms by `factor` around (sx, sy) in SVG units, keeping the view inside the state */
+  function zoomAt(factor: number, sx?: number, sy?: number) {
+    if (!projection) return;
+    setView((v) => {
+      if (!v) return v;
+      const h = v.w * (projection.height / projection.width);
+      const cx = sx ?? v.x + v.w / 2, cy = sy ?? v.y + h / 2;
+      const w = Math.min(projection.width, Math.max(projection.width / MAX_ZOOM, v.w / factor));
+      const r = w / v.w;
+      return clamp({ x: cx - (cx - v.x) * r, y: cy - (cy - v.y) * r, w });
+    });
+  }
+
+  function clamp(v: ViewBox): ViewBox {
+    if (!projection) return v;
+    const h = v.w * (projection.height / projection.width);
+    return {
+      x: Math.min(Math.max(v.x, 0), projection.width - v.w),
+      y: Math.min(Math.max(v.y, 0), projection.height - h),
+      w: v.w,
+    };
+  }
+
+  // React registers wheel listeners as passive, so scrolling the page can only be stopped natively
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !view) return;
+    function onWheel(e: WheelEvent) {
+      e.preventDefault();
+      const rect = svg!.getBoundingClientRect();
+      const unit = view!.w / rect.width;
+      zoomAt(e.deltaY < 0 ? 1.25 : 0.8, view!.x + (e.clientX - rect.left) * unit, view!.y + (e.clientY - rect.top) * unit);
+    }
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [view, projection]);
+
+  function handlePointerDown(e: React.PointerEvent) {
+    if (!view) return;
+    drag.current = { x: e.clientX, y: e.clientY, view, moved: false };
+  }
+
+  function handlePointerMove(e: React.PointerEvent) {
+    const d = drag.current;
+    if (!d || !svgRef.current) return;
+    const dx = e.clientX - d.x, dy = e.clientY - d.y;
+    if (!d.moved && Math.hypot(dx, dy) < 4) return;
+    if (!d.moved) svgRef.current.setPointerCapture(e.pointerId);
+    d.moved = true;
+    const unit = d.view.w / svgRef.current.getBoundingClientRect().width;
+    setView(clamp({ x: d.view.x - dx * unit, y: d.view.y - dy * unit, w: d.view.w }));
+  }
+
+  function handleCountyClick(fips: string) {
+    if (drag.current?.moved) return;
+    onSelectCounty(fips === selected ? null : fips);
+  }
+
+  const byFips = new Map<string, CountyAnalytics>((data?.counties ?? []).map((c) => [c.county_fips ?? "", c]));
+  const max = Math.max(1, ...(data?.counties ?? []).map((c) => c[shading]));
+  const unit = view ? view.w / pxWidth : 1;
+  const info = hovered ?? selected;
+  const infoCounty = info ? byFips.get(info) : undefined;
+  const infoName = infoCounty?.name ?? (info ? paths.find((p) => p.fips === info)?.name : undefined);
+
+  return (
+    <div style={styles.card}>
+      <div style={styles.header}>
+        <span style={styles.icon}>🗺️</span>
+        <h3 style={styles.title}>Delivery map</h3>
+        <div style={styles.controls}>
+          {(["tax", "orders"] as Shading[]).map((s) => (
+            <button
+              key={s}
+              onClick={() => setShading(s)}
+              style={shading === s ? { ...styles.toggle, ...styles.toggleActive } : styles.toggle}
+            >
+              {s === "tax" ? "Tax collected" : "Order count"}
+            </button>
+          ))}
+          <button onClick={() => zoomAt(2)} style={styles.toggle} title="Zoom in">＋</button>
+          <button onClick={() => zoomAt(0.5)} style={styles.toggle} title="Zoom out">－</button>
+          <button onClick={() => projection && setView({ x: 0, y: 0, w: projection.width })} style={styles.toggle} title="Reset view">⟲</button>
+        </div>
+      </div>
+
+      {error && <p style={styles.error}>{error}</p>}
+
+      {projection && view && (
+        <>
+          <svg
+            ref={svgRef}
+            viewBox={`${view.x} ${view.y} ${view.w} ${view.w * (projection.height / projection.width)}`}
+            style={styles.map}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setTimeout(() => { drag.current = null; })}
+            onPointerLeave={() => setHovered(null)}
+          >
+            {paths.map((p) => {
+              const c = byFips.get(p.fips);
+              return (
+                <path
+                  key={p.fips}
+                  d={p.d}
+                  fill={c ? shade(Math.sqrt(c[shading] / max)) : "#f3f4f6"}
+                  stroke={p.fips === selected ? "#1a1a2e" : "white"}
+                  strokeWidth={p.fips === selected ? 2.5 : 1}
+                  vectorEffect="non-scaling-stroke"
+                  style={{ cursor: "pointer" }}
+                  onMouseEnter={() => setHovered(p.fips)}
+                  onClick={() => handleCountyClick(p.fips)}
+                />
+              );
+            })}
+            {data?.clusters.map((c) => {
+              const [x, y] = projection.project(c.longitude, c.latitude);
+              const r = Math.min(24, 3 + Math.sqrt(c.orders) * 0.8);
+              return (
+                <g key={`${c.latitude},${c.longitude}`} style={{ pointerEvents: "none" }}>
+                  <circle cx={x} cy={y} r={r * unit} fill="rgba(245, 158, 11, 0.75)" stroke="white" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                  {r >= 10 && (
+                    <text x={x} y={y} dy="0.35em" textAnchor="middle" fontSize={10 * unit} fontWeight={700} fill="#1a1a2e">
+                      {c.orders >= 1000 ? `${(c.orders / 1000).toFixed(1)}k` : c.orders}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          <div style={styles.footer}>
+            <span style={styles.info}>
+              {info
+                ? `${infoName ?? info} — ${(infoCounty?.orders ?? 0).toLocaleString("en-US")} orders · ${money(infoCounty?.tax ?? 0)} tax`
+                : "Click a county to filter the orders below; scroll or use ＋/－ to zoom, drag to pan."}
+            </span>
+            <span style={styles.legend}>
+              0
+              <span style={{ ...styles.legendBar, background: `linear-gradient(90deg, ${shade(0)}, ${shade(1)})` }} />
+              {shading === "tax" ? money(max) : max.toLocaleString("en-US")}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  card: {
+    background: "rgba(255, 255, 255, 0.95)",
+    backdropFilter: "blur(10px)",
+    borderRadius: 16,
+    padding: 28,
+    boxShadow: "0 8px 32px rgba(0, 0, 0, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.5)",
+  },
+
+  header: {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 20,
+    flexWrap: "wrap",
+  },
+
+  icon: {
+    fontSize: 24,
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: 40,
+    height: 40,
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    borderRadius: 12,
+    boxShadow: "0 4px 12px rgba(102, 126, 234, 0.3)",
+  },
+
+  title: {
+    margin: 0,
+    fontSize: 18,
+    fontWeight: 700,
+    color: "#1a1a2e",
+    letterSpacing: "-0.5px",
+  },
+
+  controls: {
+    display: "flex",
+    gap: 6,
+    marginLeft: "auto",
+  },
+
+  toggle: {
+    padding: "6px 12px",
+    background: "transparent",
+    border: "1.5px solid rgba(102, 126, 234, 0.3)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 600,
+    color: "#667eea",
+  },
+
+  toggleActive: {
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    borderColor: "transparent",
+    color: "white",
+  },
+
+  error: {
+    color: "#dc2626",
+    fontSize: 13,
+    padding: "10px 12px",
+    background: "rgba(239, 68, 68, 0.1)",
+    borderRadius: 8,
+    margin: "0 0 16px 0",
+  },
+
+  map: {
+    width: "100%",
+    height: "auto",
+    display: "block",
+    background: "rgba(102, 126, 234, 0.04)",
+    borderRadius: 12,
+    touchAction: "none",
+    userSelect: "none",
+  },
+
+  footer: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 16,
+    marginTop: 12,
+    flexWrap: "wrap",
+  },
+
+  info: {
+    color: "#6b7280",
+    fontSize: 13,
+    fontWeight: 500,
+  },
+
+  legend: {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: 8,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+
+  legendBar: {
+    display: "inline-block",
+    width: 120,
+    height: 10,
+    borderRadius: 5,
+  },
+};
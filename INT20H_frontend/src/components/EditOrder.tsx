@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { updateOrder, Order } from "../api";
+
+interface Props {
+  order: Order;
+  onSaved: (order: Order) => void;
+  onCancel: () => void;
+}
+
+export default function EditOrder({ order, onSaved, onCancel }: Props) {
+  const [form, setForm] = useState({
+    latitude: String(order.latitude),
+    longitude: String(order.longitude),
+    timestamp: order.timestamp,
+    subtotal: order.subtotal.toFixed(2),
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const itemized = order.line_items?.some((li) => li.sku) ?? false;
+
+  function set(field: keyof typeof form, value: string) {
+    setForm((f) => ({ ...f, [field]: value }));
+    setError("");
+  }
+
+  async function handleSave() {
+    const lat = parseFloat(form.latitude);
+    const lon = parseFloat(form.longitude);
+    const sub = parseFloat(form.subtotal);
+    if (isNaN(lat) || isNaN(lon) || isNaN(sub) || !form.timestamp.trim()) {
+      setError("All fields are required and coordinates and subtotal must be numbers");
+      return;
+    }
+    // Only send what changed, so an itemized order keeps its lines unless the subtotal is edited
+    const changes: Parameters<typeof updateOrder>[1] = {};
+    if (lat !== order.latitude) changes.latitude = lat;
+    if (lon !== order.longitude) changes.longitude = lon;
+    if (form.timestamp.trim() !== order.timestamp) changes.timestamp = form.timestamp.trim();
+    if (form.subtotal !== order.subtotal.toFixed(2)) changes.subtotal = sub;
+    if (!Object.keys(changes).length) {
+      onCancel();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      onSaved(await updateOrder(order.id, changes));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.grid}>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Latitude</span>
+          <input style={styles.input} value={form.latitude} onChange={(e) => set("latitude", e.target.value)} />
+        </label>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Longitude</span>
+          <input style={styles.input} value={form.longitude} onChange={(e) => set("longitude", e.target.value)} />
+        </label>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Timestamp</span>
+          <input style={styles.input} value={form.timestamp} onChange={(e) => set("timestamp", e.target.value)} />
+        </label>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Subtotal</span>
+          <input style={styles.input} type="number" value={form.subtotal} onChange={(e) => set("subtotal", e.target.value)} />
+        </label>
+      </div>
+
+      {itemized && (
+        <p style={styles.hint}>Changing the subtotal replaces this order's line items with a single general line.</p>
+      )}
+      {error && <div style={styles.error}>❌ {error}</div>}
+
+      <div style={styles.actions}>
+        <button onClick={handleSave} disabled={saving} style={styles.saveBtn}>
+          {saving ? "Recalculating..." : "Save & recalculate"}
+        </button>
+        <button onClick={onCancel} disabled={saving} style={styles.cancelBtn}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    marginTop: 12,
+    padding: 14,
+    background: "rgba(255, 255, 255, 0.6)",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 10,
+  },
+
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(4, 1fr)",
+    gap: 12,
+    marginBottom: 12,
+  },
+
+  label: {
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+  },
+
+  labelText: {
+    fontSize: 11,
+    fontWeight: 600,
+    color: "#4b5563",
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+  },
+
+  input: {
+    padding: "8px 10px",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 8,
+    fontSize: 13,
+    color: "#1a1a2e",
+    background: "rgba(255, 255, 255, 0.8)",
+  },
+
+  hint: {
+    margin: "0 0 12px 0",
+    fontSize: 12,
+    color: "#6b7280",
+  },
+
+  error: {
+    marginBottom: 12,
+    padding: "8px 12px",
+    borderRadius: 8,
+    fontSize: 13,
+    background: "rgba(239, 68, 68, 0.1)",
+    border: "1px solid rgba(239, 68, 68, 0.3)",
+    color: "#dc2626",
+  },
+
+  actions: {
+    display: "flex",
+    gap: 10,
+  },
+
+  saveBtn: {
+    padding: "8px 16px",
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    color: "#fff",
+    border: "none",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 13,
+  },
+
+  cancelBtn: {
+    padding: "8px 14px",
+    background: "transparent",
+    color: "#6b7280",
+    border: "1.5px solid rgba(0, 0, 0, 0.1)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontSize: 13,
+  },
+};
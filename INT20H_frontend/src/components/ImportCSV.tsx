@@ -1,20 +1,59 @@
 import { useState, useRef, useEffect } from "react";
-import { ImportResult } from "../api";
+import ImportProfiles from "./ImportProfiles";
+import {
+  ImportResult,
+  ImportSummary,
+  ImportProfile,
+  ImportJobEvent,
+  startImport,
+  watchImport,
+  cancelImport,
+  commitImport,
+  downloadImportPreview,
+  downloadImportFailures,
+  getImportProfiles,
+} from "../api";
 
 interface Props {
   onSuccess: () => void;
 }
 
+// The running job's id is kept here so a reload reattaches to it
+const JOB_KEY = "importJobId";
+
+interface Preview {
+  jobId: string;
+  summary: ImportSummary;
+  errors: ImportResult["errors"];
+}
+
+const fmt = (n: number) => n.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
 export default function ImportCSV({ onSuccess }: Props) {
-  const [result, setResult] = useState<ImportResult | null>(null);
+  const [result, setResult] = useState<(ImportResult & { jobId: string }) | null>(null);
   const [loading, setLoading] = useState(false);
   const [cancelled, setCancelled] = useState(false);
   const [rolledBack, setRolledBack] = useState(0);
   const [error, setError] = useState("");
   const [rowCount, setRowCount] = useState<number | null>(null);
   const [processed, setProcessed] = useState(0);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [dryRun, setDryRun] = useState(false);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState<number | null>(null);
+  const [editingProfiles, setEditingProfiles] = useState(false);
   const fileRef = useRef<HTMLInputElement>(null);
-  const sessionIdRef = useRef<string | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  const dryRunRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Reattach to a job started before the page was reloaded
+  useEffect(() => {
+    const saved = localStorage.getItem(JOB_KEY);
+    if (saved) follow(saved);
+    getImportProfiles().then(setProfiles).catch(() => {});
+    return () => abortRef.current?.abort();
+  }, []);
 
   useEffect(() => {
     if (!cancelled) return;
@@ -28,42 +67,94 @@ export default function ImportCSV({ onSuccess }: Props) {
     return () => clearTimeout(t);
   }, [error]);
 
+  // A clean result fades; one with failures stays until the rows are downloaded or a new file is picked
   useEffect(() => {
-    if (!result) return;
+    if (!result || result.failed > 0) return;
     const t = setTimeout(() => setResult(null), 5000);
     return () => clearTimeout(t);
   }, [result]);
 
   function handleFileChange() {
     setResult(null);
+    setPreview(null);
     setError("");
     setRowCount(null);
     setProcessed(0);
     setCancelled(false);
     const file = fileRef.current?.files?.[0];
     if (!file) return;
+    // Only plain-text files can be counted up front; the server reports the rest
+    if (/\.xlsx$/i.test(file.name)) return;
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
       const lines = text.split("\n").filter((l) => l.trim().length > 0);
-      setRowCount(Math.max(0, lines.length - 1));
+      const headerLines = /\.(jsonl|ndjson)$/i.test(file.name) ? 0 : 1;
+      setRowCount(Math.max(0, lines.length - headerLines));
     };
     reader.readAsText(file);
   }
 
   async function handleCancel() {
-    const sessionId = sessionIdRef.current;
-    if (!sessionId) return;
-
-    const token = localStorage.getItem("token") || "";
-    await fetch("/api/orders/import/cancel", {
-      method: "POST",
-      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-      body: JSON.stringify({ sessionId }),
-    });
+    const jobId = jobIdRef.current;
+    if (!jobId) return;
+    try {
+      await cancelImport(jobId);
+    } catch (e: any) {
+      setError(e.message);
+    }
   }
 
-  async function handleImport() {
+  function handleEvent(event: ImportJobEvent) {
+    if (event.type === "job") {
+      dryRunRef.current = event.job.dry_run;
+      setDryRun(event.job.dry_run);
+      setRowCount(event.job.total_rows);
+      setProcessed(event.job.processed);
+    } else if (event.type === "progress") {
+      setProcessed(event.processed);
+      if (event.processed % 25 === 0 && !dryRunRef.current) onSuccess();
+    } else if (event.type === "cancelled") {
+      setRolledBack(event.rolledBack);
+      setCancelled(true);
+      if (!dryRunRef.current) onSuccess();
+    } else if (event.type === "done" && event.dry_run) {
+      setPreview({ jobId: jobIdRef.current!, summary: event.summary, errors: event.errors });
+    } else if (event.type === "done") {
+      setResult({ success: event.success, failed: event.failed, errors: event.errors, jobId: jobIdRef.current! });
+      if (event.success > 0) onSuccess();
+    } else if (event.type === "failed") {
+      setError(event.error || "Import failed");
+      onSuccess();
+    }
+  }
+
+  // Streams a job's events until it finishes. Leaving the page only stops
+  // watching — the job keeps running on the server.
+  async function follow(jobId: string) {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    jobIdRef.current = jobId;
+    localStorage.setItem(JOB_KEY, jobId);
+    setLoading(true);
+
+    try {
+      await watchImport(jobId, handleEvent, controller.signal);
+      localStorage.removeItem(JOB_KEY);
+    } catch (e: any) {
+      if (controller.signal.aborted) return;
+      if (e.message === "Import job not found") localStorage.removeItem(JOB_KEY);
+      else setError(e.message);
+    } finally {
+      if (!controller.signal.aborted) {
+        setLoading(false);
+        jobIdRef.current = null;
+      }
+    }
+  }
+
+  // Step 1: validate and price every row without writing anything
+  async function handlePreview() {
     const file = fileRef.current?.files?.[0];
     if (!file) {
       setError("Please select a CSV file");
@@ -72,60 +163,58 @@ export default function ImportCSV({ onSuccess }: Props) {
 
     setError("");
     setResult(null);
+    setPreview(null);
     setProcessed(0);
     setCancelled(false);
-    setLoading(true);
-    sessionIdRef.current = null;
 
     try {
-      const token = localStorage.getItem("token") || "";
-      const form = new FormData();
-      form.append("file", file);
-
-      const res = await fetch("/api/orders/import/stream", {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-        body: form,
-      });
-
-      if (!res.ok || !res.body) throw new Error("Import failed");
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-
-        for (const line of lines) {
-          if (!line.startsWith("data:")) continue;
-          const json = JSON.parse(line.slice(5).trim());
-
-          if (json.type === "session") {
-            sessionIdRef.current = json.sessionId;
-          } else if (json.type === "progress") {
-            setProcessed(json.processed);
-            if (json.processed % 25 === 0) onSuccess();
-          } else if (json.type === "cancelled") {
-            setRolledBack(json.rolledBack);
-            setCancelled(true);
-            onSuccess();
-          } else if (json.type === "done") {
-            setResult({ success: json.success, failed: json.failed, errors: json.errors });
-            if (json.success > 0) onSuccess();
-          }
-        }
-      }
+      const job = await startImport(file, { dryRun: true, profile: profileId ?? undefined });
+      await follow(job.id);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  // Step 2: import the previewed rows
+  async function handleImport() {
+    if (!preview) return;
+    setError("");
+    setProcessed(0);
+    setCancelled(false);
+
+    try {
+      const job = await commitImport(preview.jobId);
+      setPreview(null);
+      await follow(job.id);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  function handleProfileSaved(profile: ImportProfile) {
+    setProfiles((ps) => [...ps.filter((p) => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name)));
+    setProfileId(profile.id);
+  }
+
+  function handleProfileDeleted(id: number) {
+    setProfiles((ps) => ps.filter((p) => p.id !== id));
+    if (profileId === id) setProfileId(null);
+  }
+
+  async function handleDownloadFailures(jobId: string) {
+    try {
+      await downloadImportFailures(jobId);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  async function handleDownloadPreview() {
+    if (!preview) return;
+    try {
+      await downloadImportPreview(preview.jobId);
     } catch (e: any) {
       setError(e.message);
-    } finally {
-      setLoading(false);
-      sessionIdRef.current = null;
     }
   }
 
@@ -157,19 +246,51 @@ export default function ImportCSV({ onSuccess }: Props) {
       </div>
 
       <p style={styles.hint}>
-        Expected columns: <code style={styles.code}>id, longitude, latitude, timestamp, subtotal</code>
+        CSV, JSON Lines or Excel (.xlsx) with columns{" "}
+        <code style={styles.code}>id, longitude, latitude, timestamp, subtotal</code>
+        {" "}— optionally <code style={styles.code}>line_items</code> as a JSON array of{" "}
+        <code style={styles.code}>{"{ sku, category, quantity, unit_price }"}</code>.
+        Other layouts need an import profile.
       </p>
 
+      {editingProfiles && (
+        <ImportProfiles
+          profiles={profiles}
+          selectedId={profileId}
+          onSaved={handleProfileSaved}
+          onDeleted={handleProfileDeleted}
+          onClose={() => setEditingProfiles(false)}
+        />
+      )}
+
       <div style={styles.row}>
         <input
           ref={fileRef}
           type="file"
-          accept=".csv"
+          accept=".csv,.tsv,.txt,.jsonl,.ndjson,.xlsx"
           style={styles.fileInput}
           onChange={handleFileChange}
         />
-        <button onClick={handleImport} disabled={loading} style={styles.btn}>
-          {loading ? "📤 Importing..." : "Import"}
+        <select
+          value={profileId ?? ""}
+          onChange={(e) => setProfileId(e.target.value ? Number(e.target.value) : null)}
+          style={styles.profileSelect}
+          disabled={loading}
+        >
+          <option value="">Standard columns</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setEditingProfiles((v) => !v)}
+          style={styles.secondaryBtn}
+          title="Manage import profiles"
+        >
+          ⚙
+        </button>
+        <button onClick={handlePreview} disabled={loading} style={styles.btn}>
+          {loading ? (dryRun ? "🔍 Checking..." : "📤 Importing...") : "🔍 Preview"}
         </button>
         {loading && (
           <button onClick={handleCancel} style={styles.cancelBtn}>
@@ -195,7 +316,8 @@ export default function ImportCSV({ onSuccess }: Props) {
             <span style={styles.progressPercent}>{percent}%</span>
           </div>
           <p style={styles.progressHint}>
-            Each row requires a geocoding request via Census API
+            Each row is resolved to its county and tax rate
+            {dryRun ? " — nothing is saved until you import" : " — the import keeps running if you leave this page"}
           </p>
         </div>
       )}
@@ -207,7 +329,9 @@ export default function ImportCSV({ onSuccess }: Props) {
             ...styles.cancelledBanner,
           }}
         >
-          ⚠️ Import cancelled — {rolledBack} rows were removed from the database.
+          {dryRun
+            ? "⚠️ Preview cancelled."
+            : `⚠️ Import cancelled — ${rolledBack} rows were moved to the trash.`}
         </div>
       )}
 
@@ -222,6 +346,81 @@ export default function ImportCSV({ onSuccess }: Props) {
         </div>
       )}
 
+      {preview && !loading && (
+        <div
+          style={{
+            ...styles.previewBox,
+            animation: "slideIn 0.4s ease-out",
+          }}
+        >
+          <div style={styles.resultRow}>
+            <span style={styles.successBadge}>✅ {preview.summary.valid} valid</span>
+            {preview.summary.failed > 0 && <span style={styles.failBadge}>❌ {preview.summary.failed} failed</span>}
+            <span style={styles.totalBadge}>
+              {preview.summary.inserts} new · {preview.summary.overwrites} overwrite existing IDs
+            </span>
+          </div>
+
+          {preview.summary.counties.length > 0 && (
+            <table style={styles.previewTable}>
+              <thead>
+                <tr>
+                  <th style={styles.previewTh}>County</th>
+                  <th style={styles.previewThNum}>Orders</th>
+                  <th style={styles.previewThNum}>Subtotal</th>
+                  <th style={styles.previewThNum}>Tax</th>
+                  <th style={styles.previewThNum}>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.summary.counties.map((c) => (
+                  <tr key={c.county_fips ?? "none"}>
+                    <td style={styles.previewTd}>{c.name}</td>
+                    <td style={styles.previewTdNum}>{c.orders}</td>
+                    <td style={styles.previewTdNum}>{fmt(c.subtotal)}</td>
+                    <td style={styles.previewTdNum}>{fmt(c.tax_amount)}</td>
+                    <td style={styles.previewTdNum}>{fmt(c.total_amount)}</td>
+                  </tr>
+                ))}
+                <tr style={styles.previewTotalRow}>
+                  <td style={styles.previewTd}>Total</td>
+                  <td style={styles.previewTdNum}>{preview.summary.valid}</td>
+                  <td style={styles.previewTdNum}>{fmt(preview.summary.totals.subtotal)}</td>
+                  <td style={styles.previewTdNum}>{fmt(preview.summary.totals.tax_amount)}</td>
+                  <td style={styles.previewTdNum}>{fmt(preview.summary.totals.total_amount)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          {preview.errors.length > 0 && (
+            <ul style={styles.errorList}>
+              {preview.errors.map((e, i) => (
+                <li key={i} style={styles.errorItem}>
+                  Row {e.row ?? "?"}{e.original_id ? ` (id ${e.original_id})` : ""}:{" "}
+                  <span style={styles.errorMsg}>{e.error}</span>
+                  {e.code && <code style={styles.errorCode}>{e.code}</code>}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div style={styles.previewActions}>
+            <button onClick={handleImport} disabled={preview.summary.valid === 0} style={styles.btn}>
+              📤 Import {preview.summary.valid} rows
+            </button>
+            <button onClick={handleDownloadPreview} style={styles.secondaryBtn}>
+              ⬇ Download preview CSV
+            </button>
+            {preview.summary.failed > 0 && (
+              <button onClick={() => handleDownloadFailures(preview.jobId)} style={styles.secondaryBtn}>
+                ⬇ {preview.summary.failed} failed rows
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {result && !cancelled && (
         <div
           style={{
@@ -238,11 +437,21 @@ export default function ImportCSV({ onSuccess }: Props) {
             <ul style={styles.errorList}>
               {result.errors.map((e, i) => (
                 <li key={i} style={styles.errorItem}>
-                  Row {e.original_id}: <span style={styles.errorMsg}>{e.error}</span>
+                  Row {e.row ?? "?"}{e.original_id ? ` (id ${e.original_id})` : ""}:{" "}
+                  <span style={styles.errorMsg}>{e.error}</span>
+                  {e.code && <code style={styles.errorCode}>{e.code}</code>}
                 </li>
               ))}
             </ul>
           )}
+          {result.failed > 0 && (
+            <div style={styles.previewActions}>
+              <button onClick={() => handleDownloadFailures(result.jobId)} style={styles.secondaryBtn}>
+                ⬇ Download all {result.failed} failed rows (CSV)
+              </button>
+              <button onClick={() => setResult(null)} style={styles.dismissBtn}>Dismiss</button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -346,6 +555,29 @@ const styles: Record<string, React.CSSProperties> = {
     transition: "all 0.3s ease",
   },
 
+  profileSelect: {
+    padding: "12px 14px",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 10,
+    fontSize: 13,
+    background: "rgba(255, 255, 255, 0.6)",
+    color: "#1a1a2e",
+    cursor: "pointer",
+  },
+
+  secondaryBtn: {
+    padding: "12px 16px",
+    background: "rgba(102, 126, 234, 0.08)",
+    color: "#667eea",
+    border: "1.5px solid rgba(102, 126, 234, 0.3)",
+    borderRadius: 10,
+    cursor: "pointer",
+    whiteSpace: "nowrap",
+    fontWeight: 600,
+    fontSize: 13,
+    transition: "all 0.3s ease",
+  },
+
   progressWrap: {
     marginBottom: 16,
   },
@@ -419,6 +651,61 @@ const styles: Record<string, React.CSSProperties> = {
     border: "1.5px solid rgba(34, 197, 94, 0.3)",
   },
 
+  previewBox: {
+    padding: 14,
+    background: "linear-gradient(135deg, rgba(102, 126, 234, 0.05), rgba(118, 75, 162, 0.02))",
+    borderRadius: 10,
+    border: "1.5px solid rgba(102, 126, 234, 0.3)",
+    marginBottom: 16,
+  },
+
+  previewTable: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: 12,
+    marginBottom: 12,
+  },
+
+  previewTh: {
+    textAlign: "left",
+    padding: "6px 8px",
+    color: "#6b7280",
+    fontWeight: 600,
+    borderBottom: "1px solid rgba(0, 0, 0, 0.08)",
+  },
+
+  previewThNum: {
+    textAlign: "right",
+    padding: "6px 8px",
+    color: "#6b7280",
+    fontWeight: 600,
+    borderBottom: "1px solid rgba(0, 0, 0, 0.08)",
+  },
+
+  previewTd: {
+    padding: "6px 8px",
+    color: "#374151",
+    borderBottom: "1px solid rgba(0, 0, 0, 0.04)",
+  },
+
+  previewTdNum: {
+    padding: "6px 8px",
+    color: "#374151",
+    textAlign: "right",
+    fontVariantNumeric: "tabular-nums",
+    borderBottom: "1px solid rgba(0, 0, 0, 0.04)",
+  },
+
+  previewTotalRow: {
+    fontWeight: 700,
+  },
+
+  previewActions: {
+    display: "flex",
+    gap: 12,
+    marginTop: 12,
+  },
+
   resultRow: {
     display: "flex",
     gap: 12,
@@ -459,4 +746,24 @@ const styles: Record<string, React.CSSProperties> = {
     color: "#dc2626",
     fontWeight: 500,
   },
+
+  errorCode: {
+    marginLeft: 6,
+    padding: "1px 5px",
+    borderRadius: 4,
+    background: "rgba(239, 68, 68, 0.08)",
+    color: "#b91c1c",
+    fontFamily: "monospace",
+    fontSize: 10,
+  },
+
+  dismissBtn: {
+    padding: "12px 16px",
+    background: "transparent",
+    color: "#6b7280",
+    border: "1.5px solid rgba(0, 0, 0, 0.1)",
+    borderRadius: 10,
+    cursor: "pointer",
+    fontSize: 13,
+  },
 };
\ No newline at end of file
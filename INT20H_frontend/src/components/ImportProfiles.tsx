@@ -0,0 +1,284 @@
+import { useState, useEffect } from "react";
+import {
+  ImportProfile,
+  ImportProfileInput,
+  ImportField,
+  IMPORT_FIELDS,
+  saveImportProfile,
+  deleteImportProfile,
+} from "../api";
+
+interface Props {
+  profiles: ImportProfile[];
+  /** Profile to open for editing; null starts a new one */
+  selectedId: number | null;
+  onSaved: (profile: ImportProfile) => void;
+  onDeleted: (id: number) => void;
+  onClose: () => void;
+}
+
+const EMPTY: ImportProfileInput = {
+  name: "",
+  format: null,
+  delimiter: ",",
+  decimal_separator: ".",
+  timestamp_format: null,
+  columns: {},
+};
+
+const DELIMITERS = [
+  { value: ",", label: "Comma ," },
+  { value: ";", label: "Semicolon ;" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe |" },
+];
+
+export default function ImportProfiles({ profiles, selectedId, onSaved, onDeleted, onClose }: Props) {
+  const [editingId, setEditingId] = useState<number | null>(selectedId);
+  const [form, setForm] = useState<ImportProfileInput>(EMPTY);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const p = profiles.find((x) => x.id === editingId);
+    setForm(p ? {
+      name: p.name,
+      format: p.format,
+      delimiter: p.delimiter,
+      decimal_separator: p.decimal_separator,
+      timestamp_format: p.timestamp_format,
+      columns: p.columns,
+    } : EMPTY);
+    setError("");
+  }, [editingId, profiles]);
+
+  function set<K extends keyof ImportProfileInput>(key: K, value: ImportProfileInput[K]) {
+    setForm((f) => ({ ...f, [key]: value }));
+  }
+
+  function setColumn(field: ImportField, source: string) {
+    setForm((f) => {
+      const columns = { ...f.columns };
+      if (source.trim()) columns[field] = source;
+      else delete columns[field];
+      return { ...f, columns };
+    });
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError("");
+    try {
+      const saved = await saveImportProfile(form, editingId ?? undefined);
+      setEditingId(saved.id);
+      onSaved(saved);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (editingId == null || !confirm(`Delete profile "${form.name}"?`)) return;
+    try {
+      await deleteImportProfile(editingId);
+      onDeleted(editingId);
+      setEditingId(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.topRow}>
+        <select
+          style={styles.input}
+          value={editingId ?? ""}
+          onChange={(e) => setEditingId(e.target.value ? Number(e.target.value) : null)}
+        >
+          <option value="">+ New profile</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={onClose} style={styles.closeBtn}>✕</button>
+      </div>
+
+      <div style={styles.grid}>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Name</span>
+          <input style={styles.input} value={form.name} onChange={(e) => set("name", e.target.value)} placeholder="Acme exports" />
+        </label>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Format</span>
+          <select
+            style={styles.input}
+            value={form.format ?? ""}
+            onChange={(e) => set("format", (e.target.value || null) as ImportProfileInput["format"])}
+          >
+            <option value="">From file extension</option>
+            <option value="csv">CSV</option>
+            <option value="jsonl">JSON Lines</option>
+            <option value="xlsx">Excel (.xlsx)</option>
+          </select>
+        </label>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Delimiter</span>
+          <select style={styles.input} value={form.delimiter} onChange={(e) => set("delimiter", e.target.value)}>
+            {DELIMITERS.map((d) => (
+              <option key={d.label} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={styles.label}>
+          <span style={styles.labelText}>Decimal separator</span>
+          <select
+            style={styles.input}
+            value={form.decimal_separator}
+            onChange={(e) => set("decimal_separator", e.target.value as "." | ",")}
+          >
+            <option value=".">Point (12.50)</option>
+            <option value=",">Comma (12,50)</option>
+          </select>
+        </label>
+        <label style={{ ...styles.label, gridColumn: "span 2" }}>
+          <span style={styles.labelText}>Timestamp format</span>
+          <input
+            style={styles.input}
+            value={form.timestamp_format ?? ""}
+            onChange={(e) => set("timestamp_format", e.target.value || null)}
+            placeholder="As-is — or e.g. DD.MM.YYYY HH:mm, unix, unix_ms"
+          />
+        </label>
+      </div>
+
+      <p style={styles.sectionTitle}>Source columns</p>
+      <div style={styles.grid}>
+        {IMPORT_FIELDS.map((field) => (
+          <label key={field} style={styles.label}>
+            <span style={styles.labelText}>{field}</span>
+            <input
+              style={styles.input}
+              value={form.columns[field] ?? ""}
+              onChange={(e) => setColumn(field, e.target.value)}
+              placeholder={field}
+            />
+          </label>
+        ))}
+      </div>
+
+      {error && <div style={styles.error}>❌ {error}</div>}
+
+      <div style={styles.actions}>
+        <button onClick={handleSave} disabled={saving || !form.name.trim()} style={styles.saveBtn}>
+          {saving ? "Saving..." : editingId != null ? "Save changes" : "Create profile"}
+        </button>
+        {editingId != null && (
+          <button onClick={handleDelete} style={styles.deleteBtn}>🗑 Delete</button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    padding: 16,
+    marginBottom: 16,
+    background: "rgba(102, 126, 234, 0.04)",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 12,
+  },
+
+  topRow: {
+    display: "flex",
+    gap: 12,
+    marginBottom: 14,
+  },
+
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(4, 1fr)",
+    gap: 12,
+    marginBottom: 14,
+  },
+
+  label: {
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+  },
+
+  labelText: {
+    fontSize: 11,
+    fontWeight: 600,
+    color: "#4b5563",
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+  },
+
+  sectionTitle: {
+    margin: "0 0 10px 0",
+    fontSize: 13,
+    fontWeight: 700,
+    color: "#1a1a2e",
+  },
+
+  input: {
+    flex: 1,
+    padding: "9px 12px",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 8,
+    fontSize: 13,
+    color: "#1a1a2e",
+    background: "rgba(255, 255, 255, 0.8)",
+  },
+
+  closeBtn: {
+    padding: "8px 12px",
+    background: "transparent",
+    color: "#6b7280",
+    border: "1.5px solid rgba(0, 0, 0, 0.1)",
+    borderRadius: 8,
+    cursor: "pointer",
+  },
+
+  error: {
+    marginBottom: 12,
+    padding: "10px 12px",
+    borderRadius: 8,
+    fontSize: 13,
+    background: "rgba(239, 68, 68, 0.1)",
+    border: "1px solid rgba(239, 68, 68, 0.3)",
+    color: "#dc2626",
+  },
+
+  actions: {
+    display: "flex",
+    gap: 12,
+  },
+
+  saveBtn: {
+    padding: "10px 18px",
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    color: "#fff",
+    border: "none",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 13,
+  },
+
+  deleteBtn: {
+    padding: "10px 14px",
+    background: "rgba(239, 68, 68, 0.1)",
+    color: "#dc2626",
+    border: "1.5px solid rgba(239, 68, 68, 0.3)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 13,
+  },
+};
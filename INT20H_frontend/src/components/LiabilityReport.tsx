@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { getLiabilityReport, downloadLiabilityReport, LiabilityReport as Report, LiabilityAmounts } from "../api";
+import St100Worksheet from "./St100Worksheet";
+
+interface Props {
+  refreshKey: number;
+}
+
+interface Period {
+  label: string;
+  from: string;
+  to: string;
+}
+
+function isoDate(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * NYS quarterly sales tax periods (Mar–May, Jun–Aug, Sep–Nov, Dec–Feb),
+ * most recent first, starting with the one containing today.
+ */
+function filingPeriods(count: number): Period[] {
+  const today = new Date();
+  // Months since Dec of the year before, so quarters start at multiples of 3
+  const offset = (today.getMonth() + 1) % 12;
+  let start = new Date(today.getFullYear(), today.getMonth() - (offset % 3), 1);
+  const periods: Period[] = [];
+  for (let i = 0; i < count; i++) {
+    const end = new Date(start.getFullYear(), start.getMonth() + 3, 0);
+    const name = (d: Date) => d.toLocaleString("en-US", { month: "short" });
+    periods.push({
+      label: `${name(start)} ${start.getFullYear()} – ${name(end)} ${end.getFullYear()}`,
+      from: isoDate(start),
+      to: isoDate(end),
+    });
+    start = new Date(start.getFullYear(), start.getMonth() - 3, 1);
+  }
+  return periods;
+}
+
+const PERIODS = filingPeriods(8);
+
+const money = (v: number) => `$${v.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const pct = (v: number) => `${(v * 100).toFixed(3)}%`;
+
+export default function LiabilityReport({ refreshKey }: Props) {
+  // The last completed quarter is the one due for filing
+  const [from, setFrom] = useState(PERIODS[1].from);
+  const [to, setTo] = useState(PERIODS[1].to);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!from || !to) return;
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    getLiabilityReport(from, to)
+      .then((r) => { if (!cancelled) setReport(r); })
+      .catch((e) => { if (!cancelled) setError(e.message); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [from, to, refreshKey]);
+
+  async function handleDownload() {
+    setError("");
+    try {
+      await downloadLiabilityReport(from, to);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  function amountCells(a: LiabilityAmounts, strong = false) {
+    const cell = strong ? { ...styles.td, ...styles.strong } : styles.td;
+    return (
+      <>
+        <td style={cell}>{a.order_count}</td>
+        <td style={cell}>{money(a.gross_sales)}</td>
+        <td style={cell}>{money(a.taxable_sales)}</td>
+        <td style={cell}>{money(a.state_tax)}</td>
+        <td style={cell}>{money(a.local_tax)}</td>
+        <td style={cell}>{money(a.mctd_tax)}</td>
+        <td style={cell} title={a.refund_count ? `${a.refund_count} refund${a.refund_count !== 1 ? "s" : ""}` : undefined}>
+          {a.refunded_tax ? `−${money(a.refunded_tax)}` : "—"}
+        </td>
+        <td style={{ ...cell, ...styles.taxCell }}>{money(a.tax_collected)}</td>
+      </>
+    );
+  }
+
+  const selected = PERIODS.find((p) => p.from === from && p.to === to);
+
+  return (
+    <div style={styles.card}>
+      <div style={styles.header}>
+        <span style={styles.icon}>🧾</span>
+        <h3 style={styles.title}>Tax liability by jurisdiction</h3>
+      </div>
+
+      <div style={styles.filters}>
+        <select
+          style={{ ...styles.input, width: 200 }}
+          value={selected ? selected.from : ""}
+          onChange={(e) => {
+            const p = PERIODS.find((p) => p.from === e.target.value);
+            if (p) { setFrom(p.from); setTo(p.to); }
+          }}
+        >
+          {!selected && <option value="">Custom period</option>}
+          {PERIODS.map((p) => (
+            <option key={p.from} value={p.from}>{p.label}</option>
+          ))}
+        </select>
+        <input style={styles.input} type="date" title="From date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        <input style={styles.input} type="date" title="To date" value={to} onChange={(e) => setTo(e.target.value)} />
+        <button onClick={handleDownload} disabled={!report} style={styles.btn}>⬇ Download CSV</button>
+      </div>
+
+      {error && <p style={styles.error}>{error}</p>}
+      {loading && <p style={styles.loading}>Loading report...</p>}
+
+      {report && !loading && (
+        report.jurisdictions.length === 0 ? (
+          <p style={styles.info}>No orders dated {report.from} – {report.to}.</p>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table style={styles.table}>
+              <thead>
+                <tr style={styles.headerRow}>
+                  {["Jurisdiction", "FIPS", "Rate", "State / local / MCTD", "Orders", "Gross sales", "Taxable sales",
+                    "State tax", "Local tax", "MCTD tax", "Refunded tax", "Net tax"].map((h) => (
+                    <th key={h} style={styles.th}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.jurisdictions.map((j) => (
+                  <tr key={`${j.county_fips}-${j.place_fips}-${j.composite_tax_rate}`} style={styles.row}>
+                    <td style={styles.td}>{j.name}</td>
+                    <td style={styles.td}>{j.place_fips ?? j.county_fips ?? "—"}</td>
+                    <td style={styles.td}>{pct(j.composite_tax_rate)}</td>
+                    <td style={styles.td}>{pct(j.state_rate)} / {pct(j.local_rate)} / {pct(j.mctd_rate)}</td>
+                    {amountCells(j)}
+                  </tr>
+                ))}
+                <tr style={styles.totalRow}>
+                  <td style={{ ...styles.td, ...styles.strong }} colSpan={4}>Total</td>
+                  {amountCells(report.totals, true)}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {from && to && <St100Worksheet from={from} to={to} refreshKey={refreshKey} />}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  card: {
+    background: "rgba(255, 255, 255, 0.95)",
+    backdropFilter: "blur(10px)",
+    borderRadius: 16,
+    padding: 28,
+    boxShadow: "0 8px 32px rgba(0, 0, 0, 0.1)",
+    border: "1px solid rgba(255, 255, 255, 0.5)",
+  },
+
+  header: {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 20,
+  },
+
+  icon: {
+    fontSize: 24,
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: 40,
+    height: 40,
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    borderRadius: 12,
+    boxShadow: "0 4px 12px rgba(102, 126, 234, 0.3)",
+  },
+
+  title: {
+    margin: 0,
+    fontSize: 18,
+    fontWeight: 700,
+    color: "#1a1a2e",
+    letterSpacing: "-0.5px",
+  },
+
+  filters: {
+    display: "flex",
+    gap: 8,
+    marginBottom: 16,
+    flexWrap: "wrap",
+  },
+
+  input: {
+    padding: "10px 12px",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 10,
+    fontSize: 13,
+    width: 150,
+    background: "rgba(255, 255, 255, 0.6)",
+    boxShadow: "inset 0 2px 4px rgba(0, 0, 0, 0.05)",
+  },
+
+  btn: {
+    padding: "10px 16px",
+    background: "rgba(102, 126, 234, 0.1)",
+    border: "1.5px solid rgba(102, 126, 234, 0.3)",
+    borderRadius: 10,
+    cursor: "pointer",
+    fontSize: 13,
+    fontWeight: 600,
+    color: "#667eea",
+  },
+
+  error: {
+    color: "#dc2626",
+    fontSize: 13,
+    padding: "10px 12px",
+    background: "rgba(239, 68, 68, 0.1)",
+    borderRadius: 8,
+    margin: "0 0 16px 0",
+  },
+
+  loading: {
+    color: "#6b7280",
+    fontSize: 13,
+    textAlign: "center",
+    padding: "20px",
+  },
+
+  info: {
+    color: "#6b7280",
+    fontSize: 13,
+    fontWeight: 500,
+  },
+
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: 13,
+  },
+
+  headerRow: {
+    background: "linear-gradient(90deg, rgba(102, 126, 234, 0.05), rgba(118, 75, 162, 0.05))",
+  },
+
+  th: {
+    padding: "12px 10px",
+    textAlign: "left",
+    fontWeight: 700,
+    color: "#667eea",
+    borderBottom: "2px solid rgba(102, 126, 234, 0.2)",
+    fontSize: 11,
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+  },
+
+  row: {
+    borderBottom: "1px solid rgba(0, 0, 0, 0.05)",
+  },
+
+  totalRow: {
+    borderTop: "2px solid rgba(102, 126, 234, 0.2)",
+  },
+
+  td: {
+    padding: "10px 10px",
+    color: "#374151",
+  },
+
+  strong: {
+    fontWeight: 700,
+    color: "#1a1a2e",
+  },
+
+  taxCell: {
+    fontWeight: 700,
+    color: "#16a34a",
+  },
+};
@@ -1,40 +1,133 @@
-import { getOrders, OrdersResponse, clearOrders } from "../api";
+import {
+  getOrders,
+  OrdersResponse,
+  Order,
+  OrderFilters,
+  OrderSortColumn,
+  clearOrders,
+  deleteOrder,
+  exportOrders,
+  ExportFormat,
+} from "../api";
 import React, { useEffect, useState, useCallback } from "react";
+import EditOrder from "./EditOrder";
+import RefundOrder from "./RefundOrder";
+import OrdersTrash from "./OrdersTrash";
 
 interface Props {
   refreshKey: number;
+  /** Set from the delivery map; a new object each click so the same county can be picked again */
+  countySelection?: { county_fips: string } | null;
 }
 
-export default function OrdersTable({ refreshKey }: Props) {
+// Rates are typed as percentages in the filter bar and sent as decimals
+const EMPTY_FILTERS = {
+  region: "", zip: "", min_total: "", max_total: "",
+  from: "", to: "", county_fips: "", jurisdiction: "",
+  min_rate_pct: "", max_rate_pct: "", import_session: "", fallback: "" as OrderFilters["fallback"],
+  refunded: "" as OrderFilters["refunded"],
+};
+
+type FilterState = typeof EMPTY_FILTERS;
+
+function toOrderFilters({ min_rate_pct, max_rate_pct, ...rest }: FilterState): OrderFilters {
+  const rate = (pct: string) => (pct.trim() && !isNaN(parseFloat(pct)) ? String(parseFloat(pct) / 100) : "");
+  return { ...rest, min_rate: rate(min_rate_pct), max_rate: rate(max_rate_pct) };
+}
+
+const COLUMNS: { label: string; sort?: OrderSortColumn }[] = [
+  { label: "ID", sort: "id" },
+  { label: "Timestamp", sort: "timestamp" },
+  { label: "Region", sort: "tax_region" },
+  { label: "ZIP", sort: "zip_code" },
+  { label: "Subtotal", sort: "subtotal" },
+  { label: "Tax Rate", sort: "composite_tax_rate" },
+  { label: "Tax", sort: "tax_amount" },
+  { label: "Total", sort: "total_amount" },
+  { label: "Details" },
+];
+
+export default function OrdersTable({ refreshKey, countySelection }: Props) {
   const [data, setData] = useState<OrdersResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [page, setPage] = useState(1);
-  const [filters, setFilters] = useState({ region: "", min_total: "", max_total: "" });
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<{ column: OrderSortColumn; order: "asc" | "desc" }>({ column: "id", order: "desc" });
   const [expanded, setExpanded] = useState<number | null>(null);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [refunding, setRefunding] = useState<number | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exporting, setExporting] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  // Bumped on every delete so an open trash view reloads
+  const [deletions, setDeletions] = useState(0);
 
   const fetchOrders = useCallback(async () => {
     setLoading(true);
     setError("");
     try {
-      const res = await getOrders({ page, limit: 20, ...filters });
+      const res = await getOrders({ page, limit: 20, ...toOrderFilters(filters), sort: sort.column, order: sort.order });
       setData(res);
     } catch (e: any) {
       setError(e.message);
     } finally {
       setLoading(false);
     }
-  }, [page, filters, refreshKey]);
+  }, [page, filters, sort, refreshKey]);
 
   useEffect(() => {
     fetchOrders();
   }, [fetchOrders]);
 
-  function setFilter(key: string, value: string) {
+  useEffect(() => {
+    if (countySelection) setFilter("county_fips", countySelection.county_fips);
+  }, [countySelection]);
+
+  async function handleExport() {
+    setExporting(true);
+    setError("");
+    try {
+      await exportOrders(exportFormat, toOrderFilters(filters));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function handleSaved(order: Order) {
+    setEditing(null);
+    setRefunding(null);
+    setData((d) => d && { ...d, orders: d.orders.map((o) => (o.id === order.id ? order : o)) });
+    fetchOrders();
+  }
+
+  // Deleted orders go to the trash; the reason is optional
+  async function handleDelete(id: number) {
+    const reason = prompt(`Move order ${id} to the trash? Reason (optional):`);
+    if (reason === null) return;
+    try {
+      await deleteOrder(id, reason.trim() || undefined);
+      setExpanded(null);
+      setDeletions((n) => n + 1);
+      fetchOrders();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  function setFilter(key: keyof FilterState, value: string) {
     setFilters((f) => ({ ...f, [key]: value }));
     setPage(1);
   }
 
+  // First click sorts descending, the next flips the direction
+  function toggleSort(column: OrderSortColumn) {
+    setSort((s) => ({ column, order: s.column === column && s.order === "desc" ? "asc" : "desc" }));
+    setPage(1);
+  }
+
   return (
     <div style={styles.card}>
       <style>{`
@@ -68,6 +161,14 @@ export default function OrdersTable({ refreshKey }: Props) {
           value={filters.region}
           onChange={(e) => setFilter("region", e.target.value)}
         />
+        <input
+          style={{ ...styles.filterInput, width: 110 }}
+          placeholder="ZIP"
+          inputMode="numeric"
+          maxLength={5}
+          value={filters.zip}
+          onChange={(e) => setFilter("zip", e.target.value)}
+        />
         <input
           style={styles.filterInput}
           type="number"
@@ -85,17 +186,120 @@ export default function OrdersTable({ refreshKey }: Props) {
         <button onClick={fetchOrders} style={styles.refreshBtn}>
           🔄 Refresh
         </button>
+        <select
+          style={{ ...styles.filterInput, width: 90 }}
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+        >
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+          <option value="xlsx">Excel</option>
+        </select>
+        <button onClick={handleExport} disabled={exporting} style={styles.refreshBtn}>
+          {exporting ? "Exporting..." : "⬇ Export"}
+        </button>
+        <button onClick={() => setShowTrash((v) => !v)} style={styles.refreshBtn}>
+          {showTrash ? "✕ Close trash" : "♻️ Trash"}
+        </button>
         <button
           onClick={async () => {
-            if (!confirm("Delete all orders?")) return;
-            await clearOrders();
-            fetchOrders();
+            const reason = prompt("Move all orders to the trash? Reason (optional):");
+            if (reason === null) return;
+            try {
+              await clearOrders(reason.trim() || undefined);
+              setDeletions((n) => n + 1);
+              fetchOrders();
+            } catch (e: any) {
+              setError(e.message);
+            }
           }}
           style={{ ...styles.refreshBtn, ...styles.deleteBtn }}
         >
           🗑️ Clear all
         </button>
       </div>
+      <div style={styles.filters}>
+        <input
+          style={styles.filterInput}
+          type="date"
+          title="From date"
+          value={filters.from}
+          onChange={(e) => setFilter("from", e.target.value)}
+        />
+        <input
+          style={styles.filterInput}
+          type="date"
+          title="To date"
+          value={filters.to}
+          onChange={(e) => setFilter("to", e.target.value)}
+        />
+        <input
+          style={{ ...styles.filterInput, width: 170 }}
+          placeholder="County FIPS (36061, 36047)"
+          value={filters.county_fips}
+          onChange={(e) => setFilter("county_fips", e.target.value)}
+        />
+        <input
+          style={{ ...styles.filterInput, width: 150 }}
+          placeholder="Jurisdiction (MCTD)"
+          list="order-jurisdictions"
+          value={filters.jurisdiction}
+          onChange={(e) => setFilter("jurisdiction", e.target.value)}
+        />
+        <datalist id="order-jurisdictions">
+          <option value="MCTD" />
+          <option value="New York City" />
+          <option value="New York State" />
+        </datalist>
+        <input
+          style={{ ...styles.filterInput, width: 100 }}
+          type="number"
+          step="0.125"
+          placeholder="Min rate %"
+          value={filters.min_rate_pct}
+          onChange={(e) => setFilter("min_rate_pct", e.target.value)}
+        />
+        <input
+          style={{ ...styles.filterInput, width: 100 }}
+          type="number"
+          step="0.125"
+          placeholder="Max rate %"
+          value={filters.max_rate_pct}
+          onChange={(e) => setFilter("max_rate_pct", e.target.value)}
+        />
+        <input
+          style={{ ...styles.filterInput, width: 170 }}
+          placeholder="Import job ID"
+          value={filters.import_session}
+          onChange={(e) => setFilter("import_session", e.target.value)}
+        />
+        <select
+          style={{ ...styles.filterInput, width: 150 }}
+          value={filters.fallback}
+          onChange={(e) => setFilter("fallback", e.target.value)}
+        >
+          <option value="">Any rate source</option>
+          <option value="true">Fallback rate only</option>
+          <option value="false">Rate table only</option>
+        </select>
+        <select
+          style={{ ...styles.filterInput, width: 140 }}
+          value={filters.refunded}
+          onChange={(e) => setFilter("refunded", e.target.value)}
+        >
+          <option value="">Any refunds</option>
+          <option value="true">Refunded</option>
+          <option value="false">Not refunded</option>
+        </select>
+        <button
+          onClick={() => { setFilters(EMPTY_FILTERS); setPage(1); }}
+          style={styles.refreshBtn}
+        >
+          ✕ Reset
+        </button>
+      </div>
+
+      {showTrash && <OrdersTrash refreshKey={refreshKey + deletions} onRestored={fetchOrders} />}
 
       {error && <p style={styles.error}>{error}</p>}
       {loading && <p style={styles.loading}>Loading orders...</p>}
@@ -104,19 +308,29 @@ export default function OrdersTable({ refreshKey }: Props) {
         <>
           <p style={styles.info}>
             {data.total} order{data.total !== 1 ? "s" : ""} total
+            {data.totals && (
+              <>
+                {" "}· tax ${data.totals.tax_amount.toFixed(2)} · collected ${data.totals.total_amount.toFixed(2)}
+                {data.totals.refunded_tax_amount > 0 && (
+                  <> · refunded tax ${data.totals.refunded_tax_amount.toFixed(2)} · net tax ${data.totals.net_tax_amount.toFixed(2)}</>
+                )}
+              </>
+            )}
           </p>
           <div style={{ overflowX: "auto" }}>
             <table style={styles.table}>
               <thead>
                 <tr style={styles.headerRow}>
-                  <th style={styles.th}>ID</th>
-                  <th style={styles.th}>Timestamp</th>
-                  <th style={styles.th}>Region</th>
-                  <th style={styles.th}>Subtotal</th>
-                  <th style={styles.th}>Tax Rate</th>
-                  <th style={styles.th}>Tax</th>
-                  <th style={styles.th}>Total</th>
-                  <th style={styles.th}>Details</th>
+                  {COLUMNS.map(({ label, sort: column }) => (
+                    <th
+                      key={label}
+                      style={column ? { ...styles.th, ...styles.sortableTh } : styles.th}
+                      onClick={column ? () => toggleSort(column) : undefined}
+                    >
+                      {label}
+                      {column && sort.column === column && (sort.order === "desc" ? " ▼" : " ▲")}
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody>
@@ -126,9 +340,17 @@ export default function OrdersTable({ refreshKey }: Props) {
                       <td style={styles.td}>{o.id}</td>
                       <td style={styles.td}>{o.timestamp?.slice(0, 19).replace("T", " ")}</td>
                       <td style={styles.td}>{o.tax_region}</td>
+                      <td style={styles.td}>{o.zip_code ?? "—"}</td>
                       <td style={styles.td}>${o.subtotal.toFixed(2)}</td>
                       <td style={styles.td}>{(o.composite_tax_rate * 100).toFixed(3)}%</td>
-                      <td style={styles.td}>${o.tax_amount.toFixed(2)}</td>
+                      <td style={styles.td}>
+                        ${o.tax_amount.toFixed(2)}
+                        {o.refunded_amount > 0 && (
+                          <div style={styles.netTax} title={`$${o.refunded_tax_amount.toFixed(2)} reversed by refunds`}>
+                            net ${o.net_tax_amount.toFixed(2)}
+                          </div>
+                        )}
+                      </td>
                       <td style={{ ...styles.td, ...styles.totalCell }}>
                         ${o.total_amount.toFixed(2)}
                       </td>
@@ -145,7 +367,7 @@ export default function OrdersTable({ refreshKey }: Props) {
                     </tr>
                     {expanded === o.id && (
                       <tr key={`${o.id}-detail`}>
-                        <td colSpan={8} style={styles.detailCell}>
+                        <td colSpan={9} style={styles.detailCell}>
                           <div style={styles.detailGrid}>
                             <span style={styles.detailItem}>
                               📍 Lat: <strong>{o.latitude.toFixed(6)}</strong>
@@ -163,9 +385,63 @@ export default function OrdersTable({ refreshKey }: Props) {
                               City rate: <strong>{(o.city_rate * 100).toFixed(3)}%</strong>
                             </span>
                             <span style={styles.detailItem}>
-                              Special rate: <strong>{(o.special_rate * 100).toFixed(3)}%</strong>
+                              MCTD rate: <strong>{(o.special_rate * 100).toFixed(3)}%</strong>
                             </span>
+                            <span style={styles.detailItem}>
+                              Rate table: <strong>{o.rate_version ?? "fallback"}</strong>
+                            </span>
+                            <span style={styles.detailItem}>
+                              Taxable: <strong>${(o.taxable_amount ?? o.subtotal).toFixed(2)}</strong>
+                            </span>
+                            {o.refunded_amount > 0 && (
+                              <span style={styles.detailItem}>
+                                Refunded: <strong>${o.refunded_amount.toFixed(2)}</strong> + ${o.refunded_tax_amount.toFixed(2)} tax
+                              </span>
+                            )}
                           </div>
+                          {o.line_items?.some((li) => li.sku) && (
+                            <table style={styles.lineTable}>
+                              <thead>
+                                <tr>
+                                  {["SKU", "Category", "Qty", "Unit price", "Amount", "Rate", "Tax", "Exemption"].map((h) => (
+                                    <th key={h} style={styles.lineTh}>{h}</th>
+                                  ))}
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {o.line_items.map((li, i) => (
+                                  <tr key={i}>
+                                    <td style={styles.lineTd}>{li.sku}</td>
+                                    <td style={styles.lineTd}>{li.category.replace(/_/g, " ")}</td>
+                                    <td style={styles.lineTd}>{li.quantity}</td>
+                                    <td style={styles.lineTd}>${li.unit_price.toFixed(2)}</td>
+                                    <td style={styles.lineTd}>${li.amount.toFixed(2)}</td>
+                                    <td style={styles.lineTd}>{(li.tax_rate * 100).toFixed(3)}%</td>
+                                    <td style={styles.lineTd}>${li.tax_amount.toFixed(2)}</td>
+                                    <td style={styles.lineTd}>{li.exemption ?? "—"}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                          {editing === o.id ? (
+                            <EditOrder order={o} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+                          ) : refunding === o.id ? (
+                            <RefundOrder order={o} onSaved={handleSaved} onCancel={() => setRefunding(null)} />
+                          ) : (
+                            <div style={styles.detailActions}>
+                              {/* Refunded orders stay as reported: no edits or deletion */}
+                              {o.refunded_amount === 0 && (
+                                <button onClick={() => setEditing(o.id)} style={styles.refreshBtn}>✏️ Edit</button>
+                              )}
+                              <button onClick={() => setRefunding(o.id)} style={styles.refreshBtn}>↩️ Refund</button>
+                              {o.refunded_amount === 0 && (
+                                <button onClick={() => handleDelete(o.id)} style={{ ...styles.refreshBtn, ...styles.deleteBtn }}>
+                                  🗑️ Delete
+                                </button>
+                              )}
+                            </div>
+                          )}
                         </td>
                       </tr>
                     )}
@@ -321,6 +597,11 @@ const styles: Record<string, React.CSSProperties> = {
     letterSpacing: "0.5px",
   },
 
+  sortableTh: {
+    cursor: "pointer",
+    userSelect: "none",
+  },
+
   row: {
     borderBottom: "1px solid rgba(0, 0, 0, 0.05)",
     transition: "background 0.2s ease",
@@ -366,6 +647,39 @@ const styles: Record<string, React.CSSProperties> = {
     borderRadius: 8,
   },
 
+  netTax: {
+    fontSize: 11,
+    color: "#b45309",
+    fontWeight: 600,
+  },
+
+  detailActions: {
+    display: "flex",
+    gap: 8,
+    marginTop: 12,
+  },
+
+  lineTable: {
+    width: "100%",
+    marginTop: 12,
+    borderCollapse: "collapse",
+    fontSize: 12,
+    color: "#4b5563",
+  },
+
+  lineTh: {
+    textAlign: "left",
+    padding: "6px 8px",
+    fontWeight: 600,
+    color: "#6b7280",
+    borderBottom: "1px solid rgba(102, 126, 234, 0.2)",
+  },
+
+  lineTd: {
+    padding: "6px 8px",
+    borderBottom: "1px solid rgba(0, 0, 0, 0.04)",
+  },
+
   pagination: {
     display: "flex",
     gap: 12,
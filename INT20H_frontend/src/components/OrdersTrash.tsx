@@ -0,0 +1,226 @@
+import { useEffect, useState, useCallback } from "react";
+import { getTrash, restoreOrders, purgeTrash, OrdersResponse } from "../api";
+
+interface Props {
+  refreshKey: number;
+  onRestored: () => void;
+}
+
+export default function OrdersTrash({ refreshKey, onRestored }: Props) {
+  const [data, setData] = useState<OrdersResponse | null>(null);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const fetchTrash = useCallback(async () => {
+    setError("");
+    try {
+      setData(await getTrash({ page, limit: 10 }));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }, [page, refreshKey]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  function toggle(id: number) {
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function handleRestore(ids: number[]) {
+    setBusy(true);
+    setError("");
+    try {
+      const restored = await restoreOrders(ids);
+      setNotice(`Restored ${restored} order${restored !== 1 ? "s" : ""}`);
+      setSelected(new Set());
+      onRestored();
+      fetchTrash();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handlePurge() {
+    if (!confirm(`Permanently delete orders that have been in the trash over ${data?.retention_days ?? 30} days?`)) return;
+    setBusy(true);
+    setError("");
+    try {
+      const purged = await purgeTrash();
+      setNotice(purged ? `Purged ${purged} order${purged !== 1 ? "s" : ""}` : "Nothing is past the retention period yet");
+      fetchTrash();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.toolbar}>
+        <strong style={styles.title}>♻️ Trash</strong>
+        {data && (
+          <span style={styles.info}>
+            {data.total} deleted order{data.total !== 1 ? "s" : ""} · kept {data.retention_days} days before purge
+          </span>
+        )}
+        <button
+          onClick={() => handleRestore([...selected])}
+          disabled={busy || selected.size === 0}
+          style={styles.btn}
+        >
+          ↩ Restore selected ({selected.size})
+        </button>
+        <button onClick={handlePurge} disabled={busy} style={{ ...styles.btn, ...styles.dangerBtn }}>
+          🔥 Purge expired
+        </button>
+      </div>
+
+      {error && <div style={styles.error}>❌ {error}</div>}
+      {notice && <div style={styles.notice}>✅ {notice}</div>}
+
+      {data && data.orders.length > 0 && (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              {["", "ID", "Deleted", "Reason", "Region", "Total", ""].map((h, i) => (
+                <th key={i} style={styles.th}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.orders.map((o) => (
+              <tr key={o.id}>
+                <td style={styles.td}>
+                  <input type="checkbox" checked={selected.has(o.id)} onChange={() => toggle(o.id)} />
+                </td>
+                <td style={styles.td}>{o.id}</td>
+                <td style={styles.td}>{o.deleted_at}</td>
+                <td style={styles.td}>{o.delete_reason ?? "—"}</td>
+                <td style={styles.td}>{o.tax_region}</td>
+                <td style={styles.td}>${o.total_amount.toFixed(2)}</td>
+                <td style={styles.td}>
+                  <button onClick={() => handleRestore([o.id])} disabled={busy} style={styles.btn}>↩ Restore</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {data && data.pages > 1 && (
+        <div style={styles.pagination}>
+          <button disabled={page <= 1} onClick={() => setPage((p) => p - 1)} style={styles.btn}>← Prev</button>
+          <span style={styles.info}>Page {page} / {data.pages}</span>
+          <button disabled={page >= data.pages} onClick={() => setPage((p) => p + 1)} style={styles.btn}>Next →</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    marginBottom: 16,
+    padding: 14,
+    background: "rgba(255, 255, 255, 0.6)",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 10,
+  },
+
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    gap: 10,
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+
+  title: {
+    fontSize: 14,
+    color: "#1a1a2e",
+  },
+
+  info: {
+    flex: 1,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+
+  btn: {
+    padding: "6px 12px",
+    background: "rgba(102, 126, 234, 0.1)",
+    border: "1.5px solid rgba(102, 126, 234, 0.3)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 600,
+    color: "#667eea",
+  },
+
+  dangerBtn: {
+    background: "rgba(239, 68, 68, 0.1)",
+    borderColor: "rgba(239, 68, 68, 0.3)",
+    color: "#dc2626",
+  },
+
+  error: {
+    marginBottom: 10,
+    padding: "8px 12px",
+    borderRadius: 8,
+    fontSize: 13,
+    background: "rgba(239, 68, 68, 0.1)",
+    border: "1px solid rgba(239, 68, 68, 0.3)",
+    color: "#dc2626",
+  },
+
+  notice: {
+    marginBottom: 10,
+    padding: "8px 12px",
+    borderRadius: 8,
+    fontSize: 13,
+    background: "rgba(34, 197, 94, 0.1)",
+    border: "1px solid rgba(34, 197, 94, 0.3)",
+    color: "#16a34a",
+  },
+
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: 12,
+    color: "#4b5563",
+  },
+
+  th: {
+    textAlign: "left",
+    padding: "6px 8px",
+    fontWeight: 600,
+    color: "#6b7280",
+    borderBottom: "1px solid rgba(102, 126, 234, 0.2)",
+  },
+
+  td: {
+    padding: "6px 8px",
+    borderBottom: "1px solid rgba(0, 0, 0, 0.04)",
+  },
+
+  pagination: {
+    display: "flex",
+    gap: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 10,
+  },
+};
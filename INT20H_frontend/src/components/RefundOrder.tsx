@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { getRefunds, createRefund, Order, OrderRefunds } from "../api";
+
+interface Props {
+  order: Order;
+  onSaved: (order: Order) => void;
+  onCancel: () => void;
+}
+
+const REASONS = ["Return", "Failed delivery", "Damaged kit", "Credit memo"];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function RefundOrder({ order, onSaved, onCancel }: Props) {
+  const [history, setHistory] = useState<OrderRefunds | null>(null);
+  const [full, setFull] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState(today());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getRefunds(order.id)
+      .then((h) => {
+        setHistory(h);
+        setAmount(h.refundable_amount.toFixed(2));
+      })
+      .catch((e) => setError(e.message));
+  }, [order.id]);
+
+  const left = history?.refundable_amount ?? 0;
+  // Same share of taxable sales at the composite rate as the server uses; rounding may differ by a cent
+  const partial = parseFloat(amount);
+  const estimate = !isNaN(partial) && order.subtotal
+    ? Math.min(history?.refundable_tax ?? 0, partial * ((order.taxable_amount ?? order.subtotal) / order.subtotal) * order.composite_tax_rate)
+    : 0;
+
+  async function handleSave() {
+    if (!full && (isNaN(partial) || partial <= 0 || partial > left)) {
+      setError(`Amount must be between 0.01 and ${left.toFixed(2)}`);
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      const res = await createRefund(order.id, {
+        ...(full ? { full: true } : { amount: partial }),
+        reason: reason.trim() || undefined,
+        refunded_at: date || undefined,
+      });
+      onSaved(res.order);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div style={styles.panel}>
+      {history && history.refunds.length > 0 && (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              {["Date", "Kind", "Reason", "Amount", "Tax reversed", "Paid back"].map((h) => (
+                <th key={h} style={styles.th}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {history.refunds.map((r) => (
+              <tr key={r.id}>
+                <td style={styles.td}>{r.refunded_at.slice(0, 10)}</td>
+                <td style={styles.td}>{r.kind}</td>
+                <td style={styles.td}>{r.reason ?? "—"}</td>
+                <td style={styles.td}>${r.amount.toFixed(2)}</td>
+                <td style={styles.td}>${r.tax_amount.toFixed(2)}</td>
+                <td style={styles.td}>${r.total_amount.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {history && left <= 0 ? (
+        <p style={styles.hint}>This order is fully refunded.</p>
+      ) : (
+        <>
+          <div style={styles.grid}>
+            <label style={styles.label}>
+              <span style={styles.labelText}>Refund</span>
+              <select style={styles.input} value={full ? "full" : "partial"} onChange={(e) => setFull(e.target.value === "full")}>
+                <option value="full">Everything left (${left.toFixed(2)})</option>
+                <option value="partial">Part, by amount</option>
+              </select>
+            </label>
+            <label style={styles.label}>
+              <span style={styles.labelText}>Amount before tax</span>
+              <input
+                style={styles.input}
+                type="number"
+                step="0.01"
+                disabled={full}
+                value={full ? left.toFixed(2) : amount}
+                onChange={(e) => { setAmount(e.target.value); setError(""); }}
+              />
+            </label>
+            <label style={styles.label}>
+              <span style={styles.labelText}>Reason</span>
+              <input style={styles.input} list="refund-reasons" value={reason} onChange={(e) => setReason(e.target.value)} />
+              <datalist id="refund-reasons">
+                {REASONS.map((r) => <option key={r} value={r} />)}
+              </datalist>
+            </label>
+            <label style={styles.label}>
+              <span style={styles.labelText}>Refund date</span>
+              <input style={styles.input} type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </label>
+          </div>
+
+          <p style={styles.hint}>
+            Reverses {full ? `$${(history?.refundable_tax ?? 0).toFixed(2)}` : `about $${estimate.toFixed(2)}`} tax
+            at {(order.composite_tax_rate * 100).toFixed(3)}%. The reversal is reported in the period of the refund date.
+          </p>
+        </>
+      )}
+      {error && <div style={styles.error}>❌ {error}</div>}
+
+      <div style={styles.actions}>
+        {history && left > 0 && (
+          <button onClick={handleSave} disabled={saving} style={styles.saveBtn}>
+            {saving ? "Recording..." : "Record refund"}
+          </button>
+        )}
+        <button onClick={onCancel} disabled={saving} style={styles.cancelBtn}>Close</button>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    marginTop: 12,
+    padding: 14,
+    background: "rgba(255, 255, 255, 0.6)",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 10,
+  },
+
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: 12,
+    marginBottom: 12,
+  },
+
+  th: {
+    padding: "6px 8px",
+    textAlign: "left",
+    fontWeight: 700,
+    color: "#667eea",
+    borderBottom: "1.5px solid rgba(102, 126, 234, 0.2)",
+    fontSize: 11,
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+  },
+
+  td: {
+    padding: "6px 8px",
+    color: "#374151",
+    borderBottom: "1px solid rgba(0, 0, 0, 0.05)",
+  },
+
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(4, 1fr)",
+    gap: 12,
+    marginBottom: 12,
+  },
+
+  label: {
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+  },
+
+  labelText: {
+    fontSize: 11,
+    fontWeight: 600,
+    color: "#4b5563",
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+  },
+
+  input: {
+    padding: "8px 10px",
+    border: "1.5px solid rgba(102, 126, 234, 0.2)",
+    borderRadius: 8,
+    fontSize: 13,
+    color: "#1a1a2e",
+    background: "rgba(255, 255, 255, 0.8)",
+  },
+
+  hint: {
+    margin: "0 0 12px 0",
+    fontSize: 12,
+    color: "#6b7280",
+  },
+
+  error: {
+    marginBottom: 12,
+    padding: "8px 12px",
+    borderRadius: 8,
+    fontSize: 13,
+    background: "rgba(239, 68, 68, 0.1)",
+    border: "1px solid rgba(239, 68, 68, 0.3)",
+    color: "#dc2626",
+  },
+
+  actions: {
+    display: "flex",
+    gap: 10,
+  },
+
+  saveBtn: {
+    padding: "8px 16px",
+    background: "linear-gradient(135deg, #667eea, #764ba2)",
+    color: "#fff",
+    border: "none",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 13,
+  },
+
+  cancelBtn: {
+    padding: "8px 14px",
+    background: "transparent",
+    color: "#6b7280",
+    border: "1.5px solid rgba(0, 0, 0, 0.1)",
+    borderRadius: 8,
+    cursor: "pointer",
+    fontSize: 13,
+  },
+};
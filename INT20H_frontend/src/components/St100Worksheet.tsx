@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { getSt100Worksheet, downloadSt100Csv, openSt100Worksheet, St100Worksheet as Worksheet, St100Line } from "../api";
+
+interface Props {
+  from: string;
+  to: string;
+  refreshKey: number;
+}
+
+const money = (v: number) => `$${v.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function St100Worksheet({ from, to, refreshKey }: Props) {
+  const [worksheet, setWorksheet] = useState<Worksheet | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!from || !to) return;
+    let cancelled = false;
+    setError("");
+    getSt100Worksheet(from, to)
+      .then((w) => { if (!cancelled) setWorksheet(w); })
+      .catch((e) => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [from, to, refreshKey]);
+
+  async function run(action: () => Promise<void>) {
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  function row(l: St100Line) {
+    return (
+      <tr key={`${l.reporting_code ?? l.jurisdiction}-${l.rate}`} style={l.reporting_code ? undefined : styles.review}>
+        <td style={styles.td}>{l.jurisdiction}</td>
+        <td style={{ ...styles.td, ...styles.code }}>{l.reporting_code ?? "—"}</td>
+        <td style={styles.td}>{money(l.taxable_sales)}</td>
+        <td style={styles.td}>{(l.rate * 100).toFixed(3)}%</td>
+        <td style={styles.td}>{money(l.tax_due)}</td>
+      </tr>
+    );
+  }
+
+  return (
+    <div style={styles.section}>
+      <div style={styles.toolbar}>
+        <h4 style={styles.title}>Form ST-100 worksheet</h4>
+        <button onClick={() => run(() => downloadSt100Csv(from, to))} disabled={!worksheet} style={styles.btn}>
+          ⬇ CSV
+        </button>
+        <button onClick={() => run(() => openSt100Worksheet(from, to))} disabled={!worksheet} style={styles.btn}>
+          🖨 Printable / PDF
+        </button>
+      </div>
+
+      {error && <p style={styles.error}>{error}</p>}
+
+      {worksheet && worksheet.lines.length > 0 && (
+        <>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                {["Jurisdiction", "Code", "A · Taxable sales", "B · Rate", "C · Tax due"].map((h) => (
+                  <th key={h} style={styles.th}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {worksheet.lines.map(row)}
+              {worksheet.mctd.map(row)}
+              <tr style={styles.totalRow}>
+                <td style={{ ...styles.td, ...styles.strong }} colSpan={2}>Total</td>
+                <td style={{ ...styles.td, ...styles.strong }}>{money(worksheet.total_taxable_sales)}</td>
+                <td style={styles.td}></td>
+                <td style={{ ...styles.td, ...styles.strong }}>{money(worksheet.total_tax_due)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {worksheet.unassigned_orders > 0 && (
+            <p style={styles.hint}>
+              ⚠️ {worksheet.unassigned_orders} order{worksheet.unassigned_orders !== 1 ? "s have" : " has"} no
+              reporting code (highlighted). Check their location before filing.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: {
+    marginTop: 28,
+    paddingTop: 20,
+    borderTop: "1.5px solid rgba(102, 126, 234, 0.15)",
+  },
+
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+
+  title: {
+    margin: "0 auto 0 0",
+    fontSize: 15,
+    fontWeight: 700,
+    color: "#1a1a2e",
+  },
+
+  btn: {
+    padding: "8px 14px",
+    background: "rgba(102, 126, 234, 0.1)",
+    border: "1.5px solid rgba(102, 126, 234, 0.3)",
+    borderRadius: 10,
+    cursor: "pointer",
+    fontSize: 13,
+    fontWeight: 600,
+    color: "#667eea",
+  },
+
+  error: {
+    color: "#dc2626",
+    fontSize: 13,
+    padding: "10px 12px",
+    background: "rgba(239, 68, 68, 0.1)",
+    borderRadius: 8,
+    margin: "0 0 12px 0",
+  },
+
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: 13,
+  },
+
+  th: {
+    padding: "8px 10px",
+    textAlign: "left",
+    fontWeight: 700,
+    color: "#667eea",
+    borderBottom: "2px solid rgba(102, 126, 234, 0.2)",
+    fontSize: 11,
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+  },
+
+  td: {
+    padding: "8px 10px",
+    color: "#374151",
+    borderBottom: "1px solid rgba(0, 0, 0, 0.05)",
+  },
+
+  code: {
+    fontFamily: "monospace",
+  },
+
+  review: {
+    background: "rgba(245, 158, 11, 0.1)",
+  },
+
+  totalRow: {
+    borderTop: "2px solid rgba(102, 126, 234, 0.2)",
+  },
+
+  strong: {
+    fontWeight: 700,
+    color: "#1a1a2e",
+  },
+
+  hint: {
+    marginTop: 10,
+    fontSize: 12,
+    color: "#92400e",
+  },
+};